@@ -52,7 +52,19 @@ import { supabase } from './lib/supabase';
 import { chatFeaturesService } from './lib/chat-features';
 import { layoutManager, ExtendedLayoutConfig, MobileLayoutConfig, defaultMobileLayout, defaultLayoutWithAuth } from './lib/auth-integration'
 import { StripeService } from './lib/stripeService';
-import { LogIn, UserPlus, User, Loader2 } from 'lucide-react';
+import { conversationExportService, type ExportFormat } from './lib/conversation-export';
+import { messageSearchService, splitSnippet, type MessageSearchFilters, type MessageSearchMode, type MessageSearchResult } from './lib/message-search';
+import SimilarConversations from './components/SimilarConversations';
+import PersonaPicker from './components/PersonaPicker';
+import PersonaManager from './components/PersonaManager';
+import ToolManager from './components/ToolManager';
+import GenerationParametersPanel from './components/GenerationParametersPanel';
+import AttachmentPicker from './components/AttachmentPicker';
+import VoiceInputButton from './components/VoiceInputButton';
+import type { Persona } from './lib/personas';
+import { isImageAttachment, type MessageAttachment } from './lib/attachments';
+import { supportsImageInput, supportsToolCalling } from './models/registry';
+import { LogIn, UserPlus, User, Loader2, Wrench } from 'lucide-react';
 import AnonymousUsageIndicator from './components/AnonymousUsageIndicator';
 
 /**
@@ -144,7 +156,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     name: 'Claude Haiku 3',
     code: 'claude-3-haiku-20240307',
     provider: 'Claude',
-    capabilities: ['text', 'reasoning'],
+    capabilities: ['text'],
     description: 'Fast, cost-effective Claude 3 Haiku model.',
     premium: false
   },
@@ -152,7 +164,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     name: 'DeepSeek V3',
     code: 'DeepSeek-V3',
     provider: 'DeepSeek',
-    capabilities: ['text', 'code', 'reasoning'],
+    capabilities: ['text', 'code'],
     description: 'DeepSeek chat model, strong general AI.',
     premium: false
   },
@@ -168,7 +180,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     name: 'Mistral Medium 3',
     code: 'mistral-medium-latest',
     provider: 'Mistral',
-    capabilities: ['text', 'reasoning'],
+    capabilities: ['text'],
     description: 'State-of-the-art performance. Cost-efficient.',
     premium: false
   },
@@ -176,7 +188,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     name: 'Mistral Small 3.1',
     code: 'mistral-small-latest',
     provider: 'Mistral',
-    capabilities: ['text', 'reasoning', 'multimodal'],
+    capabilities: ['text', 'multimodal'],
     description: 'SOTA. Multimodal. Multilingual. Apache 2.0.',
     premium: false
   },
@@ -203,16 +215,28 @@ const App: React.FC = () => {
     messages,
     setMessages,
     sendMessage,
+    stopGeneration,
     conversations,
     setConversations,
     activeConversationId,
     setActiveConversationId,
+    selectConversation,
+    editMessage,
+    regenerateResponse,
+    switchBranch,
+    forkConversation,
     isLoading,
+    generatingConversationIds,
     isCreatingConversation,
     handleNewConversation,
-    searchResults,
-    setSearchResults,
-    searchConversations
+    refreshConversations,
+    personas,
+    refreshPersonas,
+    activePersona,
+    setConversationPersona,
+    generationParameters,
+    setGenerationParameters,
+    contextCompaction
   } = useMessages();
 
   const [email, setEmail] = useState('');
@@ -265,7 +289,6 @@ const App: React.FC = () => {
   const [loginForm, setLoginForm] = useState({ email: '', password: '' });
   const [signupForm, setSignupForm] = useState({ fullName: '', email: '', password: '' });
   const [selectedModel, setSelectedModel] = useState(AVAILABLE_MODELS[0].code);
-  const [isGenerating, setIsGenerating] = useState(false);
   const [conversationId, setConversationId] = useState<string | undefined>();
   const [conversationTitle, setConversationTitle] = useState<string>('');
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
@@ -273,6 +296,21 @@ const App: React.FC = () => {
   const [isSearchFocused, setIsSearchFocused] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
+  const [searchMode, setSearchMode] = useState<MessageSearchMode>('keyword');
+  const [searchFilters, setSearchFilters] = useState<MessageSearchFilters>({});
+  // Messages the semantic index has not caught up with yet
+  const [searchPending, setSearchPending] = useState(0);
+  const [searchResults, setSearchResults] = useState<MessageSearchResult[]>([]);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [hasSearched, setHasSearched] = useState(false);
+  // Search hit to scroll to once its conversation is open
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  const [similarToConversationId, setSimilarToConversationId] = useState<string | null>(null);
+  const [showPersonaManager, setShowPersonaManager] = useState(false);
+  const [showToolManager, setShowToolManager] = useState(false);
+  // Images and documents uploaded for the next message
+  const [pendingAttachments, setPendingAttachments] = useState<MessageAttachment[]>([]);
+  const messageInputRef = useRef<HTMLTextAreaElement>(null);
 
   // Filtered models based on user subscription
   const filteredModels = AVAILABLE_MODELS.filter(model => !model.premium || (user && user.subscription === 'pro'));
@@ -342,7 +380,7 @@ const App: React.FC = () => {
   };
 
   const handleSelectConversation = (conversationId: string) => {
-    setActiveConversationId(conversationId);
+    selectConversation(conversationId);
     if (isMobile) {
       setIsMobileMenuOpen(false);
     }
@@ -384,6 +422,7 @@ const App: React.FC = () => {
 
   const handleConversationSelect = (convId: string) => {
     setCurrentConversationId(convId);
+    selectConversation(convId);
   };
 
   const handleConversationDelete = (convId: string) => {
@@ -391,9 +430,56 @@ const App: React.FC = () => {
     console.log('Delete conversation:', convId);
   };
 
-  const handleSearch = () => {
-    // Implementation for search
-    console.log('Search:', searchQuery);
+  const handleConversationExport = async (convId: string, format: ExportFormat) => {
+    try {
+      await conversationExportService.exportConversation(convId, format, { themeId: theme, isDark });
+    } catch (error) {
+      console.error('❌ Failed to export conversation:', error);
+      setChatError('Could not export this conversation. Please try again.');
+    }
+  };
+
+  const handleSearch = async () => {
+    if (!searchQuery.trim()) return;
+
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      if (searchMode === 'semantic') {
+        const { results, remaining } = await messageSearchService.searchSemantic(searchQuery, searchFilters);
+        setSearchResults(results);
+        setSearchPending(remaining);
+      } else {
+        setSearchResults(await messageSearchService.search(searchQuery, searchFilters));
+        setSearchPending(0);
+      }
+    } catch (error) {
+      console.error('❌ Message search failed:', error);
+      setSearchResults([]);
+      setSearchError('Search is not available right now. Please try again.');
+    } finally {
+      setIsSearching(false);
+      setHasSearched(true);
+    }
+  };
+
+  const closeSearch = () => {
+    setIsSearchFocused(false);
+    setSearchResults([]);
+    setSearchQuery('');
+    setSearchError(null);
+    setHasSearched(false);
+    setSearchPending(0);
+  };
+
+  const handleSearchResultSelect = (result: MessageSearchResult) => {
+    setCurrentConversationId(result.conversation_id);
+    setFocusedMessageId(result.message_id);
+    selectConversation(result.conversation_id, result.message_id);
+    closeSearch();
+    if (isMobile) {
+      setIsMobileMenuOpen(false);
+    }
   };
 
   const getUserInitial = () => {
@@ -408,9 +494,46 @@ const App: React.FC = () => {
     setCustomization(newCustomization);
   };
 
-  const handleRegenerateResponse = () => {
-    // Implementation for regenerating response
-    console.log('Regenerate response');
+  // Voice input is appended to whatever was already typed
+  const handleTranscript = (text: string) => {
+    const input = messageInputRef.current;
+    if (!input) return;
+    input.value = input.value.trim() ? `${input.value.trimEnd()} ${text}` : text;
+    input.focus();
+  };
+
+  const hasPendingImages = pendingAttachments.some(isImageAttachment);
+  const imagesUnsupported = hasPendingImages && !supportsImageInput(selectedModel);
+
+  const handleSendMessage = (message: string) => {
+    // The input box shows why; sending would fail on the server
+    if (imagesUnsupported) return;
+    sendMessage(message, selectedModel, pendingAttachments);
+    setPendingAttachments([]);
+  };
+
+  const handlePersonaSelect = (persona: Persona | null) => {
+    setConversationPersona(persona?.id ?? null);
+    if (persona?.default_model && filteredModels.some(model => model.code === persona.default_model)) {
+      setSelectedModel(persona.default_model);
+    }
+  };
+
+  const handleRegenerateResponse = (messageId: string) => {
+    regenerateResponse(messageId, selectedModel);
+  };
+
+  const handleEditMessage = (messageId: string, content: string) => {
+    editMessage(messageId, content, selectedModel);
+  };
+
+  const handleForkFromMessage = async (messageId: string) => {
+    const forked = await forkConversation(messageId, selectedModel);
+    if (forked) {
+      setCurrentConversationId(forked.id);
+    } else {
+      setChatError('Could not fork this conversation. Please try again.');
+    }
   };
 
   if (authLoading) {
@@ -448,7 +571,7 @@ const App: React.FC = () => {
   const commonProps = {
     isDark,
     customization,
-    onSendMessage: sendMessage,
+    onSendMessage: handleSendMessage,
     onNewGame: () => { },
     onNewChat: () => { },
     onLoginClick: () => { },
@@ -570,7 +693,7 @@ const App: React.FC = () => {
                   customization={customization}
                   isCollapsed={isSidebarCollapsed}
                   onToggleCollapse={toggleSidebar}
-                  onSendMessage={sendMessage}
+                  onSendMessage={handleSendMessage}
                   onNewGame={handleNewGame}
                   onNewChat={handleNewChat}
                   detachedMode={true} // New prop to indicate detached components
@@ -578,6 +701,9 @@ const App: React.FC = () => {
                   currentConversationId={currentConversationId}
                   onConversationSelect={handleConversationSelect}
                   onConversationDelete={handleConversationDelete}
+                  onConversationExport={handleConversationExport}
+                  onFindSimilar={user ? setSimilarToConversationId : undefined}
+                  generatingConversationIds={generatingConversationIds}
                   hasGlassEffect={hasGlassEffect()}
                   isLoggedIn={!!user}
                 />
@@ -750,8 +876,7 @@ const App: React.FC = () => {
                 <div className={`h-full w-full ${canvasSurfaceClass}`}>
                   {messages.length === 0 ? (
                     <MainContent 
-                      isDark={isDark} 
-                      onSendMessage={sendMessage}
+                      onSendMessage={handleSendMessage}
                       selectedModel={selectedModel}
                       onModelChange={setSelectedModel}
                       availableModels={filteredModels}
@@ -760,27 +885,35 @@ const App: React.FC = () => {
                       onLoginClick={() => setShowLoginModal(true)}
                       // Alleen input tonen als er geen inputBox in layout is of als we mobiel zijn
                       hideInput={!!layout.inputBox && !isMobile}
-                      hasGlassEffect={hasGlassEffect()}
                       hasActiveSubscription={hasActiveSubscription}
                     />
                   ) : !isMobile && (
                     <ChatView 
                       isDark={isDark} 
                       messages={messages}
-                      onSendMessage={sendMessage}
+                      onSendMessage={handleSendMessage}
                       selectedModel={selectedModel}
                       onModelChange={setSelectedModel}
                       availableModels={filteredModels}
                       hideInput={true}
                       customization={customization}
-                      isGenerating={isGenerating}
+                      isGenerating={isLoading}
+                      onStopGeneration={stopGeneration}
                       conversationId={currentConversationId || undefined}
                       conversationTitle={conversationTitle}
+                      onExportConversation={currentConversationId ? (format) => handleConversationExport(currentConversationId, format) : undefined}
                       isLoggedIn={!!user}
                       onLoginClick={() => setShowLoginModal(true)}
                       error={chatError}
                       setError={setChatError}
-                      onRegenerateResponse={() => handleRegenerateResponse()}
+                      onRegenerateResponse={handleRegenerateResponse}
+                      onEditMessage={handleEditMessage}
+                      onSwitchBranch={switchBranch}
+                      onForkFromMessage={handleForkFromMessage}
+                      focusMessageId={focusedMessageId}
+                      onFocusHandled={() => setFocusedMessageId(null)}
+                      contextCompaction={contextCompaction}
+                      generationParameters={generationParameters}
                     />
                   )}
                 </div>
@@ -799,11 +932,19 @@ const App: React.FC = () => {
                         />
                       )}
 
+                      {imagesUnsupported && (
+                        <div className={`mb-2 px-3 py-2 rounded-xl text-xs border ${
+                          isDark ? 'bg-amber-900/30 border-amber-700 text-amber-200' : 'bg-amber-50 border-amber-300 text-amber-800'
+                        }`}>
+                          {filteredModels.find(model => model.code === selectedModel)?.name || selectedModel} cannot read images. Choose a model with image support or remove the images to send.
+                        </div>
+                      )}
+
                       <form onSubmit={(e) => {
                         e.preventDefault();
                         const input = e.currentTarget.querySelector('textarea') as HTMLTextAreaElement;
-                        if (input?.value.trim()) {
-                          sendMessage(input.value);
+                        if (input && (input.value.trim() || pendingAttachments.length > 0) && !imagesUnsupported) {
+                          handleSendMessage(input.value);
                           input.value = '';
                         }
                       }}>
@@ -814,6 +955,7 @@ const App: React.FC = () => {
                             : `border ${isDark ? 'bg-gray-700 border-gray-600' : 'bg-white border-purple-200'} shadow-sm`
                         }`}>
                           <textarea
+                            ref={messageInputRef}
                             placeholder="Type your message here..."
                             className={`w-full px-6 py-4 pr-32 rounded-2xl resize-none focus:outline-none min-h-[60px] max-h-32 ${
                               hasGlassEffect() && !isDark 
@@ -825,9 +967,9 @@ const App: React.FC = () => {
                             style={{ fontFamily: customization.fontFamily }}
                             rows={1}
                             onKeyDown={(e) => {
-                              if (e.key === 'Enter' && !e.shiftKey && e.currentTarget.value.trim()) {
+                              if (e.key === 'Enter' && !e.shiftKey && (e.currentTarget.value.trim() || pendingAttachments.length > 0) && !imagesUnsupported) {
                                 e.preventDefault();
-                                sendMessage(e.currentTarget.value);
+                                handleSendMessage(e.currentTarget.value);
                                 e.currentTarget.value = '';
                               }
                             }}
@@ -843,7 +985,60 @@ const App: React.FC = () => {
                                 availableModels={filteredModels}
                                 customization={customization}
                                 hasActiveSubscription={hasActiveSubscription}
+                                hasImageAttachments={hasPendingImages}
+                              />
+                              {/* Generation Parameters */}
+                              <GenerationParametersPanel
+                                isDark={isDark}
+                                customization={customization}
+                                modelCode={selectedModel}
+                                parameters={generationParameters}
+                                onChange={setGenerationParameters}
                               />
+                              {/* Persona Picker */}
+                              {user && (
+                                <PersonaPicker
+                                  isDark={isDark}
+                                  customization={customization}
+                                  personas={personas}
+                                  activePersona={activePersona}
+                                  currentUserId={user.id}
+                                  onSelect={handlePersonaSelect}
+                                  onManage={() => setShowPersonaManager(true)}
+                                />
+                              )}
+                              {/* Attachments */}
+                              {user && (
+                                <AttachmentPicker
+                                  isDark={isDark}
+                                  customization={customization}
+                                  userId={user.id}
+                                  attachments={pendingAttachments}
+                                  onChange={setPendingAttachments}
+                                  onError={setChatError}
+                                  disabled={isLoading}
+                                />
+                              )}
+                              {/* Tools for tool-calling models */}
+                              {user && supportsToolCalling(selectedModel) && (
+                                <button
+                                  type="button"
+                                  onClick={() => setShowToolManager(true)}
+                                  className={`p-1 ${isDark ? 'text-gray-300 hover:text-white' : 'hover:text-purple-700'}`}
+                                  style={{ color: isDark ? undefined : customization.primaryColor }}
+                                  title="Tools this model can call"
+                                >
+                                  <Wrench className="w-4 h-4" />
+                                </button>
+                              )}
+                              {/* Voice Input */}
+                              {user && (
+                                <VoiceInputButton
+                                  isDark={isDark}
+                                  customization={customization}
+                                  onTranscript={handleTranscript}
+                                />
+                              )}
                               {/* Search Button */}
                               {user && (
                                 <button 
@@ -860,9 +1055,11 @@ const App: React.FC = () => {
                               )}
                             </div>
                             
-                            {/* Send Button */}
+                            {/* Send Button - becomes Stop while a response is generating */}
                             <button 
-                              type="submit"
+                              type={isLoading ? 'button' : 'submit'}
+                              onClick={isLoading ? stopGeneration : undefined}
+                              title={isLoading ? 'Stop generating' : undefined}
                               className={`${
                                 hasGlassEffect() && !isDark 
                                   ? 'glass-button-modern text-gray-800' 
@@ -876,9 +1073,15 @@ const App: React.FC = () => {
                                   : undefined
                               }}
                             >
-                              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
-                                <path d="M4,12l1.41,1.41L11,7.83V20h2V7.83l5.58,5.59L20,12l-8-8L4,12z"/>
-                              </svg>
+                              {isLoading ? (
+                                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                                  <rect x="6" y="6" width="12" height="12" rx="1.5"/>
+                                </svg>
+                              ) : (
+                                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                                  <path d="M4,12l1.41,1.41L11,7.83V20h2V7.83l5.58,5.59L20,12l-8-8L4,12z"/>
+                                </svg>
+                              )}
                             </button>
                           </div>
                         </div>
@@ -1004,14 +1207,12 @@ const App: React.FC = () => {
           style={{ zIndex: 9999 }}
           onClick={(e) => {
             if (e.target === e.currentTarget) {
-              setIsSearchFocused(false);
-              setSearchResults([]);
-              setSearchQuery('');
+              closeSearch();
             }
           }}
         >
           <div 
-            className="w-[500px] max-w-[90vw] max-h-[80vh] p-6 rounded-theme shadow-theme bg-theme-surface border border-theme"
+            className="w-[560px] max-w-[90vw] max-h-[80vh] p-6 rounded-theme shadow-theme bg-theme-surface border border-theme flex flex-col"
             onClick={(e) => e.stopPropagation()}
           >
             <h3 className={`text-lg font-semibold mb-4 ${isDark ? 'text-white' : 'text-gray-900'}`}>
@@ -1021,7 +1222,10 @@ const App: React.FC = () => {
               <input
                 type="text"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setHasSearched(false);
+                }}
                 placeholder="Zoek in je conversaties..."
                 className={`w-full p-3 rounded-lg border ${
                   isDark 
@@ -1034,12 +1238,93 @@ const App: React.FC = () => {
                 autoFocus
                 onKeyDown={(e) => {
                   if (e.key === 'Escape') {
-                    setIsSearchFocused(false);
-                    setSearchResults([]);
-                    setSearchQuery('');
+                    closeSearch();
                   }
                 }}
               />
+
+              {/* Mode and filters */}
+              <div className={`flex mt-3 p-1 rounded-lg text-sm ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                {([
+                  ['keyword', 'Keywords'],
+                  ['semantic', 'Meaning']
+                ] as [MessageSearchMode, string][]).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => {
+                      setSearchMode(mode);
+                      setSearchResults([]);
+                      setHasSearched(false);
+                    }}
+                    className={`flex-1 py-1.5 rounded-md transition-colors ${
+                      searchMode === mode
+                        ? 'text-white'
+                        : isDark ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'
+                    }`}
+                    style={searchMode === mode ? { backgroundColor: customization.primaryColor } : undefined}
+                    title={mode === 'semantic' ? 'Find messages about the same topic, even with different words' : 'Find messages containing these words'}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2 mt-3">
+                <select
+                  value={searchFilters.role ?? ''}
+                  onChange={(e) => setSearchFilters(prev => ({
+                    ...prev,
+                    role: (e.target.value || undefined) as MessageSearchFilters['role']
+                  }))}
+                  className={`p-2 rounded-lg border text-sm ${
+                    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                  aria-label="Filter by role"
+                >
+                  <option value="">All messages</option>
+                  <option value="user">My messages</option>
+                  <option value="assistant">AI responses</option>
+                </select>
+                <select
+                  value={searchFilters.models?.[0] ?? ''}
+                  onChange={(e) => setSearchFilters(prev => ({
+                    ...prev,
+                    models: e.target.value ? [e.target.value] : undefined
+                  }))}
+                  className={`p-2 rounded-lg border text-sm ${
+                    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                  aria-label="Filter by model"
+                >
+                  <option value="">All models</option>
+                  {AVAILABLE_MODELS.map(model => (
+                    <option key={model.code} value={model.code}>{model.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={searchFilters.from ?? ''}
+                  max={searchFilters.to}
+                  onChange={(e) => setSearchFilters(prev => ({ ...prev, from: e.target.value || undefined }))}
+                  className={`p-2 rounded-lg border text-sm ${
+                    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                  aria-label="From date"
+                  title="From"
+                />
+                <input
+                  type="date"
+                  value={searchFilters.to ?? ''}
+                  min={searchFilters.from}
+                  onChange={(e) => setSearchFilters(prev => ({ ...prev, to: e.target.value || undefined }))}
+                  className={`p-2 rounded-lg border text-sm ${
+                    isDark ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'
+                  }`}
+                  aria-label="To date"
+                  title="To"
+                />
+              </div>
+
               <div className="flex gap-3 mt-4">
                 <button
                   type="submit"
@@ -1062,11 +1347,7 @@ const App: React.FC = () => {
                 </button>
                 <button
                   type="button"
-                  onClick={() => {
-                    setIsSearchFocused(false);
-                    setSearchResults([]);
-                    setSearchQuery('');
-                  }}
+                  onClick={closeSearch}
                   className={`px-4 py-2 rounded-lg transition-colors ${
                     isDark 
                       ? 'bg-gray-700 text-gray-300 hover:bg-gray-600' 
@@ -1078,42 +1359,54 @@ const App: React.FC = () => {
               </div>
             </form>
 
+            {searchError && (
+              <div className="mt-4 text-sm text-red-500">{searchError}</div>
+            )}
+
+            {searchMode === 'semantic' && hasSearched && searchPending > 0 && (
+              <div className={`mt-4 text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                Still indexing {searchPending} messages; results may be incomplete.
+              </div>
+            )}
+
             {/* Search Results */}
             {searchResults.length > 0 && (
-              <div className="mt-6">
+              <div className="mt-6 flex flex-col min-h-0">
                 <h4 className={`text-sm font-medium mb-3 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
                   {searchResults.length} results found
                 </h4>
-                <div className="max-h-64 overflow-y-auto space-y-3">
-                  {searchResults.map((result, index) => (
+                <div className="max-h-80 overflow-y-auto space-y-3">
+                  {searchResults.map((result) => (
                     <div
-                      key={index}
-                      onClick={() => {
-                        handleConversationSelect(result.conversation.id);
-                        setIsSearchFocused(false);
-                        setSearchResults([]);
-                        setSearchQuery('');
-                      }}
+                      key={result.message_id}
+                      onClick={() => handleSearchResultSelect(result)}
                       className={`p-3 rounded-lg cursor-pointer border transition-colors ${
                         isDark 
                           ? 'bg-gray-700 border-gray-600 hover:bg-gray-600' 
                           : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
                       }`}
                     >
-                      <div className={`font-medium text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                        {result.conversation.title || 'Untitled Conversation'}
+                      <div className={`font-medium text-sm truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                        {result.conversation_title || 'Untitled Conversation'}
                       </div>
                       <div className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-                                                  {result.type === 'title' ? 'Title match' : `${result.matchCount} messages found`}
+                        {result.role === 'user' ? 'You' : (AVAILABLE_MODELS.find(m => m.code === result.model)?.name ?? result.model ?? 'AI')}
+                        {' · '}
+                        {new Date(result.created_at).toLocaleDateString()}
+                      </div>
+                      <div className={`text-xs mt-2 break-words ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
+                        {splitSnippet(result.snippet).map((part, i) => part.highlight ? (
+                          <mark
+                            key={i}
+                            className="rounded px-0.5 text-inherit"
+                            style={{ backgroundColor: `color-mix(in srgb, ${customization.primaryColor} 30%, transparent)` }}
+                          >
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <span key={i}>{part.text}</span>
+                        ))}
                       </div>
-                      {result.type === 'content' && result.messages && (
-                        <div className={`text-xs mt-2 ${isDark ? 'text-gray-300' : 'text-gray-600'}`}>
-                          {result.messages[0].content.length > 100 
-                            ? result.messages[0].content.substring(0, 100) + '...'
-                            : result.messages[0].content
-                          }
-                        </div>
-                      )}
                     </div>
                   ))}
                 </div>
@@ -1121,7 +1414,7 @@ const App: React.FC = () => {
             )}
 
             {/* No Results */}
-            {searchQuery && searchResults.length === 0 && !isSearching && (
+            {hasSearched && searchResults.length === 0 && !isSearching && !searchError && (
               <div className={`mt-6 text-center py-8 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
                 <p>No results found for "{searchQuery}"</p>
               </div>
@@ -1130,6 +1423,44 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Similar Conversations Modal */}
+      {similarToConversationId && (
+        <SimilarConversations
+          isDark={isDark}
+          customization={customization}
+          conversationId={similarToConversationId}
+          conversationTitle={conversations.find(c => c.id === similarToConversationId)?.title ?? ''}
+          onSelect={(convId) => {
+            setSimilarToConversationId(null);
+            handleConversationSelect(convId);
+          }}
+          onClose={() => setSimilarToConversationId(null)}
+        />
+      )}
+
+      {/* Persona Manager Modal */}
+      {showPersonaManager && user && (
+        <PersonaManager
+          isDark={isDark}
+          customization={customization}
+          userId={user.id}
+          personas={personas}
+          availableModels={filteredModels}
+          onChanged={refreshPersonas}
+          onClose={() => setShowPersonaManager(false)}
+        />
+      )}
+
+      {/* Tool Manager Modal */}
+      {showToolManager && user && (
+        <ToolManager
+          isDark={isDark}
+          customization={customization}
+          userId={user.id}
+          onClose={() => setShowToolManager(false)}
+        />
+      )}
+
       {/* Login Modal */}
       {showLoginModal && (
         <div 
@@ -1396,6 +1727,7 @@ const App: React.FC = () => {
               onCustomizationChange={updateCustomization}
               user={user}
               onLogout={handleLogout}
+              onConversationsImported={refreshConversations}
               onOpenAPIKeyManager={() => {
                 setIsAccountMenuOpen(false);
                 setShowApiKeyManager(true);
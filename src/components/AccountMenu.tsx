@@ -1,11 +1,15 @@
-import React, { useState } from 'react';
-import { X, ChevronLeft, Palette, Type, Eye, EyeOff, Sparkles, Save, Check, RotateCcw, LogOut, Brush } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, ChevronLeft, Palette, Type, Eye, EyeOff, Sparkles, Save, Check, RotateCcw, LogOut, Brush, Download, Upload } from 'lucide-react';
 import { CustomizationSettings } from '../types/app';
 import { AVAILABLE_THEMES } from '../theme/registry';
 import type { User } from '@supabase/supabase-js';
 import { useSubscription } from '../hooks/useSubscription';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { creditService, TRANSACTION_KIND_LABELS, type CreditBalances, type CreditTransaction } from '../lib/credits';
+import { AVAILABLE_MODELS } from '../models/registry';
+import { conversationExportService } from '../lib/conversation-export';
+import { conversationImportService, ImportFormatError, IMPORT_SOURCE_LABELS, type ImportReport } from '../lib/conversation-import';
 
 interface AccountMenuProps {
   isDark: boolean;
@@ -14,10 +18,11 @@ interface AccountMenuProps {
   onCustomizationChange: (settings: Partial<CustomizationSettings>) => void;
   user?: User | null;
   onLogout?: () => void;
+  onConversationsImported?: () => void;
   onOpenAPIKeyManager?: () => void;
 }
 
-export default function AccountMenu({ isDark, onClose, customization, onCustomizationChange, user, onLogout, onOpenAPIKeyManager }: AccountMenuProps) {
+export default function AccountMenu({ isDark, onClose, customization, onCustomizationChange, user, onLogout, onConversationsImported, onOpenAPIKeyManager }: AccountMenuProps) {
   const [activeTab, setActiveTab] = useState('Account');
   const [tempCustomization, setTempCustomization] = useState<CustomizationSettings>(customization);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
@@ -30,6 +35,15 @@ export default function AccountMenu({ isDark, onClose, customization, onCustomiz
   const [lightCredits, setLightCredits] = useState<number>(0);
   const [mediumCredits, setMediumCredits] = useState<number>(0);
   const [heavyCredits, setHeavyCredits] = useState<number>(0);
+  // Credit ledger (Activity tab)
+  const [activityLoading, setActivityLoading] = useState<boolean>(false);
+  const [activityError, setActivityError] = useState<string | null>(null);
+  const [activityBalances, setActivityBalances] = useState<CreditBalances | null>(null);
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [exportLoading, setExportLoading] = useState(false);
+  const [importLoading, setImportLoading] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
 
   const fetchTokenBalances = async () => {
     if (!user) return;
@@ -83,7 +97,33 @@ export default function AccountMenu({ isDark, onClose, customization, onCustomiz
     }
   }, [subscriptionLoading]);
 
-  const tabs = ['Account', 'Customization', 'History & Sync', 'Models', 'API Keys', 'Attachments', 'Contact Me'];
+  const fetchActivity = async () => {
+    if (!user) return;
+    try {
+      setActivityLoading(true);
+      setActivityError(null);
+      const [balances, entries] = await Promise.all([
+        creditService.getBalances(user.id),
+        creditService.getTransactions(user.id),
+      ]);
+      setActivityBalances(balances);
+      setTransactions(entries);
+    } catch (err) {
+      console.error('❌ [AccountMenu] Failed to fetch credit activity:', err);
+      setActivityError('Failed to load credit activity');
+    } finally {
+      setActivityLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (activeTab === 'Activity') {
+      fetchActivity();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeTab, user?.id]);
+
+  const tabs = ['Account', 'Activity', 'Customization', 'History & Sync', 'Models', 'API Keys', 'Attachments', 'Contact Me'];
 
   const colorPresets = [
     { name: 'Purple', primary: '#7c3aed', secondary: '#a855f7' },
@@ -184,6 +224,40 @@ export default function AccountMenu({ isDark, onClose, customization, onCustomiz
     }
   };
 
+  const handleExportAllData = async () => {
+    if (!user || exportLoading) return;
+
+    setExportLoading(true);
+    try {
+      await conversationExportService.exportAllData(user.id);
+    } catch (error) {
+      console.error('❌ [AccountMenu] Failed to export data:', error);
+      alert('Something went wrong while exporting your data. Please try again.');
+    } finally {
+      setExportLoading(false);
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!user || !file || importLoading) return;
+
+    setImportLoading(true);
+    setImportReport(null);
+    setImportError(null);
+    try {
+      const report = await conversationImportService.importFile(file, user.id);
+      setImportReport(report);
+      if (report.importedConversations > 0) onConversationsImported?.();
+    } catch (error) {
+      console.error('❌ [AccountMenu] Failed to import conversations:', error);
+      setImportError(error instanceof ImportFormatError ? error.message : 'Something went wrong while importing. Please try again.');
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
   const renderAccountTab = () => (
     <div className="space-y-6" style={{ fontFamily: customization.fontFamily }}>
       {/* Profile Section */}
@@ -289,6 +363,82 @@ export default function AccountMenu({ isDark, onClose, customization, onCustomiz
         </div>
       )}
 
+      {/* Data Export - Only for logged in users */}
+      {user && (
+        <div className={`p-4 rounded-lg border ${isDark ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+          <div className="flex justify-between items-center">
+            <div>
+              <h4 className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                Your Data
+              </h4>
+              <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                Download all conversations, messages and attachment references as JSON.
+              </p>
+            </div>
+            <button
+              onClick={handleExportAllData}
+              disabled={exportLoading}
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                isDark
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+              }`}
+            >
+              <Download className="w-4 h-4" />
+              {exportLoading ? 'Exporting...' : 'Export all my data'}
+            </button>
+          </div>
+
+          <div className={`flex justify-between items-center mt-4 pt-4 border-t ${isDark ? 'border-gray-700' : 'border-gray-200'}`}>
+            <div>
+              <h4 className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                Import Conversations
+              </h4>
+              <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                BelloSai JSON export, ChatGPT or Claude <code>conversations.json</code>.
+              </p>
+            </div>
+            <label
+              className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm transition-colors cursor-pointer ${
+                importLoading ? 'opacity-50 pointer-events-none' : ''
+              } ${
+                isDark
+                  ? 'bg-gray-700 hover:bg-gray-600 text-white'
+                  : 'bg-gray-200 hover:bg-gray-300 text-gray-900'
+              }`}
+            >
+              <Upload className="w-4 h-4" />
+              {importLoading ? 'Importing...' : 'Choose file'}
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+            </label>
+          </div>
+
+          {importError && (
+            <p className="text-sm text-red-500 mt-3">{importError}</p>
+          )}
+
+          {importReport && (
+            <div className={`text-sm mt-3 ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              <p>
+                Imported {importReport.importedConversations} conversation(s) and {importReport.importedMessages} message(s) from {IMPORT_SOURCE_LABELS[importReport.source]}.
+              </p>
+              {importReport.skipped.length > 0 && (
+                <details className="mt-2">
+                  <summary className="cursor-pointer">{importReport.skipped.length} entr{importReport.skipped.length === 1 ? 'y' : 'ies'} skipped or incomplete</summary>
+                  <ul className={`mt-2 space-y-1 max-h-40 overflow-y-auto ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                    {importReport.skipped.map((issue, i) => (
+                      <li key={i}>
+                        #{issue.index + 1}{issue.title ? ` "${issue.title}"` : ''}: {issue.reason}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Usage Stats */}
       <div className={`p-4 rounded-lg ${isDark ? 'bg-gray-800' : 'bg-white'}`}>
         <div className="flex justify-between items-center mb-2">
@@ -606,6 +756,81 @@ export default function AccountMenu({ isDark, onClose, customization, onCustomiz
     </div>
   );
 
+  const renderActivityTab = () => (
+    <div className="space-y-6" style={{ fontFamily: customization.fontFamily }}>
+      <div className="flex justify-between items-center">
+        <h3 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+          Credit Activity
+        </h3>
+        <button
+          onClick={fetchActivity}
+          disabled={activityLoading || !user}
+          className={`px-3 py-2 rounded-lg text-sm transition-colors ${isDark ? 'bg-gray-700 hover:bg-gray-600 text-white' : 'bg-gray-200 hover:bg-gray-300 text-gray-900'} disabled:opacity-50`}
+        >
+          {activityLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {!user && (
+        <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+          Sign in to see your credit history.
+        </p>
+      )}
+
+      {activityError && (
+        <p className="text-sm text-red-500">{activityError}</p>
+      )}
+
+      {activityBalances && (
+        <div className="grid grid-cols-3 gap-3">
+          {(['light', 'medium', 'heavy'] as const).map((tier) => (
+            <div key={tier} className={`${isDark ? 'bg-gray-800' : 'bg-gray-50'} rounded-lg p-4`}>
+              <p className={`text-sm capitalize ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>{tier}</p>
+              <p className={`text-2xl font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>{activityBalances[tier]}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {user && !activityLoading && transactions.length === 0 && !activityError && (
+        <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+          No credit activity yet.
+        </p>
+      )}
+
+      {transactions.length > 0 && (
+        <div className={`rounded-lg border divide-y ${isDark ? 'border-gray-700 divide-gray-700' : 'border-gray-200 divide-gray-200'}`}>
+          {transactions.map((tx) => (
+            <div key={tx.id} className="flex items-start justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <p className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                  {TRANSACTION_KIND_LABELS[tx.kind]}
+                  <span className={`ml-2 text-xs capitalize ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {tx.tier}
+                    {tx.kind === 'fallback_debit' && tx.desired_tier && ` (wanted ${tx.desired_tier})`}
+                  </span>
+                </p>
+                <p className={`text-xs truncate ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+                  {[
+                    tx.model && (AVAILABLE_MODELS.find(m => m.code === tx.model)?.name || tx.model),
+                    tx.conversation_title || (tx.conversation_id && 'Deleted conversation'),
+                    tx.note,
+                  ].filter(Boolean).join(' · ')}
+                </p>
+                <p className={`text-xs ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                  {new Date(tx.created_at).toLocaleString()}
+                </p>
+              </div>
+              <span className={`text-sm font-semibold whitespace-nowrap ${tx.amount > 0 ? 'text-green-500' : isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+                {tx.amount > 0 ? `+${tx.amount}` : tx.amount}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   const renderGenericTab = (title: string) => (
     <div className="space-y-6" style={{ fontFamily: customization.fontFamily }}>
       <div className={`p-8 text-center rounded-lg ${isDark ? 'bg-gray-800' : 'bg-white'}`}>
@@ -623,6 +848,8 @@ export default function AccountMenu({ isDark, onClose, customization, onCustomiz
     switch (activeTab) {
       case 'Account':
         return renderAccountTab();
+      case 'Activity':
+        return renderActivityTab();
       case 'Customization':
         return renderCustomizationTab();
       case 'API Keys':
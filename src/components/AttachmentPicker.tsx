@@ -0,0 +1,204 @@
+/**
+ * AttachmentPicker Component
+ *
+ * Button in the input box that uploads images and documents for the next
+ * message, with a removable thumbnail or chip per file. Files are uploaded
+ * right away (images scaled down by `prepareFile`), so sending only has to
+ * reference their ids. Documents are also extracted and embedded before
+ * they show up, so a question sent next can already be answered from them.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { FileText, Loader2, Paperclip, X } from 'lucide-react';
+import { CustomizationSettings } from '../types/app';
+import {
+  attachmentService,
+  DOCUMENT_TYPES,
+  IMAGE_TYPES,
+  isDocumentAttachment,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  type MessageAttachment
+} from '../lib/attachments';
+import { documentService } from '../lib/documents';
+
+interface AttachmentPickerProps {
+  isDark: boolean;
+  customization: CustomizationSettings;
+  userId: string;
+  attachments: MessageAttachment[];
+  onChange: (attachments: MessageAttachment[]) => void;
+  onError: (message: string) => void;
+  disabled?: boolean;
+}
+
+const ACCEPTED_TYPES = [...IMAGE_TYPES, ...DOCUMENT_TYPES];
+
+// Browsers often report no type for Markdown files
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+
+function withFileType(file: File): File {
+  if (file.type || !MARKDOWN_EXTENSION.test(file.name)) return file;
+  return new File([file], file.name, { type: 'text/markdown', lastModified: file.lastModified });
+}
+
+export default function AttachmentPicker({
+  isDark,
+  customization,
+  userId,
+  attachments,
+  onChange,
+  onError,
+  disabled = false
+}: AttachmentPickerProps) {
+  const [uploadingCount, setUploadingCount] = useState(0);
+  // Local previews, so thumbnails show without a signed URL
+  const [previews, setPreviews] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentsRef = useRef(attachments);
+  attachmentsRef.current = attachments;
+
+  // Previews of images that were sent or removed are no longer needed
+  useEffect(() => {
+    const ids = new Set(attachments.map(a => a.id));
+    const stale = Object.keys(previews).filter(id => !ids.has(id));
+    if (stale.length === 0) return;
+    stale.forEach(id => URL.revokeObjectURL(previews[id]));
+    setPreviews(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => ids.has(id))));
+  }, [attachments, previews]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - attachments.length - uploadingCount;
+    const selected = Array.from(files).map(withFileType);
+    if (selected.length > room) {
+      onError(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`);
+    }
+
+    const accepted = selected.slice(0, Math.max(0, room)).filter(file => {
+      if (ACCEPTED_TYPES.includes(file.type)) return true;
+      onError(`${file.name} is not supported. Attach images (JPEG, PNG, GIF, WebP) or documents (PDF, Markdown, text, JSON).`);
+      return false;
+    });
+
+    setUploadingCount(count => count + accepted.length);
+    await Promise.all(accepted.map(async file => {
+      let uploadedId: string | null = null;
+      try {
+        const prepared = await attachmentService.prepareFile(file);
+        const row = await attachmentService.uploadAttachment({ file: prepared, userId });
+        uploadedId = row.id;
+        const attachment: MessageAttachment = {
+          id: row.id,
+          filename: row.filename,
+          file_type: row.file_type,
+          storage_path: row.storage_path
+        };
+
+        if (isDocumentAttachment(attachment)) {
+          const extraction = await documentService.ingest(attachment.id);
+          console.log(`📄 Document ready: ${attachment.filename} (${extraction.chunks ?? 0} chunks, ${extraction.method})`);
+          if (extraction.truncated) {
+            onError(`${attachment.filename} is very long; only its first part can be searched.`);
+          }
+        } else {
+          setPreviews(prev => ({ ...prev, [attachment.id]: URL.createObjectURL(prepared) }));
+          console.log('🖼️ Image attached:', attachment.filename);
+        }
+
+        // Uploads finish independently; each one extends the latest list
+        attachmentsRef.current = [...attachmentsRef.current, attachment];
+        onChange(attachmentsRef.current);
+      } catch (err) {
+        console.error('❌ Failed to attach file:', err);
+        onError(err instanceof Error ? `Could not attach ${file.name}: ${err.message}` : `Could not attach ${file.name}.`);
+        // A document that cannot be read is of no use in the conversation
+        if (uploadedId) {
+          attachmentService.deleteAttachment(uploadedId).catch(deleteError => {
+            console.warn('⚠️ Could not delete failed upload:', deleteError);
+          });
+        }
+      } finally {
+        setUploadingCount(count => count - 1);
+      }
+    }));
+  };
+
+  // Not sent yet, so the upload can go as well
+  const removeAttachment = (attachment: MessageAttachment) => {
+    onChange(attachments.filter(a => a.id !== attachment.id));
+    attachmentService.deleteAttachment(attachment.id).catch(err => {
+      console.warn('⚠️ Could not delete removed attachment:', err);
+    });
+  };
+
+  const isFull = attachments.length + uploadingCount >= MAX_ATTACHMENTS_PER_MESSAGE;
+
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled || isFull}
+        className={`p-1 disabled:opacity-40 ${isDark ? 'text-gray-300 hover:text-white' : 'hover:text-purple-700'}`}
+        style={{ color: isDark ? undefined : customization.primaryColor }}
+        title={isFull ? `Up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message` : 'Attach images or documents'}
+      >
+        <Paperclip className="w-4 h-4" />
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={[...ACCEPTED_TYPES, '.md', '.markdown'].join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+
+      {attachments.map(attachment => (
+        <div key={attachment.id} className="relative group">
+          {isDocumentAttachment(attachment) ? (
+            <div
+              className={`h-8 max-w-[9rem] px-2 rounded-md border flex items-center gap-1 text-xs ${
+                isDark ? 'border-gray-600 bg-gray-600 text-gray-200' : 'border-gray-200 bg-gray-100 text-gray-700'
+              }`}
+              title={attachment.filename}
+            >
+              <FileText className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="truncate">{attachment.filename}</span>
+            </div>
+          ) : previews[attachment.id] ? (
+            <img
+              src={previews[attachment.id]}
+              alt={attachment.filename}
+              className={`w-8 h-8 rounded-md object-cover border ${isDark ? 'border-gray-600' : 'border-gray-200'}`}
+            />
+          ) : (
+            <div
+              className={`w-8 h-8 rounded-md border flex items-center justify-center ${isDark ? 'border-gray-600 bg-gray-600' : 'border-gray-200 bg-gray-100'}`}
+              title={attachment.filename}
+            >
+              <Paperclip className="w-3.5 h-3.5 opacity-60" />
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => removeAttachment(attachment)}
+            className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-gray-900 text-white flex items-center justify-center opacity-0 group-hover:opacity-100"
+            title={`Remove ${attachment.filename}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+
+      {uploadingCount > 0 && (
+        <span title="Uploading; documents are read before they can be sent">
+          <Loader2 className={`w-4 h-4 animate-spin ${isDark ? 'text-gray-400' : 'text-gray-500'}`} />
+        </span>
+      )}
+    </div>
+  );
+}
@@ -2,13 +2,15 @@
  * AttachmentUpload Component
  * 
  * Handles file uploads with drag & drop functionality
- * Supports images, PDFs, and text files
+ * Supports images, PDFs, text and audio files
  * Shows previews and upload progress
+ * Audio is transcribed after upload, so its text is searchable
  */
 
 import React, { useState, useRef, useCallback } from 'react';
-import { Upload, X, File, Image, FileText, AlertCircle, Check } from 'lucide-react';
-import { attachmentService } from '../lib/attachments';
+import { Upload, X, File, Image, FileText, FileAudio, AlertCircle, Check } from 'lucide-react';
+import { attachmentService, AUDIO_TYPES, isAudioAttachment } from '../lib/attachments';
+import { transcriptionService } from '../lib/transcription';
 import { useAuth } from '../contexts/AuthContext';
 
 interface AttachmentUploadProps {
@@ -47,12 +49,14 @@ export default function AttachmentUpload({
     'application/pdf',
     'text/plain',
     'text/markdown',
-    'application/json'
+    'application/json',
+    ...AUDIO_TYPES
   ];
 
   const getFileIcon = (fileType: string) => {
     if (fileType.startsWith('image/')) return Image;
     if (fileType === 'application/pdf') return FileText;
+    if (fileType.startsWith('audio/')) return FileAudio;
     return File;
   };
 
@@ -107,6 +111,16 @@ export default function AttachmentUpload({
 
       clearInterval(progressInterval);
 
+      // The upload itself succeeded; a failed transcript only costs search
+      if (isAudioAttachment(attachment)) {
+        try {
+          await transcriptionService.transcribeAttachment(attachment.id);
+        } catch (error) {
+          console.warn('⚠️ Could not transcribe audio attachment:', error);
+          onError(`${file.name}: ${error instanceof Error ? error.message : 'transcription failed'}`);
+        }
+      }
+
       setUploadingFiles(prev => prev.map(uf => 
         uf.file === file 
           ? { ...uf, status: 'success', progress: 100, attachment }
@@ -228,7 +242,7 @@ export default function AttachmentUpload({
         </p>
         
         <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-          Supported: Images, PDF, Text (max 10MB per file)
+          Supported: Images, PDF, Text, Audio (max 10MB per file)
         </p>
       </div>
 
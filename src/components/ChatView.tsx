@@ -11,7 +11,16 @@
  * - Legacy message format conversion and preprocessing
  * - Model selection dropdown with capability indicators
  * - Message regeneration and copy functionality
+ * - Edit and resend; regenerated and edited messages become branches with a switcher
+ * - Fork from any message into a new conversation
+ * - Thumbnails of images and chips of documents attached to user messages
+ * - Sources footer linking cited document excerpts to file and page
+ * - Voice input (microphone, transcribed by Voxtral) for signed-in users
+ * - Scrolls to and highlights a message opened from search results
+ * - Notice when older messages were summarized or left out to fit the model's context
+ * - Stop button to cancel a generation, keeping the partial answer
  * - Chat sharing capabilities with public links
+ * - Conversation export to Markdown, JSON and HTML
  * - Anonymous usage tracking and limits display
  * - Responsive design for mobile and desktop
  * - Theme support with customizable styling
@@ -36,15 +45,25 @@
  */
 
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
-import { ChevronDown, ArrowUp, Copy, RotateCcw } from 'lucide-react';
+import { ChevronDown, ChevronLeft, ChevronRight, ArrowUp, Copy, RotateCcw, Square, Pencil, GitFork, Layers } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
 import 'highlight.js/styles/github-dark.css';
-import { Message, CustomizationSettings, ModelInfo } from '../types/app';
+import { Message, CustomizationSettings, GenerationParameters, ModelInfo } from '../types/app';
 import ModelSelector from './ModelSelector';
 import ChatSharing from './ChatSharing';
+import ExportMenu from './ExportMenu';
+import type { ExportFormat } from '../lib/conversation-export';
+import type { ContextCompaction } from '../lib/context-window';
 import AnonymousUsageIndicator from './AnonymousUsageIndicator';
+import MessageAttachments from './MessageAttachments';
+import MessageSources from './MessageSources';
+import MessageToolSteps from './MessageToolSteps';
+import MessageReasoning from './MessageReasoning';
+import VoiceInputButton from './VoiceInputButton';
+import { isWebSearchEnabled, setWebSearchEnabled } from '../lib/web-search';
+import { isReasoningModel, supportsWebSearch } from '../models/registry';
 
 interface ChatViewProps {
   isDark: boolean;
@@ -56,10 +75,22 @@ interface ChatViewProps {
   hideInput?: boolean;
   inputOnly?: boolean;
   customization: CustomizationSettings;
-  onRegenerateResponse?: () => void;
+  onRegenerateResponse?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onSwitchBranch?: (messageId: string, direction: 1 | -1) => void;
+  onForkFromMessage?: (messageId: string) => void;
+  onStopGeneration?: () => void;
   isGenerating?: boolean;
   conversationId?: string;
   conversationTitle?: string;
+  onExportConversation?: (format: ExportFormat) => Promise<void>;
+  /** Message to scroll to once it is rendered, e.g. a search hit */
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
+  /** How the last request fit the history into the model's context window */
+  contextCompaction?: ContextCompaction | null;
+  /** Conversation settings from the parameters panel, e.g. whether hybrid models think */
+  generationParameters?: GenerationParameters;
   isLoggedIn?: boolean;
   onLoginClick?: () => void;
   error?: string | null;
@@ -418,6 +449,44 @@ const ThemedModelSelector: React.FC<{
   );
 };
 
+// "< 2/3 >" control for messages that have sibling branches
+const BranchSwitcher: React.FC<{
+  message: Message;
+  isDark: boolean;
+  disabled?: boolean;
+  onSwitchBranch?: (messageId: string, direction: 1 | -1) => void;
+}> = ({ message, isDark, disabled, onSwitchBranch }) => {
+  const count = message.siblingCount ?? 1;
+  const index = message.siblingIndex ?? 0;
+  if (!onSwitchBranch || count < 2) return null;
+
+  const buttonClass = `p-1 rounded-lg transition-colors disabled:opacity-30 ${
+    isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'
+  }`;
+
+  return (
+    <div className={`flex items-center text-xs tabular-nums ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>
+      <button
+        className={buttonClass}
+        onClick={() => onSwitchBranch(message.id, -1)}
+        disabled={disabled || index === 0}
+        title="Previous branch"
+      >
+        <ChevronLeft className="w-3.5 h-3.5" />
+      </button>
+      <span>{index + 1}/{count}</span>
+      <button
+        className={buttonClass}
+        onClick={() => onSwitchBranch(message.id, 1)}
+        disabled={disabled || index === count - 1}
+        title="Next branch"
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
 export default function ChatView({ 
   isDark, 
   messages, 
@@ -429,9 +498,18 @@ export default function ChatView({
   inputOnly = false,
   customization,
   onRegenerateResponse,
+  onEditMessage,
+  onSwitchBranch,
+  onForkFromMessage,
+  onStopGeneration,
   isGenerating = false,
   conversationId,
   conversationTitle = 'Untitled Conversation',
+  onExportConversation,
+  focusMessageId,
+  onFocusHandled,
+  contextCompaction,
+  generationParameters,
   isLoggedIn = false,
   onLoginClick,
   error,
@@ -439,6 +517,9 @@ export default function ChatView({
 }: ChatViewProps) {
   const [inputValue, setInputValue] = useState('');
   const [showChatSharing, setShowChatSharing] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState('');
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -473,36 +554,158 @@ export default function ChatView({
     textarea.style.height = newHeight + 'px';
   }, []);
 
+  // Remembered across sessions; only search-capable models use it
+  const [webSearchEnabled, setWebSearchState] = useState(isWebSearchEnabled);
+  const toggleWebSearch = useCallback(() => {
+    setWebSearchEnabled(!webSearchEnabled);
+    setWebSearchState(!webSearchEnabled);
+  }, [webSearchEnabled]);
+  // The chat function only searches for signed-in users
+  const canSearchWeb = isLoggedIn && supportsWebSearch(selectedModel);
+
+  // Voice input is appended to whatever was already typed
+  const handleTranscript = useCallback((text: string) => {
+    setInputValue(prev => (prev.trim() ? `${prev.trimEnd()} ${text}` : text));
+    requestAnimationFrame(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.style.height = 'auto';
+      textarea.style.height = Math.min(textarea.scrollHeight, 200) + 'px';
+      textarea.focus();
+    });
+  }, []);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
+    if (focusMessageId) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, focusMessageId]);
+
+  // Scroll to the focused message as soon as its conversation has loaded
+  useEffect(() => {
+    if (!focusMessageId || !messages.some(msg => msg.id === focusMessageId)) return;
+
+    const element = scrollContainerRef.current?.querySelector(`[data-message-id="${focusMessageId}"]`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(focusMessageId);
+    onFocusHandled?.();
+  }, [messages, focusMessageId, onFocusHandled]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
   const renderMessage = useCallback((message: Message, index: number) => {
     const isLastAiMessage = message.type === 'ai' && index === messages.length - 1;
-    const isReasoningModel = message.model === 'DeepSeek-R1' || message.model?.includes('gemini-1.5-pro');
-    const shouldShowReasoning = isLastAiMessage && isGenerating && isReasoningModel && !message.content;
-    const shouldShowRegularLoading = isLastAiMessage && isGenerating && !isReasoningModel && !message.content;
+    const highlightStyle: React.CSSProperties | undefined = message.id === highlightedMessageId
+      ? { boxShadow: `0 0 0 2px ${customization.primaryColor}`, borderRadius: '1rem', transition: 'box-shadow 0.3s' }
+      : undefined;
+    const thinks = !!message.model && isReasoningModel(message.model, generationParameters);
+    const shouldShowReasoning = isLastAiMessage && isGenerating && thinks && !message.content && !message.reasoning;
+    const shouldShowRegularLoading = isLastAiMessage && isGenerating && !thinks && !message.content && !message.reasoning;
     
     if (message.type === 'user') {
+      const isEditing = editingMessageId === message.id;
+      const trimmedEdit = editValue.trim();
+
       return (
-        <div key={message.id} className="flex justify-end mb-6">
-          <div 
-            className="max-w-[82%] px-4 py-3 rounded-2xl text-white break-words neo-pill"
-            style={{ 
-              backgroundColor: customization.primaryColor,
-              fontFamily: customization.fontFamily
-            }}
-          >
-            {message.content}
-          </div>
+        <div key={message.id} data-message-id={message.id} className="group flex flex-col items-end mb-6" style={highlightStyle}>
+          {isEditing ? (
+            <div className="w-full max-w-[82%]">
+              <textarea
+                value={editValue}
+                onChange={(e) => setEditValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setEditingMessageId(null);
+                }}
+                autoFocus
+                rows={3}
+                className={`w-full px-4 py-3 rounded-2xl border ios-input resize-y focus:outline-none ${
+                  isDark
+                    ? 'bg-gray-800 border-gray-600 text-white'
+                    : 'bg-white border-gray-200 text-gray-900'
+                }`}
+                style={{ fontFamily: customization.fontFamily }}
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button
+                  onClick={() => setEditingMessageId(null)}
+                  className={`text-sm px-3 py-1.5 rounded-xl ${isDark ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-200'}`}
+                  style={{ fontFamily: customization.fontFamily }}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => {
+                    onEditMessage?.(message.id, trimmedEdit);
+                    setEditingMessageId(null);
+                  }}
+                  disabled={!trimmedEdit || trimmedEdit === message.content || isGenerating}
+                  className="text-sm text-white px-3 py-1.5 rounded-xl ios-pressable hover:opacity-90 disabled:opacity-50"
+                  style={{ backgroundColor: customization.primaryColor, fontFamily: customization.fontFamily }}
+                >
+                  Send
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {message.attachments && message.attachments.length > 0 && (
+                <MessageAttachments attachments={message.attachments} isDark={isDark} />
+              )}
+              {message.content && (
+                <div 
+                  className="max-w-[82%] px-4 py-3 rounded-2xl text-white break-words neo-pill"
+                  style={{ 
+                    backgroundColor: customization.primaryColor,
+                    fontFamily: customization.fontFamily
+                  }}
+                >
+                  {message.content}
+                </div>
+              )}
+            </>
+          )}
+
+          {!isEditing && (
+            <div className="flex items-center gap-1 mt-1 px-1">
+              <BranchSwitcher message={message} isDark={isDark} disabled={isGenerating} onSwitchBranch={onSwitchBranch} />
+              {onEditMessage && !isGenerating && (
+                <button
+                  className={`p-1.5 rounded-lg transition-colors opacity-0 group-hover:opacity-100 ${
+                    isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'
+                  }`}
+                  onClick={() => {
+                    setEditingMessageId(message.id);
+                    setEditValue(message.content);
+                  }}
+                  title="Edit and resend"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {onForkFromMessage && (
+                <button
+                  className={`p-1.5 rounded-lg transition-colors opacity-0 group-hover:opacity-100 ${
+                    isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'
+                  }`}
+                  onClick={() => onForkFromMessage(message.id)}
+                  title="Fork from here into a new conversation"
+                >
+                  <GitFork className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+          )}
         </div>
       );
     } else {
       return (
-        <div key={message.id} className="flex justify-start mb-6">
+        <div key={message.id} data-message-id={message.id} className="flex justify-start mb-6" style={highlightStyle}>
           <div className={`max-w-[88%] w-full neo-surface p-4 ${isDark ? 'card-surface-dark' : 'card-surface-light'}`}>
-            {/* Show reasoning indicator for R1 and Gemini 2.5 Pro when they haven't started generating content */}
+            {/* Show reasoning indicator for thinking models until their thought process starts streaming */}
             {shouldShowReasoning && (
               <div className="mb-3 flex items-center space-x-3">
                 <div className="flex items-center space-x-2">
@@ -553,6 +756,26 @@ export default function ChatView({
               </div>
             )}
             
+            {/* Thought process of a thinking model */}
+            {message.reasoning && (
+              <MessageReasoning
+                content={message.reasoning}
+                durationMs={message.reasoningDurationMs}
+                isGenerating={isLastAiMessage && isGenerating}
+                isDark={isDark}
+              />
+            )}
+
+            {/* Tools the model called on the way to its answer */}
+            {message.toolSteps && message.toolSteps.length > 0 && (
+              <MessageToolSteps steps={message.toolSteps} isDark={isDark} />
+            )}
+
+            {/* Image generated for an /imagine prompt */}
+            {message.attachments && message.attachments.length > 0 && (
+              <MessageAttachments attachments={message.attachments} isDark={isDark} generated />
+            )}
+
             {/* Only show content if message has content */}
             {message.content && (
               <div className="mb-3">
@@ -563,11 +786,31 @@ export default function ChatView({
                 />
               </div>
             )}
+
+            {/* Documents and web results the answer was given, once it is complete */}
+            {message.citations && message.citations.length > 0 && !(isLastAiMessage && isGenerating) && (
+              <MessageSources citations={message.citations} content={message.content} isDark={isDark} />
+            )}
+
+            {/* Upsell when the answer was rejected for lack of credits */}
+            {message.errorCode === 'insufficient_credits' && (
+              <div className="mb-3 px-2">
+                <button
+                  onClick={() => { try { window.location.assign('/pricing'); } catch { window.location.href = '/pricing'; } }}
+                  className="text-sm text-white px-4 py-2 rounded-xl ios-pressable hover:opacity-90"
+                  style={{ backgroundColor: customization.primaryColor, fontFamily: customization.fontFamily }}
+                >
+                  Buy credits
+                </button>
+              </div>
+            )}
             
             {/* Only show model info and actions when response is complete (not generating) */}
             {message.content && !(isLastAiMessage && isGenerating) && (
               <div className="flex items-center justify-start px-2">
                 <div className="flex items-center space-x-3">
+                  <BranchSwitcher message={message} isDark={isDark} disabled={isGenerating} onSwitchBranch={onSwitchBranch} />
+
                   {message.model && (
                     <span 
                       className={`text-xs px-3 py-1.5 rounded-full text-white font-medium`}
@@ -579,6 +822,12 @@ export default function ChatView({
                       {availableModels.find(m => m.code === message.model)?.name || message.model}
                     </span>
                   )}
+
+                  {message.stopped && (
+                    <span className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                      Stopped
+                    </span>
+                  )}
                   
                   {/* Action buttons always next to model name */}
                   <div className="flex items-center space-x-1">
@@ -592,16 +841,28 @@ export default function ChatView({
                       <Copy className="w-3.5 h-3.5" />
                     </button>
                     
-                    {onRegenerateResponse && isLastAiMessage && (
+                    {onRegenerateResponse && (
                       <button 
-                        className={`p-1.5 rounded-lg transition-colors ${
+                        className={`p-1.5 rounded-lg transition-colors disabled:opacity-50 ${
                           isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'
                         }`}
-                        onClick={onRegenerateResponse}
+                        onClick={() => onRegenerateResponse(message.id)}
                         disabled={isGenerating}
-                        title="Regenerate response"
+                        title="Regenerate response (keeps this one as a branch)"
                       >
-                        <RotateCcw className={`w-3.5 h-3.5 ${isGenerating ? 'animate-spin' : ''}`} />
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+
+                    {onForkFromMessage && (
+                      <button 
+                        className={`p-1.5 rounded-lg transition-colors ${
+                          isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'
+                        }`}
+                        onClick={() => onForkFromMessage(message.id)}
+                        title="Fork from here into a new conversation"
+                      >
+                        <GitFork className="w-3.5 h-3.5" />
                       </button>
                     )}
                   </div>
@@ -612,7 +873,7 @@ export default function ChatView({
         </div>
       );
     }
-  }, [customization, isDark, isGenerating, onRegenerateResponse, availableModels]);
+  }, [customization, isDark, isGenerating, onRegenerateResponse, onEditMessage, onSwitchBranch, onForkFromMessage, editingMessageId, editValue, highlightedMessageId, messages.length, availableModels, generationParameters]);
 
   // Input-only mode
   if (inputOnly) {
@@ -643,14 +904,30 @@ export default function ChatView({
               />
               
               <div className="flex items-center justify-between px-4 pb-3">
-                <ThemedModelSelector
-                  selectedModel={selectedModel}
-                  onModelChange={onModelChange}
-                  availableModels={availableModels}
-                  isDark={isDark}
-                  customization={customization}
-                />
+                <div className="flex items-center gap-3">
+                  <ThemedModelSelector
+                    selectedModel={selectedModel}
+                    onModelChange={onModelChange}
+                    availableModels={availableModels}
+                    isDark={isDark}
+                    customization={customization}
+                  />
+                  {isLoggedIn && (
+                    <VoiceInputButton isDark={isDark} customization={customization} onTranscript={handleTranscript} />
+                  )}
+                </div>
                 
+                {isGenerating && onStopGeneration ? (
+                  <button
+                    type="button"
+                    onClick={onStopGeneration}
+                    className="text-white p-2.5 rounded-xl ios-pressable hover:opacity-90"
+                    style={{ backgroundColor: customization.primaryColor }}
+                    title="Stop generating"
+                  >
+                    <Square className="w-4 h-4" fill="currentColor" />
+                  </button>
+                ) : (
                 <button 
                   type="submit"
                   disabled={!inputValue.trim() || isGenerating}
@@ -659,6 +936,7 @@ export default function ChatView({
                 >
                   <ArrowUp className="w-4 h-4" />
                 </button>
+                )}
               </div>
             </div>
           </form>
@@ -682,6 +960,30 @@ export default function ChatView({
         className="flex-1 overflow-y-auto px-4 py-6"
       >
         <div className="max-w-6xl mx-auto">
+          {onExportConversation && messages.length > 0 && (
+            <div className="flex justify-end mb-2">
+              <ExportMenu
+                isDark={isDark}
+                onExport={onExportConversation}
+                className={`p-1.5 rounded-lg transition-colors ${
+                  isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'
+                }`}
+              />
+            </div>
+          )}
+          {contextCompaction && contextCompaction.omittedCount > 0 && (
+            <div
+              className={`flex items-center gap-2 mb-4 px-3 py-2 rounded-lg text-xs ${
+                isDark ? 'bg-gray-800 text-gray-400' : 'bg-gray-100 text-gray-600'
+              }`}
+              title="The model only sees a limited amount of history"
+            >
+              <Layers className="w-3.5 h-3.5 flex-shrink-0" />
+              {contextCompaction.mode === 'summarized'
+                ? `The ${contextCompaction.omittedCount} oldest messages were summarized to fit the model's context window.`
+                : `The ${contextCompaction.omittedCount} oldest messages were left out to fit the model's context window.`}
+            </div>
+          )}
           {messages.map((message, index) => renderMessage(message, index))}
           <div ref={messagesEndRef} />
         </div>
@@ -715,15 +1017,31 @@ export default function ChatView({
                 />
                 
                 <div className="flex items-center justify-between px-4 pb-3">
-                  <ThemedModelSelector
-                    selectedModel={selectedModel}
-                    onModelChange={onModelChange}
-                    availableModels={availableModels}
-                    isDark={isDark}
-                    customization={customization}
-                  />
+                  <div className="flex items-center gap-3">
+                    <ThemedModelSelector
+                      selectedModel={selectedModel}
+                      onModelChange={onModelChange}
+                      availableModels={availableModels}
+                      isDark={isDark}
+                      customization={customization}
+                    />
+                    {isLoggedIn && (
+                      <VoiceInputButton isDark={isDark} customization={customization} onTranscript={handleTranscript} />
+                    )}
+                  </div>
                   
                   <div className="flex items-center gap-2">
+                  {isGenerating && onStopGeneration ? (
+                    <button
+                      type="button"
+                      onClick={onStopGeneration}
+                      className="text-white p-2.5 rounded-xl ios-pressable hover:opacity-90"
+                      style={{ backgroundColor: customization.primaryColor }}
+                      title="Stop generating"
+                    >
+                      <Square className="w-4 h-4" fill="currentColor" />
+                    </button>
+                  ) : (
                   <button 
                     type="submit"
                     disabled={!inputValue.trim() || isGenerating}
@@ -732,16 +1050,25 @@ export default function ChatView({
                   >
                     <ArrowUp className="w-4 h-4" />
                   </button>
+                  )}
                   <button
                     type="button"
-                    onClick={() => {
-                      try {
-                        const cur = localStorage.getItem('bellosai-web-search') === 'true';
-                        localStorage.setItem('bellosai-web-search', (!cur).toString());
-                      } catch {}
-                    }}
-                    className={`p-2.5 rounded-xl border ${isDark ? 'border-gray-600 text-gray-200' : 'border-gray-300 text-gray-700'} hover:bg-gray-100`}
-                    title="Toggle Web Search"
+                    onClick={toggleWebSearch}
+                    disabled={!canSearchWeb}
+                    className={`p-2.5 rounded-xl border disabled:opacity-40 ${
+                      webSearchEnabled && canSearchWeb
+                        ? 'text-white border-transparent'
+                        : isDark ? 'border-gray-600 text-gray-200 hover:bg-gray-700' : 'border-gray-300 text-gray-700 hover:bg-gray-100'
+                    }`}
+                    style={webSearchEnabled && canSearchWeb ? { backgroundColor: customization.primaryColor } : undefined}
+                    title={
+                      !supportsWebSearch(selectedModel)
+                        ? 'Web search is not available for this model'
+                        : !isLoggedIn
+                          ? 'Sign in to search the web'
+                          : webSearchEnabled ? 'Web search on: answers cite web results' : 'Web search off'
+                    }
+                    aria-pressed={webSearchEnabled}
                   >
                     <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"></circle><path d="m21 21-4.3-4.3"></path></svg>
                   </button>
@@ -0,0 +1,85 @@
+/**
+ * ExportMenu Component
+ *
+ * Download button with a small format picker (Markdown, JSON, HTML).
+ * Used by the chat view header and the sidebar conversation list.
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import { Download } from 'lucide-react';
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from '../lib/conversation-export';
+
+interface ExportMenuProps {
+  isDark: boolean;
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  className?: string;
+  iconClassName?: string;
+  /** Edge of the button the picker lines up with */
+  align?: 'left' | 'right';
+}
+
+export default function ExportMenu({ isDark, onExport, className = '', iconClassName = 'w-4 h-4', align = 'right' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      await onExport(format);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsOpen(open => !open);
+        }}
+        disabled={isExporting}
+        className={className}
+        title="Export conversation"
+      >
+        <Download className={`${iconClassName} ${isExporting ? 'animate-pulse' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div
+          className={`absolute z-50 mt-1 w-40 rounded-lg border shadow-lg py-1 ${
+            align === 'right' ? 'right-0' : 'left-0'
+          } ${isDark ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}
+        >
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleExport(format);
+              }}
+              className={`w-full text-left px-3 py-2 text-sm transition-colors ${
+                isDark ? 'text-gray-200 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+            >
+              {EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
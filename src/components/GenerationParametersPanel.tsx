@@ -0,0 +1,246 @@
+/**
+ * GenerationParametersPanel Component
+ *
+ * Button next to the model selector that opens the generation parameters of
+ * the current conversation: temperature, top P, max tokens and, for models
+ * that support it, thinking or reasoning effort. Ranges follow the selected
+ * model's limits (`getModelParameterLimits`); unset values use the provider
+ * defaults.
+ */
+
+import { useCallback, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { CustomizationSettings, GenerationParameters, ReasoningEffort } from '../types/app';
+import { getModelParameterLimits } from '../models/registry';
+
+interface GenerationParametersPanelProps {
+  isDark: boolean;
+  customization: CustomizationSettings;
+  modelCode: string;
+  parameters: GenerationParameters;
+  onChange: (parameters: GenerationParameters) => void;
+}
+
+const PANEL_WIDTH = 320;
+
+const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high'];
+
+/** Copy without `key`, so the provider default applies again */
+function without(parameters: GenerationParameters, key: keyof GenerationParameters): GenerationParameters {
+  const next = { ...parameters };
+  delete next[key];
+  return next;
+}
+
+export default function GenerationParametersPanel({
+  isDark,
+  customization,
+  modelCode,
+  parameters,
+  onChange
+}: GenerationParametersPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [panelPosition, setPanelPosition] = useState({ bottom: 0, left: 0 });
+  const [maxTokensDraft, setMaxTokensDraft] = useState('');
+  const triggerRef = useRef<HTMLButtonElement | null>(null);
+
+  const limits = getModelParameterLimits(modelCode);
+  const customized = Object.keys(parameters).length > 0;
+
+  const updatePanelPosition = useCallback(() => {
+    if (!triggerRef.current) return;
+    const rect = triggerRef.current.getBoundingClientRect();
+    setPanelPosition({
+      bottom: window.innerHeight - rect.top + 8,
+      left: Math.min(Math.max(16, rect.left), window.innerWidth - PANEL_WIDTH - 16)
+    });
+  }, []);
+
+  useLayoutEffect(() => {
+    if (!isOpen) return;
+    updatePanelPosition();
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('resize', updatePanelPosition);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('resize', updatePanelPosition);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isOpen, updatePanelPosition]);
+
+  const open = () => {
+    setMaxTokensDraft(parameters.maxTokens !== undefined ? String(parameters.maxTokens) : '');
+    setIsOpen(true);
+  };
+
+  const maxTokensValue = Number(maxTokensDraft);
+  const maxTokensError = maxTokensDraft.trim() !== '' &&
+    (!Number.isInteger(maxTokensValue) || maxTokensValue < 1 || maxTokensValue > limits.maxOutputTokens)
+    ? `Enter a whole number between 1 and ${limits.maxOutputTokens.toLocaleString()}`
+    : null;
+
+  const commitMaxTokens = () => {
+    if (maxTokensError) return;
+    onChange(maxTokensDraft.trim() === '' ? without(parameters, 'maxTokens') : { ...parameters, maxTokens: maxTokensValue });
+  };
+
+  const labelClass = `flex items-center justify-between text-xs font-medium mb-1 ${isDark ? 'text-gray-300' : 'text-gray-700'}`;
+  const hintClass = `text-[11px] ${isDark ? 'text-gray-500' : 'text-gray-400'}`;
+  const resetClass = `text-[11px] ${isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}`;
+
+  const renderSlider = (
+    key: 'temperature' | 'topP',
+    label: string,
+    min: number,
+    max: number,
+    fallback: number
+  ) => {
+    const value = parameters[key];
+    return (
+      <div>
+        <div className={labelClass}>
+          <span>{label}: {value !== undefined ? value : 'default'}</span>
+          {value !== undefined && (
+            <button type="button" onClick={() => onChange(without(parameters, key))} className={resetClass}>
+              Reset
+            </button>
+          )}
+        </div>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={0.05}
+          value={Math.min(value ?? fallback, max)}
+          onChange={(e) => onChange({ ...parameters, [key]: Number(e.target.value) })}
+          disabled={!limits.supportsSampling}
+          className="w-full disabled:opacity-40"
+          style={{ accentColor: customization.primaryColor }}
+        />
+      </div>
+    );
+  };
+
+  const panel = isOpen ? createPortal(
+    <div className="fixed inset-0 z-[1000]" onClick={() => { commitMaxTokens(); setIsOpen(false); }}>
+      <div
+        className={`absolute rounded-xl border shadow-lg p-4 space-y-4 ${
+          isDark ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'
+        }`}
+        style={{ ...panelPosition, width: PANEL_WIDTH, fontFamily: customization.fontFamily }}
+        onClick={event => event.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <span className={`text-sm font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>Generation parameters</span>
+          {customized && (
+            <button
+              type="button"
+              onClick={() => {
+                setMaxTokensDraft('');
+                onChange({});
+              }}
+              className={`flex items-center gap-1 ${resetClass}`}
+            >
+              <RotateCcw className="w-3 h-3" />
+              Reset all
+            </button>
+          )}
+        </div>
+
+        {renderSlider('temperature', 'Temperature', 0, limits.maxTemperature, 0.7)}
+        {renderSlider('topP', 'Top P', 0.05, 1, 1)}
+        {!limits.supportsSampling && (
+          <p className={hintClass}>This model ignores temperature and top P.</p>
+        )}
+
+        <div>
+          <label className={labelClass}>
+            <span>Max tokens</span>
+            <span className={hintClass}>up to {limits.maxOutputTokens.toLocaleString()}</span>
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={limits.maxOutputTokens}
+            value={maxTokensDraft}
+            placeholder="Default"
+            onChange={(e) => setMaxTokensDraft(e.target.value)}
+            onBlur={commitMaxTokens}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitMaxTokens();
+            }}
+            className={`w-full px-3 py-1.5 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+              isDark ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+            }`}
+          />
+          {maxTokensError && <p className="text-[11px] text-red-500 mt-1">{maxTokensError}</p>}
+        </div>
+
+        {limits.reasoningControl === 'toggle' && (
+          <label className={`flex items-center justify-between text-xs font-medium ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+            <span>Thinking mode</span>
+            <input
+              type="checkbox"
+              checked={parameters.thinking ?? false}
+              onChange={(e) => onChange({ ...parameters, thinking: e.target.checked })}
+              style={{ accentColor: customization.primaryColor }}
+            />
+          </label>
+        )}
+
+        {limits.reasoningControl === 'effort' && (
+          <div>
+            <div className={labelClass}>Reasoning effort</div>
+            <div className="flex gap-1">
+              {REASONING_EFFORTS.map(effort => {
+                const selected = (parameters.reasoningEffort ?? 'medium') === effort;
+                return (
+                  <button
+                    key={effort}
+                    type="button"
+                    onClick={() => onChange({ ...parameters, reasoningEffort: effort })}
+                    className={`flex-1 px-2 py-1 rounded-lg text-xs capitalize border ${
+                      selected
+                        ? 'text-white border-transparent'
+                        : isDark ? 'text-gray-300 border-gray-600 hover:bg-gray-700' : 'text-gray-700 border-gray-200 hover:bg-gray-50'
+                    }`}
+                    style={selected ? { backgroundColor: customization.primaryColor } : undefined}
+                  >
+                    {effort}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  ) : null;
+
+  return (
+    <>
+      <button
+        ref={triggerRef}
+        type="button"
+        onClick={() => (isOpen ? setIsOpen(false) : open())}
+        className={`relative p-1 ${isDark ? 'text-gray-300 hover:text-white' : 'hover:text-purple-700'}`}
+        style={{ color: isDark ? undefined : customization.primaryColor }}
+        title="Generation parameters"
+      >
+        <SlidersHorizontal className="w-4 h-4" />
+        {customized && (
+          <span
+            className="absolute -top-0.5 -right-0.5 w-1.5 h-1.5 rounded-full"
+            style={{ backgroundColor: customization.primaryColor }}
+          />
+        )}
+      </button>
+      {panel}
+    </>
+  );
+}
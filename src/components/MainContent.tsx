@@ -14,6 +14,7 @@
  * - Sample questions that can be toggled on/off
  * - Dual rendering modes (full content or input-only)
  * - Auto-resizing textarea for message input
+ * - Voice input (microphone, transcribed by Voxtral) for signed-in users
  * - Model selection dropdown
  * - Dynamic scaling based on container size
  */
@@ -25,6 +26,7 @@ import ModelSelector from './ModelSelector';
 import { CustomizationSettings } from '../types/app';
 import type { ModelInfo } from '../types/app';
 import AnonymousUsageIndicator from './AnonymousUsageIndicator';
+import VoiceInputButton from './VoiceInputButton';
 import { useTheme } from '../contexts/ThemeContext';
 
 interface MainContentProps {
@@ -165,6 +167,19 @@ export default function MainContent({
     }
   };
 
+  /**
+   * Append voice input to whatever was already typed
+   */
+  const handleTranscript = (text: string) => {
+    setInputValue(prev => (prev.trim() ? `${prev.trimEnd()} ${text}` : text));
+    requestAnimationFrame(() => {
+      if (!textareaRef.current) return;
+      textareaRef.current.style.height = 'auto';
+      textareaRef.current.style.height = `${textareaRef.current.scrollHeight}px`;
+      textareaRef.current.focus();
+    });
+  };
+
   // Input-only mode - renders just the message input interface with responsive sizing
   if (inputOnly) {
     return (
@@ -205,7 +220,9 @@ export default function MainContent({
                     customization={customization}
                     hasActiveSubscription={hasActiveSubscription}
                   />
-
+                  {isLoggedIn && (
+                    <VoiceInputButton isDark={isDark} customization={customization} onTranscript={handleTranscript} />
+                  )}
                 </div>
                 
                 {/* Send Button */}
@@ -358,7 +375,9 @@ export default function MainContent({
                       customization={customization}
                       hasActiveSubscription={hasActiveSubscription}
                     />
-
+                    {isLoggedIn && (
+                      <VoiceInputButton isDark={isDark} customization={customization} onTranscript={handleTranscript} />
+                    )}
                   </div>
                   
                   <button
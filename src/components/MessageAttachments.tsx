@@ -0,0 +1,103 @@
+/**
+ * MessageAttachments Component
+ *
+ * Files attached to a chat message: image thumbnails and a chip per
+ * document. The attachments bucket is private, so everything is shown
+ * through signed URLs; clicking a thumbnail or chip opens the file in a new
+ * tab. Images generated for an answer (`generated`) are shown left-aligned
+ * at full width instead of as thumbnails.
+ */
+
+import { useEffect, useState } from 'react';
+import { FileText, ImageOff } from 'lucide-react';
+import {
+  attachmentService,
+  isDocumentAttachment,
+  isImageAttachment,
+  type MessageAttachment
+} from '../lib/attachments';
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isDark: boolean;
+  generated?: boolean;
+}
+
+export default function MessageAttachments({ attachments, isDark, generated = false }: MessageAttachmentsProps) {
+  const images = attachments.filter(isImageAttachment);
+  const documents = attachments.filter(isDocumentAttachment);
+  // Signed URL per storage path; null when it could not be created
+  const [urls, setUrls] = useState<Record<string, string | null>>({});
+  const paths = images.map(image => image.storage_path).join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    images.forEach(image => {
+      attachmentService.getDownloadUrl(image.storage_path)
+        .catch((error): null => {
+          console.warn('⚠️ Could not load attached image:', error);
+          return null;
+        })
+        .then(url => {
+          if (!cancelled) setUrls(prev => ({ ...prev, [image.storage_path]: url }));
+        });
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Only refetch when the images change, not on every streamed chunk
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paths]);
+
+  if (images.length === 0 && documents.length === 0) return null;
+
+  // Documents are signed on click, as they are rarely opened
+  const openDocument = async (document: MessageAttachment) => {
+    const tab = window.open('', '_blank');
+    try {
+      const url = await attachmentService.getDownloadUrl(document.storage_path);
+      if (tab) tab.location.href = url;
+    } catch (error) {
+      console.warn('⚠️ Could not open attached document:', error);
+      tab?.close();
+    }
+  };
+
+  const tileClass = `${generated ? 'w-full max-w-md min-h-[8rem]' : 'w-32 h-32'} rounded-xl border overflow-hidden flex items-center justify-center ${
+    isDark ? 'border-gray-600 bg-gray-800' : 'border-gray-200 bg-gray-100'
+  }`;
+
+  return (
+    <div className={`flex flex-wrap gap-2 mb-2 ${generated ? 'justify-start' : 'justify-end max-w-[82%]'}`}>
+      {images.map(image => {
+        const url = urls[image.storage_path];
+        if (url === null) {
+          return (
+            <div key={image.id} className={tileClass} title={image.filename}>
+              <ImageOff className={`w-5 h-5 ${isDark ? 'text-gray-500' : 'text-gray-400'}`} />
+            </div>
+          );
+        }
+        return (
+          <a key={image.id} href={url} target="_blank" rel="noopener noreferrer" className={tileClass} title={image.filename}>
+            {url && <img src={url} alt={image.filename} className={generated ? 'w-full h-auto' : 'w-full h-full object-cover'} />}
+          </a>
+        );
+      })}
+      {documents.map(document => (
+        <button
+          key={document.id}
+          type="button"
+          onClick={() => openDocument(document)}
+          className={`flex items-center gap-2 max-w-[16rem] px-3 py-2 rounded-xl border text-sm ${
+            isDark ? 'border-gray-600 bg-gray-800 text-gray-200 hover:bg-gray-700' : 'border-gray-200 bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+          title={`Open ${document.filename}`}
+        >
+          <FileText className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{document.filename}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
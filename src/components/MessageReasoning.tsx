@@ -0,0 +1,73 @@
+/**
+ * MessageReasoning Component
+ *
+ * Thought process of a thinking model, shown above the answer as a
+ * collapsed "Thought process" panel. While the model is still thinking the
+ * header counts the seconds; afterwards it shows how long the model thought.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Brain, ChevronDown, ChevronRight, Loader2 } from 'lucide-react';
+
+interface MessageReasoningProps {
+  content: string;
+  /** Missing while the model is still thinking */
+  durationMs?: number;
+  /** The answer is still streaming */
+  isGenerating: boolean;
+  isDark: boolean;
+}
+
+function formatSeconds(ms: number): string {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+export default function MessageReasoning({ content, durationMs, isGenerating, isDark }: MessageReasoningProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const startedAt = useRef(Date.now());
+  const [now, setNow] = useState(Date.now());
+  const thinking = isGenerating && durationMs === undefined;
+
+  useEffect(() => {
+    if (!thinking) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [thinking]);
+
+  if (!content.trim()) return null;
+
+  const label = thinking
+    ? `Thinking… ${formatSeconds(now - startedAt.current)}`
+    : durationMs !== undefined
+      ? `Thought for ${formatSeconds(durationMs)}`
+      : 'Thought process';
+
+  return (
+    <div className={`mb-3 mx-2 rounded-lg border text-xs ${isDark ? 'border-gray-600' : 'border-gray-200'}`}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className={`w-full flex items-center gap-1.5 px-2 py-1.5 text-left rounded-lg ${
+          isDark ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+        }`}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" />}
+        <Brain className="w-3.5 h-3.5 flex-shrink-0" />
+        <span className="font-semibold">Thought process</span>
+        <span className={isDark ? 'text-gray-500' : 'text-gray-400'}>{label}</span>
+        {thinking && <Loader2 className="w-3.5 h-3.5 ml-auto flex-shrink-0 animate-spin" />}
+      </button>
+      {isOpen && (
+        <div
+          className={`mx-2 mb-2 whitespace-pre-wrap break-words rounded-lg p-2 max-h-80 overflow-auto ${
+            isDark ? 'bg-gray-900 text-gray-400' : 'bg-gray-50 text-gray-600'
+          }`}
+        >
+          {content}
+        </div>
+      )}
+    </div>
+  );
+}
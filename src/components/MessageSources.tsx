@@ -0,0 +1,96 @@
+/**
+ * MessageSources Component
+ *
+ * "Sources" footer of an answer that was given excerpts of attached
+ * documents or web search results. Lists the sources the answer cites as
+ * [n], or all of them when it cites none; each opens the document (at the
+ * page, for PDFs) or the web page in a new tab.
+ */
+
+import { FileText, Globe } from 'lucide-react';
+import { attachmentService } from '../lib/attachments';
+import type { ChatCitation, DocumentCitation } from '../lib/chat-stream';
+
+interface MessageSourcesProps {
+  citations: ChatCitation[];
+  content: string;
+  isDark: boolean;
+}
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+/** Source numbers referenced in the answer text */
+function citedIndexes(content: string): Set<number> {
+  return new Set(Array.from(content.matchAll(CITATION_PATTERN), match => Number(match[1])));
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+export default function MessageSources({ citations, content, isDark }: MessageSourcesProps) {
+  const cited = citedIndexes(content);
+  const shown = citations.some(citation => cited.has(citation.index))
+    ? citations.filter(citation => cited.has(citation.index))
+    : citations;
+
+  if (shown.length === 0) return null;
+
+  // The tab is opened before the await, so popup blockers let it through
+  const openDocument = async (citation: DocumentCitation) => {
+    const tab = window.open('', '_blank');
+    try {
+      const attachment = await attachmentService.getAttachment(citation.attachmentId);
+      if (!attachment) throw new Error('Attachment not found');
+      const url = await attachmentService.getDownloadUrl(attachment.storage_path);
+      if (tab) tab.location.href = citation.page !== null ? `${url}#page=${citation.page}` : url;
+    } catch (error) {
+      console.warn('⚠️ Could not open cited document:', error);
+      tab?.close();
+    }
+  };
+
+  const chipClass = `flex items-center gap-1.5 max-w-[18rem] px-2 py-1 rounded-lg border text-xs ${
+    isDark ? 'border-gray-600 text-gray-300 hover:bg-gray-700' : 'border-gray-200 text-gray-700 hover:bg-gray-100'
+  }`;
+
+  return (
+    <div className="mb-3 px-2">
+      <div className={`text-xs font-medium mb-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>Sources</div>
+      <div className="flex flex-wrap gap-1.5">
+        {shown.map(citation => citation.source === 'web' ? (
+          <a
+            key={citation.index}
+            href={citation.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className={chipClass}
+            title={`${citation.title}\n${citation.url}`}
+          >
+            <span className="font-semibold">[{citation.index}]</span>
+            <Globe className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="truncate">{citation.title}</span>
+            <span className={`flex-shrink-0 ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>{hostOf(citation.url)}</span>
+          </a>
+        ) : (
+          <button
+            key={citation.index}
+            type="button"
+            onClick={() => openDocument(citation)}
+            className={chipClass}
+            title={`Open ${citation.filename}${citation.page !== null ? ` at page ${citation.page}` : ''}`}
+          >
+            <span className="font-semibold">[{citation.index}]</span>
+            <FileText className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="truncate">{citation.filename}</span>
+            {citation.page !== null && <span className="flex-shrink-0">p. {citation.page}</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * MessageToolSteps Component
+ *
+ * Tool calls the model made while answering, shown above the answer as
+ * collapsible steps: the tool name and state in the header, the arguments
+ * and the result when expanded. Steps still running show a spinner.
+ */
+
+import { useState } from 'react';
+import { AlertCircle, Check, ChevronDown, ChevronRight, Loader2, Wrench } from 'lucide-react';
+import type { ToolStep } from '../lib/chat-stream';
+
+interface MessageToolStepsProps {
+  steps: ToolStep[];
+  isDark: boolean;
+}
+
+/** Arguments are JSON from the model; pretty-printed when they parse */
+function formatArguments(value: string): string {
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+/** One-line preview of the arguments for the collapsed header */
+function summarize(value: string): string {
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return Object.values(parsed).map(item => typeof item === 'string' ? item : JSON.stringify(item)).join(', ');
+    }
+  } catch {
+    // Shown as it is
+  }
+  return value;
+}
+
+export default function MessageToolSteps({ steps, isDark }: MessageToolStepsProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  if (steps.length === 0) return null;
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const preClass = `text-xs whitespace-pre-wrap break-words rounded-lg p-2 max-h-60 overflow-auto ${
+    isDark ? 'bg-gray-900 text-gray-300' : 'bg-gray-50 text-gray-700'
+  }`;
+
+  return (
+    <div className="mb-3 px-2 space-y-1.5">
+      {steps.map(step => {
+        const isOpen = expanded.has(step.id);
+        const running = step.result === undefined;
+        return (
+          <div
+            key={step.id}
+            className={`rounded-lg border text-xs ${isDark ? 'border-gray-600' : 'border-gray-200'}`}
+          >
+            <button
+              type="button"
+              onClick={() => toggle(step.id)}
+              className={`w-full flex items-center gap-1.5 px-2 py-1.5 text-left rounded-lg ${
+                isDark ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+              aria-expanded={isOpen}
+            >
+              {isOpen ? <ChevronDown className="w-3.5 h-3.5 flex-shrink-0" /> : <ChevronRight className="w-3.5 h-3.5 flex-shrink-0" />}
+              <Wrench className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="font-semibold flex-shrink-0">{step.name}</span>
+              <span className={`truncate ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>{summarize(step.arguments)}</span>
+              <span className="ml-auto flex-shrink-0">
+                {running ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : step.isError ? (
+                  <AlertCircle className="w-3.5 h-3.5 text-red-500" />
+                ) : (
+                  <Check className="w-3.5 h-3.5 text-green-500" />
+                )}
+              </span>
+            </button>
+            {isOpen && (
+              <div className="px-2 pb-2 space-y-1.5">
+                <div className={isDark ? 'text-gray-400' : 'text-gray-500'}>Arguments</div>
+                <pre className={preClass}>{formatArguments(step.arguments)}</pre>
+                <div className={isDark ? 'text-gray-400' : 'text-gray-500'}>{step.isError ? 'Error' : 'Result'}</div>
+                <pre className={preClass}>{running ? 'Running…' : step.result}</pre>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
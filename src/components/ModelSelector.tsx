@@ -17,10 +17,12 @@ import {
   Globe,
   SlidersHorizontal,
   Database,
-  ScanText
+  ScanText,
+  AlertTriangle
 } from 'lucide-react';
 import { CustomizationSettings } from '../types/app';
 import type { ModelInfo } from '../types/app';
+import { supportsImageInput } from '../models/registry';
 
 interface ModelSelectorProps {
   selectedModel: string;
@@ -28,6 +30,8 @@ interface ModelSelectorProps {
   availableModels: ModelInfo[];
   customization: CustomizationSettings;
   hasActiveSubscription?: boolean;
+  /** Images are attached to the next message; text-only models get a warning */
+  hasImageAttachments?: boolean;
 }
 
 const PROVIDER_ICON: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -79,7 +83,8 @@ export default function ModelSelector({
   onModelChange,
   availableModels,
   customization,
-  hasActiveSubscription = false
+  hasActiveSubscription = false,
+  hasImageAttachments = false
 }: ModelSelectorProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [query, setQuery] = useState('');
@@ -199,6 +204,13 @@ export default function ModelSelector({
               />
             </div>
 
+            {hasImageAttachments && (
+              <div className="flex items-center gap-2 text-xs text-theme-muted">
+                <ImageIcon className="w-3.5 h-3.5" />
+                Images attached: pick a model marked with the image icon to include them.
+              </div>
+            )}
+
             {upgradeNeeded && (
               <div className="p-4 rounded-theme border border-theme-accent bg-theme-surface-accent text-theme">
                 <div className="text-xs uppercase tracking-wide text-theme-muted">Unlock everything</div>
@@ -255,6 +267,9 @@ export default function ModelSelector({
                         <div className="flex items-center gap-2">
                           <span className="text-sm font-medium text-theme truncate">{model.name}</span>
                           {isSelected && <span className="text-[10px] px-1.5 py-0.5 rounded-theme bg-theme-ghost border border-theme text-theme">Active</span>}
+                          {hasImageAttachments && !supportsImageInput(model.code) && (
+                            <span className="text-[10px] px-1.5 py-0.5 rounded-theme border border-theme text-theme-muted">Text only</span>
+                          )}
                         </div>
                         {model.description && (
                           <div className="text-xs text-theme-muted truncate">{model.description}</div>
@@ -290,6 +305,9 @@ export default function ModelSelector({
 
   const selectedModelInfo = availableModels.find(model => model.code === selectedModel);
   const SelectedIcon = selectedModelInfo ? PROVIDER_ICON[selectedModelInfo.provider] || Brain : Brain;
+  const imageWarning = hasImageAttachments && !supportsImageInput(selectedModel)
+    ? `${selectedModelInfo?.name || selectedModel} cannot read images. Choose a vision model or remove the images.`
+    : null;
 
   return (
     <div className="relative font-theme">
@@ -314,6 +332,16 @@ export default function ModelSelector({
         </span>
         <ChevronDown className={`w-3.5 h-3.5 transition-transform duration-200 ${isOpen ? 'rotate-180' : ''}`} />
       </button>
+      {imageWarning && (
+        <span
+          className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-amber-500 text-white flex items-center justify-center shadow-theme-soft"
+          title={imageWarning}
+          role="img"
+          aria-label={imageWarning}
+        >
+          <AlertTriangle className="w-3 h-3" />
+        </span>
+      )}
       {overlay}
     </div>
   );
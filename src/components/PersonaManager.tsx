@@ -0,0 +1,319 @@
+/**
+ * PersonaManager Component
+ *
+ * Modal to create, edit, share and delete the user's personas. Shared
+ * personas of other users are listed read-only so they can be picked.
+ */
+
+import { useState } from 'react';
+import { X, Plus, Pencil, Trash2, Globe } from 'lucide-react';
+import { CustomizationSettings, ModelInfo } from '../types/app';
+import {
+  personaService,
+  MAX_PERSONA_NAME_LENGTH,
+  MAX_SYSTEM_PROMPT_LENGTH,
+  type Persona,
+  type PersonaInput
+} from '../lib/personas';
+
+interface PersonaManagerProps {
+  isDark: boolean;
+  customization: CustomizationSettings;
+  userId: string;
+  personas: Persona[];
+  availableModels: ModelInfo[];
+  onChanged: () => Promise<void>;
+  onClose: () => void;
+}
+
+interface PersonaDraft extends Required<Omit<PersonaInput, 'default_model' | 'temperature'>> {
+  default_model: string;
+  /** Empty keeps the provider's default temperature */
+  temperature: string;
+}
+
+const EMPTY_DRAFT: PersonaDraft = {
+  name: '',
+  icon: '🤖',
+  system_prompt: '',
+  default_model: '',
+  temperature: '',
+  is_public: false
+};
+
+const toDraft = (persona: Persona): PersonaDraft => ({
+  name: persona.name,
+  icon: persona.icon,
+  system_prompt: persona.system_prompt,
+  default_model: persona.default_model ?? '',
+  temperature: persona.temperature != null ? String(persona.temperature) : '',
+  is_public: persona.is_public
+});
+
+const toInput = (draft: PersonaDraft): PersonaInput => ({
+  name: draft.name,
+  icon: draft.icon.trim() || '🤖',
+  system_prompt: draft.system_prompt,
+  default_model: draft.default_model || null,
+  temperature: draft.temperature !== '' ? Number(draft.temperature) : null,
+  is_public: draft.is_public
+});
+
+export default function PersonaManager({
+  isDark,
+  customization,
+  userId,
+  personas,
+  availableModels,
+  onChanged,
+  onClose
+}: PersonaManagerProps) {
+  // null: list view; 'new' or a persona id: editing
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ownPersonas = personas.filter(p => p.user_id === userId);
+  const sharedPersonas = personas.filter(p => p.user_id !== userId);
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+  }`;
+  const labelClass = `block text-xs font-medium mb-1 ${isDark ? 'text-gray-300' : 'text-gray-700'}`;
+  const iconButtonClass = `p-1.5 rounded-lg ${isDark ? 'hover:bg-gray-600 text-gray-400' : 'hover:bg-gray-200 text-gray-600'}`;
+
+  const startEditing = (persona?: Persona) => {
+    setEditingId(persona?.id ?? 'new');
+    setDraft(persona ? toDraft(persona) : EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (editingId === 'new') {
+        await personaService.createPersona(userId, toInput(draft));
+      } else if (editingId) {
+        await personaService.updatePersona(editingId, toInput(draft));
+      }
+      await onChanged();
+      setEditingId(null);
+    } catch (err) {
+      console.error('❌ Failed to save persona:', err);
+      setError(err instanceof Error ? err.message : 'Could not save the persona.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (persona: Persona) => {
+    if (!confirm(`Delete the persona "${persona.name}"? Conversations using it switch to the default assistant.`)) return;
+    try {
+      await personaService.deletePersona(persona.id);
+      await onChanged();
+    } catch (err) {
+      console.error('❌ Failed to delete persona:', err);
+      setError(err instanceof Error ? err.message : 'Could not delete the persona.');
+    }
+  };
+
+  const renderRow = (persona: Persona, editable: boolean) => (
+    <div
+      key={persona.id}
+      className={`flex items-center gap-3 p-3 rounded-lg border ${
+        isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'
+      }`}
+    >
+      <span className="text-lg">{persona.icon}</span>
+      <div className="flex-1 min-w-0">
+        <div className={`text-sm font-medium truncate flex items-center gap-1.5 ${isDark ? 'text-white' : 'text-gray-900'}`}>
+          {persona.name}
+          {persona.is_public && <Globe className="w-3 h-3 opacity-60" aria-label="Shared" />}
+        </div>
+        <div className={`text-xs truncate ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+          {persona.system_prompt || 'No instructions'}
+        </div>
+      </div>
+      {editable && (
+        <>
+          <button onClick={() => startEditing(persona)} className={iconButtonClass} title="Edit persona">
+            <Pencil className="w-4 h-4" />
+          </button>
+          <button onClick={() => handleDelete(persona)} className={iconButtonClass} title="Delete persona">
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center"
+      style={{ zIndex: 9999 }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-[560px] max-w-[90vw] max-h-[85vh] p-6 rounded-theme shadow-theme bg-theme-surface border border-theme flex flex-col"
+        style={{ fontFamily: customization.fontFamily }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            {editingId === null ? 'Personas' : editingId === 'new' ? 'New persona' : 'Edit persona'}
+          </h3>
+          <button
+            onClick={onClose}
+            className={`p-1 rounded-lg ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'}`}
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {error && <div className="text-sm text-red-500 mb-3">{error}</div>}
+
+        {editingId === null ? (
+          <div className="overflow-y-auto space-y-2">
+            <button
+              onClick={() => startEditing()}
+              className="w-full flex items-center justify-center gap-2 p-2.5 rounded-lg text-white text-sm font-medium hover:opacity-90"
+              style={{ backgroundColor: customization.primaryColor }}
+            >
+              <Plus className="w-4 h-4" />
+              New persona
+            </button>
+
+            {ownPersonas.length === 0 && (
+              <p className={`text-center py-4 text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                You have not created any personas yet.
+              </p>
+            )}
+            {ownPersonas.map(persona => renderRow(persona, true))}
+
+            {sharedPersonas.length > 0 && (
+              <>
+                <div className={`pt-3 text-xs uppercase tracking-wide ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                  Shared by others
+                </div>
+                {sharedPersonas.map(persona => renderRow(persona, false))}
+              </>
+            )}
+          </div>
+        ) : (
+          <div className="overflow-y-auto space-y-4">
+            <div className="flex gap-3">
+              <div className="w-20">
+                <label className={labelClass}>Icon</label>
+                <input
+                  value={draft.icon}
+                  onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+                  maxLength={8}
+                  className={`${inputClass} text-center`}
+                />
+              </div>
+              <div className="flex-1">
+                <label className={labelClass}>Name</label>
+                <input
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  maxLength={MAX_PERSONA_NAME_LENGTH}
+                  placeholder="e.g. Code reviewer"
+                  className={inputClass}
+                  autoFocus
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>System prompt</label>
+              <textarea
+                value={draft.system_prompt}
+                onChange={(e) => setDraft({ ...draft, system_prompt: e.target.value })}
+                maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+                rows={7}
+                placeholder="Instructions the assistant follows in every reply"
+                className={`${inputClass} resize-y`}
+              />
+              <div className={`text-right text-[11px] ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+                {draft.system_prompt.length}/{MAX_SYSTEM_PROMPT_LENGTH}
+              </div>
+            </div>
+
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className={labelClass}>Default model</label>
+                <select
+                  value={draft.default_model}
+                  onChange={(e) => setDraft({ ...draft, default_model: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Keep selected model</option>
+                  {availableModels.map(model => (
+                    <option key={model.code} value={model.code}>{model.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className={labelClass}>
+                  Temperature {draft.temperature === '' ? '(model default)' : draft.temperature}
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={draft.temperature === '' ? 1 : draft.temperature}
+                    onChange={(e) => setDraft({ ...draft, temperature: e.target.value })}
+                    className="flex-1"
+                    style={{ accentColor: customization.primaryColor }}
+                  />
+                  {draft.temperature !== '' && (
+                    <button
+                      type="button"
+                      onClick={() => setDraft({ ...draft, temperature: '' })}
+                      className={`text-xs ${isDark ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}`}
+                    >
+                      Reset
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <label className={`flex items-center gap-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              <input
+                type="checkbox"
+                checked={draft.is_public}
+                onChange={(e) => setDraft({ ...draft, is_public: e.target.checked })}
+                style={{ accentColor: customization.primaryColor }}
+              />
+              Share with all users
+            </label>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                onClick={() => setEditingId(null)}
+                className={`px-4 py-2 rounded-lg text-sm ${isDark ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'}`}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !draft.name.trim()}
+                className="px-4 py-2 rounded-lg text-sm text-white font-medium hover:opacity-90 disabled:opacity-50"
+                style={{ backgroundColor: customization.primaryColor }}
+              >
+                {isSaving ? 'Saving...' : 'Save persona'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
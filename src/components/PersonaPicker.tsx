@@ -0,0 +1,149 @@
+/**
+ * PersonaPicker Component
+ *
+ * Compact dropdown next to the model selector that picks the persona of the
+ * current conversation (or of the next new one). "Default assistant" clears
+ * it; "Manage personas" opens the PersonaManager.
+ */
+
+import { useCallback, useLayoutEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Check, ChevronDown, Settings2, Users } from 'lucide-react';
+import { CustomizationSettings } from '../types/app';
+import type { Persona } from '../lib/personas';
+
+interface PersonaPickerProps {
+  isDark: boolean;
+  customization: CustomizationSettings;
+  personas: Persona[];
+  activePersona: Persona | null;
+  currentUserId?: string;
+  onSelect: (persona: Persona | null) => void;
+  onManage: () => void;
+}
+
+const MENU_WIDTH = 300;
+
+export default function PersonaPicker({
+  isDark,
+  customization,
+  personas,
+  activePersona,
+  currentUserId,
+  onSelect,
+  onManage
+}: PersonaPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [menuPosition, setMenuPosition] = useState({ bottom: 0, left: 0 });
+  const triggerRef = useRef<HTMLButtonElement | null>(null);
+
+  // The picker sits in the input box at the bottom, so the menu opens upwards
+  const updateMenuPosition = useCallback(() => {
+    if (!triggerRef.current) return;
+    const rect = triggerRef.current.getBoundingClientRect();
+    setMenuPosition({
+      bottom: window.innerHeight - rect.top + 8,
+      left: Math.min(Math.max(16, rect.left), window.innerWidth - MENU_WIDTH - 16)
+    });
+  }, []);
+
+  useLayoutEffect(() => {
+    if (!isOpen) return;
+    updateMenuPosition();
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setIsOpen(false);
+    };
+    window.addEventListener('resize', updateMenuPosition);
+    document.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('resize', updateMenuPosition);
+      document.removeEventListener('keydown', onKeyDown);
+    };
+  }, [isOpen, updateMenuPosition]);
+
+  const choose = (persona: Persona | null) => {
+    onSelect(persona);
+    setIsOpen(false);
+  };
+
+  const itemClass = (selected: boolean) => `w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+    selected
+      ? isDark ? 'bg-gray-700 text-white' : 'bg-gray-100 text-gray-900'
+      : isDark ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-50'
+  }`;
+
+  const ownPersonas = personas.filter(p => p.user_id === currentUserId);
+  const sharedPersonas = personas.filter(p => p.user_id !== currentUserId);
+
+  const renderPersona = (persona: Persona) => (
+    <button key={persona.id} type="button" onClick={() => choose(persona)} className={itemClass(activePersona?.id === persona.id)}>
+      <span className="w-5 text-center">{persona.icon}</span>
+      <span className="flex-1 truncate">{persona.name}</span>
+      {activePersona?.id === persona.id && <Check className="w-4 h-4" style={{ color: customization.primaryColor }} />}
+    </button>
+  );
+
+  const sectionTitle = (title: string) => (
+    <div className={`px-3 pt-2 pb-1 text-[11px] uppercase tracking-wide ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+      {title}
+    </div>
+  );
+
+  const menu = isOpen ? createPortal(
+    <div className="fixed inset-0 z-[1000]" onClick={() => setIsOpen(false)}>
+      <div
+        className={`absolute rounded-xl border shadow-lg p-2 max-h-[60vh] overflow-y-auto ${
+          isDark ? 'bg-gray-800 border-gray-600' : 'bg-white border-gray-200'
+        }`}
+        style={{ ...menuPosition, width: MENU_WIDTH, fontFamily: customization.fontFamily }}
+        onClick={event => event.stopPropagation()}
+      >
+        <button type="button" onClick={() => choose(null)} className={itemClass(!activePersona)}>
+          <span className="w-5 text-center">💬</span>
+          <span className="flex-1">Default assistant</span>
+          {!activePersona && <Check className="w-4 h-4" style={{ color: customization.primaryColor }} />}
+        </button>
+
+        {ownPersonas.length > 0 && sectionTitle('Your personas')}
+        {ownPersonas.map(renderPersona)}
+        {sharedPersonas.length > 0 && sectionTitle('Shared')}
+        {sharedPersonas.map(renderPersona)}
+
+        <div className={`mt-2 pt-2 border-t ${isDark ? 'border-gray-700' : 'border-gray-100'}`}>
+          <button
+            type="button"
+            onClick={() => {
+              setIsOpen(false);
+              onManage();
+            }}
+            className={itemClass(false)}
+          >
+            <Settings2 className="w-4 h-4" />
+            <span>Manage personas…</span>
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  ) : null;
+
+  return (
+    <>
+      <button
+        ref={triggerRef}
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-sm transition-colors ${
+          isDark ? 'text-gray-300 hover:bg-gray-600' : 'text-gray-700 hover:bg-gray-100'
+        }`}
+        title="Persona for this conversation"
+      >
+        {activePersona ? <span>{activePersona.icon}</span> : <Users className="w-4 h-4" />}
+        <span className="max-w-[120px] truncate">{activePersona?.name ?? 'Persona'}</span>
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {menu}
+    </>
+  );
+}
@@ -10,6 +10,9 @@
  * - Collapsible/expandable responsive design
  * - Active conversation highlighting and selection
  * - Individual conversation deletion with confirmation
+ * - Per-conversation export (Markdown, JSON, HTML)
+ * - Fork lineage for conversations forked from another one
+ * - "Find similar conversations" action (semantic recall)
  * - Theme-aware styling with custom color support
  * - Glass effect support for modern UI aesthetics
  * - Detached mode for flexible layout arrangements
@@ -24,6 +27,7 @@
  * - Shows last updated date for each conversation
  * - Provides delete functionality with visual feedback
  * - Highlights currently active conversation
+ * - Marks conversations that are still generating a response
  * 
  * Theme Integration:
  * - Adapts colors based on dark/light mode
@@ -39,8 +43,11 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { ChevronLeft, ChevronRight, Trash2, RefreshCw } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Trash2, RefreshCw, GitFork, Sparkles } from 'lucide-react';
 import { CustomizationSettings } from '../types/app';
+import ExportMenu from './ExportMenu';
+import type { ExportFormat } from '../lib/conversation-export';
+import type { ConversationForkSource } from '../lib/conversations';
 
 interface SidebarProps {
   isDark: boolean;
@@ -56,6 +63,9 @@ interface SidebarProps {
   currentConversationId?: string | null;
   onConversationSelect?: (conversationId: string) => void;
   onConversationDelete?: (conversationId: string) => void;
+  onConversationExport?: (conversationId: string, format: ExportFormat) => Promise<void>;
+  onFindSimilar?: (conversationId: string) => void;
+  generatingConversationIds?: string[];
   hasGlassEffect?: boolean; // New prop for glass effects
   isLoggedIn?: boolean; // New prop to check if user is logged in
 
@@ -75,6 +85,9 @@ export default function Sidebar({
   currentConversationId,
   onConversationSelect,
   onConversationDelete,
+  onConversationExport,
+  onFindSimilar,
+  generatingConversationIds = [],
   hasGlassEffect = false,
   isLoggedIn = false
 }: SidebarProps) {
@@ -159,6 +172,14 @@ export default function Sidebar({
     return baseColor;
   };
 
+  /**
+   * Current title of a fork's source, or the title it had when forked
+   */
+  const getForkSourceTitle = (source: ConversationForkSource) => {
+    const current = conversations.find(c => c.id === source.conversation_id);
+    return current?.title || source.title || 'Untitled Conversation';
+  };
+
   // Collapsed sidebar - only show toggle button
   if (isCollapsed) {
     return (
@@ -269,7 +290,7 @@ export default function Sidebar({
               >
                 <button 
                   onClick={() => onConversationSelect?.(conversation.id)}
-                   className={`w-full text-left px-3 py-2 pr-10 transition-colors text-app`}
+                   className={`w-full text-left px-3 py-2 ${onConversationExport && onFindSimilar ? 'pr-24' : onConversationExport || onFindSimilar ? 'pr-16' : 'pr-10'} transition-colors text-app`}
                   style={{ 
                     fontFamily: customization.fontFamily
                   }}
@@ -277,24 +298,67 @@ export default function Sidebar({
                   <div className="truncate text-sm">
                     {conversation.title || 'Untitled Conversation'}
                   </div>
+                  {conversation.metadata?.forked_from && (
+                    <div
+                      className="flex items-center gap-1 text-xs mt-0.5 truncate"
+                      style={{ color: 'color-mix(in srgb, var(--color-text) 60%, transparent)' }}
+                      title="Forked conversation"
+                    >
+                      <GitFork className="w-3 h-3 flex-shrink-0" />
+                      <span className="truncate">
+                        Forked from {getForkSourceTitle(conversation.metadata.forked_from)}
+                      </span>
+                    </div>
+                  )}
                   <div className={`text-xs mt-1`} style={{ color: 'color-mix(in srgb, var(--color-text) 70%, transparent)' }}>
-                    {new Date(conversation.updated_at).toLocaleDateString()}
+                    {generatingConversationIds.includes(conversation.id) ? (
+                      <span className="inline-flex items-center gap-1.5">
+                        <span
+                          className="w-1.5 h-1.5 rounded-full animate-pulse"
+                          style={{ backgroundColor: customization.primaryColor }}
+                        />
+                        Generating...
+                      </span>
+                    ) : (
+                      new Date(conversation.updated_at).toLocaleDateString()
+                    )}
                   </div>
                 </button>
                 
-                {/* Delete Button */}
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    if (window.confirm(`Are you sure you want to delete "${conversation.title || 'Untitled Conversation'}"?`)) {
-                      onConversationDelete?.(conversation.id);
-                    }
-                  }}
-                  className={`absolute right-2 top-1/2 transform -translate-y-1/2 p-1 rounded opacity-0 group-hover:opacity-100 transition-opacity`}
-                  title="Delete conversation"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
+                {/* Similar, Export and Delete Buttons */}
+                <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                  {onFindSimilar && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onFindSimilar(conversation.id);
+                      }}
+                      className="p-1 rounded"
+                      title="Find similar conversations"
+                    >
+                      <Sparkles className="w-4 h-4" />
+                    </button>
+                  )}
+                  {onConversationExport && (
+                    <ExportMenu
+                      isDark={isDark}
+                      onExport={(format) => onConversationExport(conversation.id, format)}
+                      className="p-1 rounded"
+                    />
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (window.confirm(`Are you sure you want to delete "${conversation.title || 'Untitled Conversation'}"?`)) {
+                        onConversationDelete?.(conversation.id);
+                      }
+                    }}
+                    className="p-1 rounded"
+                    title="Delete conversation"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
             ))}
           </>
@@ -0,0 +1,134 @@
+/**
+ * SimilarConversations Component
+ *
+ * Modal listing the user's other conversations that are closest in meaning
+ * to a given one (embedding centroids, see `messageSearchService`).
+ * Selecting an entry opens that conversation.
+ */
+
+import { useEffect, useState } from 'react';
+import { X, Sparkles } from 'lucide-react';
+import { CustomizationSettings } from '../types/app';
+import { messageSearchService, type SimilarConversation } from '../lib/message-search';
+
+interface SimilarConversationsProps {
+  isDark: boolean;
+  customization: CustomizationSettings;
+  conversationId: string;
+  conversationTitle: string;
+  onSelect: (conversationId: string) => void;
+  onClose: () => void;
+}
+
+export default function SimilarConversations({
+  isDark,
+  customization,
+  conversationId,
+  conversationTitle,
+  onSelect,
+  onClose
+}: SimilarConversationsProps) {
+  const [results, setResults] = useState<SimilarConversation[]>([]);
+  const [remaining, setRemaining] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    messageSearchService.findSimilarConversations(conversationId)
+      .then(response => {
+        if (cancelled) return;
+        setResults(response.results);
+        setRemaining(response.remaining);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        console.error('❌ Failed to find similar conversations:', err);
+        setError(err instanceof Error ? err.message : 'Could not find similar conversations.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId]);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center"
+      style={{ zIndex: 9999 }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-[500px] max-w-[90vw] max-h-[80vh] p-6 rounded-theme shadow-theme bg-theme-surface border border-theme flex flex-col"
+        style={{ fontFamily: customization.fontFamily }}
+      >
+        <div className="flex items-start justify-between gap-3 mb-4">
+          <div className="min-w-0">
+            <h3 className={`text-lg font-semibold flex items-center gap-2 ${isDark ? 'text-white' : 'text-gray-900'}`}>
+              <Sparkles className="w-4 h-4" style={{ color: customization.primaryColor }} />
+              Similar conversations
+            </h3>
+            <p className={`text-xs mt-1 truncate ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              Related to "{conversationTitle || 'Untitled Conversation'}"
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className={`p-1 rounded-lg ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'}`}
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className={`flex items-center justify-center gap-2 py-8 text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+            Looking for related conversations...
+          </div>
+        ) : error ? (
+          <div className="text-sm text-red-500 py-4">{error}</div>
+        ) : results.length === 0 ? (
+          <div className={`text-center py-8 text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            No similar conversations found yet.
+          </div>
+        ) : (
+          <div className="overflow-y-auto space-y-2">
+            {results.map(result => (
+              <button
+                key={result.conversation_id}
+                onClick={() => onSelect(result.conversation_id)}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  isDark
+                    ? 'bg-gray-700 border-gray-600 hover:bg-gray-600'
+                    : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+                }`}
+              >
+                <div className={`font-medium text-sm truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                  {result.title || 'Untitled Conversation'}
+                </div>
+                <div className={`text-xs mt-1 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {Math.round(result.similarity * 100)}% similar · {new Date(result.updated_at).toLocaleDateString()}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!isLoading && remaining > 0 && (
+          <p className={`text-xs mt-4 ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+            Still indexing {remaining} messages; results may be incomplete.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
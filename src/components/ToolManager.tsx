@@ -0,0 +1,355 @@
+/**
+ * ToolManager Component
+ *
+ * Modal listing the tools tool-calling models can use: the built-in ones,
+ * read-only, and the user's own HTTP tools, which can be created, edited,
+ * switched off and deleted here.
+ */
+
+import { useEffect, useState } from 'react';
+import { X, Plus, Pencil, Trash2, Wrench } from 'lucide-react';
+import { CustomizationSettings } from '../types/app';
+import {
+  userToolService,
+  BUILT_IN_TOOLS,
+  MAX_TOOL_DESCRIPTION_LENGTH,
+  type UserTool,
+  type UserToolInput
+} from '../lib/tools';
+
+interface ToolManagerProps {
+  isDark: boolean;
+  customization: CustomizationSettings;
+  userId: string;
+  onClose: () => void;
+}
+
+interface ToolDraft {
+  name: string;
+  description: string;
+  url: string;
+  method: 'GET' | 'POST';
+  /** JSON text, parsed on save */
+  parameters: string;
+  headers: string;
+  enabled: boolean;
+}
+
+const EMPTY_DRAFT: ToolDraft = {
+  name: '',
+  description: '',
+  url: 'https://',
+  method: 'GET',
+  parameters: JSON.stringify({
+    type: 'object',
+    properties: { query: { type: 'string', description: 'What to look up' } },
+    required: ['query']
+  }, null, 2),
+  headers: '{}',
+  enabled: true
+};
+
+const toDraft = (tool: UserTool): ToolDraft => ({
+  name: tool.name,
+  description: tool.description,
+  url: tool.url,
+  method: tool.method,
+  parameters: JSON.stringify(tool.parameters, null, 2),
+  headers: JSON.stringify(tool.headers, null, 2),
+  enabled: tool.enabled
+});
+
+function parseJsonObject(text: string, label: string): Record<string, unknown> {
+  let value: unknown;
+  try {
+    value = JSON.parse(text.trim() || '{}');
+  } catch {
+    throw new Error(`${label} must be valid JSON`);
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${label} must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+const toInput = (draft: ToolDraft): UserToolInput => ({
+  name: draft.name.trim(),
+  description: draft.description,
+  url: draft.url,
+  method: draft.method,
+  parameters: parseJsonObject(draft.parameters, 'Parameters'),
+  headers: parseJsonObject(draft.headers, 'Headers') as Record<string, string>,
+  enabled: draft.enabled
+});
+
+export default function ToolManager({ isDark, customization, userId, onClose }: ToolManagerProps) {
+  const [tools, setTools] = useState<UserTool[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // null: list view; 'new' or a tool id: editing
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ToolDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setTools(await userToolService.listTools());
+    } catch (err) {
+      console.error('❌ Failed to load tools:', err);
+      setError(err instanceof Error ? err.message : 'Could not load your tools.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const inputClass = `w-full px-3 py-2 rounded-lg border text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 ${
+    isDark ? 'bg-gray-700 border-gray-600 text-white placeholder-gray-400' : 'bg-white border-gray-300 text-gray-900 placeholder-gray-400'
+  }`;
+  const labelClass = `block text-xs font-medium mb-1 ${isDark ? 'text-gray-300' : 'text-gray-700'}`;
+  const iconButtonClass = `p-1.5 rounded-lg ${isDark ? 'hover:bg-gray-600 text-gray-400' : 'hover:bg-gray-200 text-gray-600'}`;
+  const rowClass = `flex items-center gap-3 p-3 rounded-lg border ${
+    isDark ? 'bg-gray-700 border-gray-600' : 'bg-gray-50 border-gray-200'
+  }`;
+
+  const startEditing = (tool?: UserTool) => {
+    setEditingId(tool?.id ?? 'new');
+    setDraft(tool ? toDraft(tool) : EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (editingId === 'new') {
+        await userToolService.createTool(userId, toInput(draft));
+      } else if (editingId) {
+        await userToolService.updateTool(editingId, toInput(draft));
+      }
+      await refresh();
+      setEditingId(null);
+    } catch (err) {
+      console.error('❌ Failed to save tool:', err);
+      setError(err instanceof Error ? err.message : 'Could not save the tool.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (tool: UserTool) => {
+    try {
+      await userToolService.updateTool(tool.id, { enabled: !tool.enabled });
+      await refresh();
+    } catch (err) {
+      console.error('❌ Failed to update tool:', err);
+      setError(err instanceof Error ? err.message : 'Could not update the tool.');
+    }
+  };
+
+  const handleDelete = async (tool: UserTool) => {
+    if (!confirm(`Delete the tool "${tool.name}"?`)) return;
+    try {
+      await userToolService.deleteTool(tool.id);
+      await refresh();
+    } catch (err) {
+      console.error('❌ Failed to delete tool:', err);
+      setError(err instanceof Error ? err.message : 'Could not delete the tool.');
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center"
+      style={{ zIndex: 9999 }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-[560px] max-w-[90vw] max-h-[85vh] p-6 rounded-theme shadow-theme bg-theme-surface border border-theme flex flex-col"
+        style={{ fontFamily: customization.fontFamily }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className={`text-lg font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+            {editingId === null ? 'Tools' : editingId === 'new' ? 'New tool' : 'Edit tool'}
+          </h3>
+          <button
+            onClick={onClose}
+            className={`p-1 rounded-lg ${isDark ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-200 text-gray-600'}`}
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {error && <div className="text-sm text-red-500 mb-3">{error}</div>}
+
+        {editingId === null ? (
+          <div className="overflow-y-auto space-y-2">
+            <p className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+              Models with tool calling can use these while answering. Each call and its result is shown above the answer.
+            </p>
+
+            <div className={`pt-1 text-xs uppercase tracking-wide ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+              Built-in
+            </div>
+            {BUILT_IN_TOOLS.map(tool => (
+              <div key={tool.name} className={rowClass}>
+                <Wrench className={`w-4 h-4 ${isDark ? 'text-gray-400' : 'text-gray-500'}`} />
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>{tool.name}</div>
+                  <div className={`text-xs truncate ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>{tool.description}</div>
+                </div>
+              </div>
+            ))}
+
+            <div className={`pt-3 text-xs uppercase tracking-wide ${isDark ? 'text-gray-500' : 'text-gray-400'}`}>
+              Your HTTP tools
+            </div>
+            {!isLoading && tools.length === 0 && (
+              <p className={`text-center py-2 text-sm ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                You have not added any tools yet.
+              </p>
+            )}
+            {tools.map(tool => (
+              <div key={tool.id} className={rowClass}>
+                <input
+                  type="checkbox"
+                  checked={tool.enabled}
+                  onChange={() => handleToggle(tool)}
+                  title={tool.enabled ? 'Enabled' : 'Disabled'}
+                  style={{ accentColor: customization.primaryColor }}
+                />
+                <div className={`flex-1 min-w-0 ${tool.enabled ? '' : 'opacity-50'}`}>
+                  <div className={`text-sm font-medium truncate ${isDark ? 'text-white' : 'text-gray-900'}`}>{tool.name}</div>
+                  <div className={`text-xs truncate ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
+                    {tool.method} {tool.url}
+                  </div>
+                </div>
+                <button onClick={() => startEditing(tool)} className={iconButtonClass} title="Edit tool">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(tool)} className={iconButtonClass} title="Delete tool">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            <button
+              onClick={() => startEditing()}
+              className="w-full flex items-center justify-center gap-2 p-2.5 rounded-lg text-white text-sm font-medium hover:opacity-90"
+              style={{ backgroundColor: customization.primaryColor }}
+            >
+              <Plus className="w-4 h-4" />
+              New HTTP tool
+            </button>
+          </div>
+        ) : (
+          <div className="overflow-y-auto space-y-4">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={40}
+                placeholder="e.g. weather_lookup"
+                className={`${inputClass} font-mono`}
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Description</label>
+              <textarea
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                maxLength={MAX_TOOL_DESCRIPTION_LENGTH}
+                rows={2}
+                placeholder="What the tool does and when the model should call it"
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+
+            <div className="flex gap-3">
+              <div className="w-28">
+                <label className={labelClass}>Method</label>
+                <select
+                  value={draft.method}
+                  onChange={(e) => setDraft({ ...draft, method: e.target.value as ToolDraft['method'] })}
+                  className={inputClass}
+                >
+                  <option value="GET">GET</option>
+                  <option value="POST">POST</option>
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className={labelClass}>URL</label>
+                <input
+                  value={draft.url}
+                  onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+                  placeholder="https://api.example.com/lookup"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>
+                Parameters (JSON schema; GET sends them as query parameters, POST as a JSON body)
+              </label>
+              <textarea
+                value={draft.parameters}
+                onChange={(e) => setDraft({ ...draft, parameters: e.target.value })}
+                rows={7}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs resize-y`}
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Headers (JSON, e.g. an API key)</label>
+              <textarea
+                value={draft.headers}
+                onChange={(e) => setDraft({ ...draft, headers: e.target.value })}
+                rows={2}
+                spellCheck={false}
+                className={`${inputClass} font-mono text-xs resize-y`}
+              />
+            </div>
+
+            <label className={`flex items-center gap-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`}>
+              <input
+                type="checkbox"
+                checked={draft.enabled}
+                onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+                style={{ accentColor: customization.primaryColor }}
+              />
+              Enabled
+            </label>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button
+                onClick={() => setEditingId(null)}
+                className={`px-4 py-2 rounded-lg text-sm ${isDark ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-700 hover:bg-gray-100'}`}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !draft.name.trim() || !draft.description.trim()}
+                className="px-4 py-2 rounded-lg text-sm text-white font-medium hover:opacity-90 disabled:opacity-50"
+                style={{ backgroundColor: customization.primaryColor }}
+              >
+                {isSaving ? 'Saving...' : 'Save tool'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
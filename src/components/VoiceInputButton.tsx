@@ -0,0 +1,179 @@
+/**
+ * VoiceInputButton Component
+ *
+ * Microphone button for the message input. The first click starts recording
+ * (MediaRecorder), the second stops it; the recording is transcribed by
+ * Voxtral through the transcribe Edge Function and handed to `onTranscript`
+ * to be inserted into the textarea. Recordings stop on their own after
+ * MAX_RECORDING_SECONDS. Nothing is rendered where the browser cannot record.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Mic, Square } from 'lucide-react';
+import { CustomizationSettings } from '../types/app';
+import { MAX_RECORDING_SECONDS, transcriptionService } from '../lib/transcription';
+
+interface VoiceInputButtonProps {
+  isDark: boolean;
+  customization: CustomizationSettings;
+  onTranscript: (text: string) => void;
+  disabled?: boolean;
+}
+
+type RecorderState = 'idle' | 'recording' | 'transcribing';
+
+// First one the browser can record wins; the transcribe function accepts all of them
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+const ERROR_DISPLAY_MS = 5000;
+
+function canRecord(): boolean {
+  return typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+}
+
+function formatElapsed(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function VoiceInputButton({
+  isDark,
+  customization,
+  onTranscript,
+  disabled = false
+}: VoiceInputButtonProps) {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  // Cleared on unmount, so a late result is not inserted into a stale input
+  const mountedRef = useRef(true);
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') recorder.stop();
+    };
+  }, []);
+
+  // Elapsed time while recording, with the automatic stop at the limit
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const startedAt = Date.now();
+    setElapsed(0);
+    const timer = window.setInterval(() => {
+      const seconds = Math.floor((Date.now() - startedAt) / 1000);
+      setElapsed(seconds);
+      if (seconds >= MAX_RECORDING_SECONDS) recorderRef.current?.stop();
+    }, 250);
+    return () => window.clearInterval(timer);
+  }, [state]);
+
+  useEffect(() => {
+    if (!error) return;
+    const timer = window.setTimeout(() => setError(null), ERROR_DISPLAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [error]);
+
+  if (!canRecord()) return null;
+
+  const transcribe = async (audio: Blob) => {
+    if (audio.size === 0) {
+      setState('idle');
+      return;
+    }
+    setState('transcribing');
+    try {
+      const extension = audio.type.includes('mp4') ? 'mp4' : audio.type.includes('ogg') ? 'ogg' : 'webm';
+      const { text } = await transcriptionService.transcribe(audio, `recording.${extension}`);
+      if (!mountedRef.current) return;
+      if (text) {
+        console.log('🎙️ Transcribed voice input:', text.length, 'chars');
+        onTranscript(text);
+      } else {
+        setError('No speech detected');
+      }
+    } catch (err) {
+      console.error('❌ Voice input failed:', err);
+      if (mountedRef.current) setError(err instanceof Error ? err.message : 'Transcription failed');
+    } finally {
+      if (mountedRef.current) setState('idle');
+    }
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.warn('⚠️ Microphone not available:', err);
+      setError('Allow microphone access to use voice input');
+      return;
+    }
+
+    const mimeType = RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    chunksRef.current = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach(track => track.stop());
+      recorderRef.current = null;
+      if (!mountedRef.current) return;
+      transcribe(new Blob(chunksRef.current, { type: recorder.mimeType || mimeType || 'audio/webm' }));
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    setState('recording');
+  };
+
+  const handleClick = () => {
+    if (state === 'recording') {
+      recorderRef.current?.stop();
+    } else if (state === 'idle') {
+      startRecording();
+    }
+  };
+
+  const isRecording = state === 'recording';
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        type="button"
+        onClick={handleClick}
+        disabled={(disabled && !isRecording) || state === 'transcribing'}
+        className={`p-1 disabled:opacity-40 ${
+          isRecording ? 'text-red-500' : isDark ? 'text-gray-300 hover:text-white' : 'hover:text-purple-700'
+        }`}
+        style={{ color: isRecording || isDark ? undefined : customization.primaryColor }}
+        title={isRecording ? 'Stop recording and transcribe' : state === 'transcribing' ? 'Transcribing…' : 'Voice input'}
+      >
+        {state === 'transcribing' ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : isRecording ? (
+          <Square className="w-4 h-4" fill="currentColor" />
+        ) : (
+          <Mic className="w-4 h-4" />
+        )}
+      </button>
+      {isRecording && (
+        <span className="text-xs tabular-nums text-red-500">{formatElapsed(elapsed)}</span>
+      )}
+      {error && (
+        <span
+          className={`absolute bottom-full left-0 mb-2 whitespace-nowrap text-xs px-2 py-1 rounded-lg shadow ${
+            isDark ? 'bg-gray-900 text-red-400' : 'bg-white text-red-600 border border-red-200'
+          }`}
+        >
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
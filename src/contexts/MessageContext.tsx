@@ -1,59 +1,190 @@
-import { createContext, useState, useEffect, useContext, useCallback, Dispatch, SetStateAction, FC, ReactNode } from 'react';
+import { createContext, useState, useEffect, useContext, useCallback, useMemo, useRef, Dispatch, SetStateAction, FC, ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
-import { sendChatMessage } from '../lib/supabase-chat';
+import { streamChatMessage, ChatAbortedError, type ChatCitation, type ToolStep } from '../lib/supabase-chat';
+import { ChatStreamError } from '../lib/chat-stream';
+import { chatRequestManager } from '../lib/chat-requests';
+import { chatFeaturesService, parseImagineCommand } from '../lib/chat-features';
+import { conversationService, type ConversationMetadata } from '../lib/conversations';
+import { personaService, personaRequestOptions, type Persona } from '../lib/personas';
+import { getActivePath, resolveParents, selectPathTo, ROOT_KEY } from '../lib/message-tree';
+import { usesWebSearch } from '../lib/web-search';
+import { buildChatContext, type ContextCompaction, type ContextMessage, type ContextSummary } from '../lib/context-window';
+import {
+  attachmentService,
+  isDocumentAttachment,
+  isImageAttachment,
+  MAX_DOCUMENTS_PER_REQUEST,
+  type MessageAttachment
+} from '../lib/attachments';
+import { resolveGenerationParameters, supportsImageInput, supportsToolCalling } from '../models/registry';
+import type { GenerationParameters } from '../types/app';
 import { useAuth } from './AuthContext';
 
 interface Message {
   id: string;
   type: 'user' | 'ai';
   content: string;
+  /** Files attached to a user message, or the image generated for an `/imagine` prompt */
+  attachments?: MessageAttachment[];
+  /** Document excerpts the answer was given, numbered as cited in its text */
+  citations?: ChatCitation[];
+  /** Tools the model called while answering, with their results */
+  toolSteps?: ToolStep[];
+  /** Thought process of a thinking model, shown collapsed above the answer */
+  reasoning?: string;
+  /** How long the model thought; missing while it is still thinking */
+  reasoningDurationMs?: number;
+  /** Parent in the conversation tree; null for the first message */
+  parentId: string | null;
+  /** `conversation_branches` row the message was created in, if any */
+  branchId?: string | null;
+  model?: string;
   isResolving?: boolean;
   conversationId?: string;
   error?: string;
+  /** Machine-readable error code, e.g. 'insufficient_credits' */
+  errorCode?: string;
   isOptimistic?: boolean;
+  stopped?: boolean;
+  /** Position among sibling branches; set on messages of the active path */
+  siblingIndex?: number;
+  siblingCount?: number;
 }
 
 interface Conversation {
     id: string;
     title: string;
     created_at: string;
+    metadata?: ConversationMetadata | null;
+    persona_id?: string | null;
 }
 
 interface MessageContextType {
+  /** Active path of the current conversation, root to leaf */
   messages: Message[];
+  /** Replaces the whole message tree of the current conversation */
   setMessages: Dispatch<SetStateAction<Message[]>>;
   conversations: Conversation[];
   setConversations: Dispatch<SetStateAction<Conversation[]>>;
   activeConversationId: string | null;
   setActiveConversationId: Dispatch<SetStateAction<string | null>>;
+  /** Load a conversation; `focusMessageId` also selects the branch containing that message */
+  selectConversation: (conversationId: string, focusMessageId?: string) => Promise<void>;
   isLoading: boolean;
+  generatingConversationIds: string[];
   isCreatingConversation: boolean;
-  sendMessage: (message: string, model: string) => Promise<void>;
+  /** `attachments` must already be uploaded; images reach vision models only, documents are searched for every model */
+  sendMessage: (message: string, model: string, attachments?: MessageAttachment[]) => Promise<void>;
+  editMessage: (messageId: string, content: string, model: string) => Promise<void>;
+  regenerateResponse: (messageId: string, model: string) => Promise<void>;
+  switchBranch: (messageId: string, direction: 1 | -1) => void;
+  /** Copy the path up to `messageId` into a new conversation and open it */
+  forkConversation: (messageId: string, model: string) => Promise<Conversation | undefined>;
+  stopGeneration: () => void;
   handleNewConversation: (title?: string) => Promise<Conversation | undefined>;
+  refreshConversations: () => Promise<void>;
+  /** Own personas first, then the ones shared by other users */
+  personas: Persona[];
+  refreshPersonas: () => Promise<void>;
+  /** Persona of the current conversation, or the one chosen for the next new chat */
+  activePersona: Persona | null;
+  setConversationPersona: (personaId: string | null) => Promise<void>;
+  /** Parameters of the current conversation, or the ones for the next new chat */
+  generationParameters: GenerationParameters;
+  setGenerationParameters: (parameters: GenerationParameters) => Promise<void>;
+  /** Set when the last request of the current conversation left out older turns */
+  contextCompaction: ContextCompaction | null;
   searchResults: any[];
   setSearchResults: Dispatch<SetStateAction<any[]>>;
   searchConversations: (searchTerm: string) => void;
 }
 
+interface ReplyOptions {
+  conversationId: string;
+  /** Active path up to and including the prompt being answered */
+  path: Message[];
+  /** Prompt that still has to be saved together with the answer */
+  newUserMessage?: Message;
+  branchId: string | null;
+  model: string;
+  persona: Persona | null;
+  parameters: GenerationParameters;
+  /** Stored rolling summary of the conversation, if any */
+  summary?: ContextSummary | null;
+}
+
 const MessageContext = createContext<MessageContextType | undefined>(undefined);
 
+/**
+ * Chat request messages for `path`; image references are only kept for
+ * models that can read them, and only on user messages (providers reject
+ * images in assistant turns, such as generated ones)
+ */
+const toApiMessages = (path: Message[], withImages: boolean): ContextMessage[] => path
+  .filter(msg => !msg.error && (msg.content.trim() !== '' || !!msg.attachments?.length))
+  .map(msg => {
+    const images = withImages && msg.type === 'user' ? (msg.attachments ?? []).filter(isImageAttachment).map(a => a.id) : [];
+    return { id: msg.id, type: msg.type, content: msg.content, ...(images.length > 0 ? { attachments: images } : {}) };
+  });
+
+/**
+ * Documents attached anywhere on `path`, so follow-up questions can still
+ * refer to them; the most recently attached win beyond the request limit
+ */
+const documentIdsOf = (path: Message[]): string[] => {
+  const ids = path.flatMap(msg => (msg.attachments ?? []).filter(isDocumentAttachment).map(a => a.id));
+  return Array.from(new Set(ids.reverse())).slice(0, MAX_DOCUMENTS_PER_REQUEST).reverse();
+};
+
+const toMessageRow = (message: Message, conversationId: string, metadata?: Record<string, unknown>) => ({
+  id: message.id,
+  conversation_id: conversationId,
+  type: message.type,
+  role: message.type === 'user' ? 'user' as const : 'assistant' as const,
+  content: message.content,
+  attachments: message.attachments?.length ? message.attachments.map(a => a.id) : null,
+  model: message.model ?? null,
+  parent_message_id: message.parentId,
+  branch_id: message.branchId ?? null,
+  metadata: metadata ?? null
+});
+
 export const MessageProvider: FC<{ children: ReactNode }> = ({ children }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Every loaded or created message of the active conversation, all branches
+  const [messageTree, setMessageTree] = useState<Message[]>([]);
+  // Chosen child per parent (ROOT_KEY for the first message); default is the newest
+  const [branchSelection, setBranchSelection] = useState<Record<string, string>>({});
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [generatingConversationIds, setGeneratingConversationIds] = useState<string[]>(
+    () => chatRequestManager.getGeneratingIds()
+  );
   const [isCreatingConversation, setIsCreatingConversation] = useState(false);
   const [searchResults, setSearchResults] = useState<any[]>([]);
-  
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  // Persona for the next conversation, chosen before it exists
+  const [pendingPersonaId, setPendingPersonaId] = useState<string | null>(null);
+  const [pendingParameters, setPendingParameters] = useState<GenerationParameters>({});
+  const [compactions, setCompactions] = useState<Record<string, ContextCompaction | null>>({});
+  const loadingConversationRef = useRef<string | null>(null);
+  // Latest conversations for async metadata updates
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+
   const { user } = useAuth();
 
-  useEffect(() => {
-    if (user) {
-      fetchConversations();
-    }
-  }, [user]);
+  // Generations keep running when the user switches conversations, so the
+  // loading state is derived from the per-conversation request manager
+  useEffect(() => chatRequestManager.subscribe(setGeneratingConversationIds), []);
+  const isLoading = !!activeConversationId && generatingConversationIds.includes(activeConversationId);
 
-  const fetchConversations = async () => {
+  const messages = useMemo(() => getActivePath(messageTree, branchSelection).map(entry => ({
+    ...entry.message,
+    siblingIndex: entry.siblingIndex,
+    siblingCount: entry.siblingCount
+  })), [messageTree, branchSelection]);
+
+  const fetchConversations = useCallback(async () => {
     if (!user) return;
     const { data, error } = await supabase
       .from('conversations')
@@ -63,7 +194,122 @@ export const MessageProvider: FC<{ children: ReactNode }> = ({ children }) => {
     if (data) {
       setConversations(data);
     }
-  };
+  }, [user]);
+
+  const fetchPersonas = useCallback(async () => {
+    if (!user) return;
+    try {
+      setPersonas(await personaService.listPersonas(user.id));
+    } catch (error) {
+      console.error('❌ Failed to load personas:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchConversations();
+      fetchPersonas();
+    } else {
+      setPersonas([]);
+    }
+  }, [user, fetchConversations, fetchPersonas]);
+
+  const activePersonaId = activeConversationId
+    ? conversations.find(c => c.id === activeConversationId)?.persona_id ?? null
+    : pendingPersonaId;
+  const activePersona = personas.find(p => p.id === activePersonaId) ?? null;
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+  const generationParameters = useMemo(
+    () => (activeConversationId ? activeConversation?.metadata?.generation ?? {} : pendingParameters),
+    [activeConversationId, activeConversation, pendingParameters]
+  );
+
+  const setConversationPersona = useCallback(async (personaId: string | null) => {
+    if (!activeConversationId) {
+      setPendingPersonaId(personaId);
+      return;
+    }
+
+    const conversationId = activeConversationId;
+    const previous = conversations.find(c => c.id === conversationId)?.persona_id ?? null;
+    setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, persona_id: personaId } : c));
+    if (!user || conversationId.startsWith('local-')) return;
+
+    try {
+      await conversationService.updateConversation(conversationId, { persona_id: personaId });
+    } catch (error) {
+      console.error('❌ Failed to update conversation persona:', error);
+      setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, persona_id: previous } : c));
+    }
+  }, [activeConversationId, conversations, user]);
+
+  /**
+   * Merge `patch` into `conversations.metadata`; local state is rolled back
+   * if saving fails
+   */
+  const updateConversationMetadata = useCallback(async (conversationId: string, patch: ConversationMetadata) => {
+    const previous = conversationsRef.current.find(c => c.id === conversationId)?.metadata ?? null;
+    const metadata: ConversationMetadata = { ...previous, ...patch };
+    setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, metadata } : c));
+    if (!user || conversationId.startsWith('local-')) return;
+
+    try {
+      await conversationService.updateConversation(conversationId, { metadata });
+    } catch (error) {
+      console.error('❌ Failed to save conversation metadata:', error);
+      setConversations(prev => prev.map(c => c.id === conversationId ? { ...c, metadata: previous } : c));
+    }
+  }, [user]);
+
+  const setGenerationParameters = useCallback(async (parameters: GenerationParameters) => {
+    if (!activeConversationId) {
+      setPendingParameters(parameters);
+      return;
+    }
+    await updateConversationMetadata(activeConversationId, { generation: parameters });
+  }, [activeConversationId, updateConversationMetadata]);
+
+  const selectConversation = useCallback(async (conversationId: string, focusMessageId?: string) => {
+    setActiveConversationId(conversationId);
+    setBranchSelection({});
+    setMessageTree([]);
+    if (!user || conversationId.startsWith('local-')) return;
+
+    loadingConversationRef.current = conversationId;
+    const rows = await chatFeaturesService.getConversationMessages(conversationId);
+
+    const attachmentIds = Array.from(new Set(rows.flatMap(row => row.attachments ?? [])));
+    const attachments = new Map<string, MessageAttachment>();
+    try {
+      (await attachmentService.getAttachments(attachmentIds)).forEach(a => attachments.set(a.id, a));
+    } catch (error) {
+      console.warn('⚠️ Could not load message attachments:', error);
+    }
+    // A newer selection may have finished first
+    if (loadingConversationRef.current !== conversationId) return;
+
+    const tree = rows.map((row): Message => ({
+      id: row.id,
+      type: row.role === 'assistant' || row.type === 'ai' ? 'ai' : 'user',
+      content: row.content,
+      attachments: (row.attachments ?? []).flatMap((id: string) => attachments.get(id) ?? []),
+      parentId: row.parent_message_id ?? null,
+      branchId: row.branch_id ?? null,
+      model: row.model ?? undefined,
+      conversationId,
+      stopped: !!row.metadata?.stopped,
+      citations: row.metadata?.citations ?? undefined,
+      toolSteps: row.metadata?.tool_steps ?? undefined,
+      reasoning: row.metadata?.reasoning?.content ?? undefined,
+      reasoningDurationMs: row.metadata?.reasoning?.duration_ms ?? undefined
+    }));
+
+    setMessageTree(tree);
+    if (focusMessageId) {
+      setBranchSelection(selectPathTo(tree, {}, focusMessageId));
+    }
+  }, [user]);
 
   const handleNewConversation = useCallback(async (title: string = "New Conversation"): Promise<Conversation | undefined> => {
     if (isCreatingConversation) return;
@@ -72,11 +318,14 @@ export const MessageProvider: FC<{ children: ReactNode }> = ({ children }) => {
       const localConversation: Conversation = {
         id: `local-${Date.now()}`,
         title,
-        created_at: new Date().toISOString()
+        created_at: new Date().toISOString(),
+        persona_id: pendingPersonaId,
+        metadata: { generation: pendingParameters }
       };
       setConversations(prev => [localConversation, ...prev]);
       setActiveConversationId(localConversation.id);
-      setMessages([]);
+      setMessageTree([]);
+      setBranchSelection({});
       return localConversation;
     }
 
@@ -84,16 +333,17 @@ export const MessageProvider: FC<{ children: ReactNode }> = ({ children }) => {
     try {
       const { data, error } = await supabase
         .from('conversations')
-        .insert({ user_id: user.id, title })
-        .select('id, title, created_at')
+        .insert({ user_id: user.id, title, persona_id: pendingPersonaId, metadata: { generation: pendingParameters } })
+        .select('id, title, created_at, persona_id, metadata')
         .single();
 
       if (error) throw error;
-      
+
       if (data) {
         setConversations(prev => [data, ...prev]);
         setActiveConversationId(data.id);
-        setMessages([]);
+        setMessageTree([]);
+        setBranchSelection({});
         return data;
       }
     } catch (error) {
@@ -101,14 +351,231 @@ export const MessageProvider: FC<{ children: ReactNode }> = ({ children }) => {
     } finally {
       setIsCreatingConversation(false);
     }
-  }, [isCreatingConversation, user]);
+  }, [isCreatingConversation, user, pendingPersonaId, pendingParameters]);
 
-  const sendMessage = useCallback(async (message: string, currentModel: string) => {
-    if (!message.trim()) return;
+  /**
+   * Register a fork in `conversation_branches`. Branching still works
+   * without it (the tree lives in parent_message_id), so failures are logged.
+   */
+  const createBranch = useCallback(async (conversationId: string, parentId: string | null, title: string): Promise<string | null> => {
+    if (!user || conversationId.startsWith('local-')) return null;
+    try {
+      const branch = await chatFeaturesService.createBranch(conversationId, parentId, title.substring(0, 60));
+      return branch.id;
+    } catch (error) {
+      console.warn('⚠️ Could not register conversation branch:', error);
+      return null;
+    }
+  }, [user]);
+
+  /**
+   * Stream an answer to the last message of `path` as a new leaf, then save
+   * the prompt (when new) and the answer.
+   */
+  const generateReply = useCallback(async ({ conversationId, path, newUserMessage, branchId, model, persona, parameters, summary }: ReplyOptions) => {
+    const prompt = path[path.length - 1];
+    const aiMessage: Message = {
+      id: crypto.randomUUID(),
+      type: 'ai',
+      content: '',
+      parentId: prompt.id,
+      branchId,
+      model,
+      isResolving: true,
+      conversationId
+    };
+
+    setMessageTree(prev => [...prev, ...(newUserMessage ? [newUserMessage] : []), aiMessage]);
+    setBranchSelection(prev => ({
+      ...prev,
+      ...(newUserMessage ? { [newUserMessage.parentId ?? ROOT_KEY]: newUserMessage.id } : {}),
+      [prompt.id]: aiMessage.id
+    }));
+
+    const shouldPersist = !!user && !conversationId.startsWith('local-');
+    // Save the prompt right away so the answer (and later replies) can link to it
+    const promptSaved = shouldPersist && newUserMessage
+      ? supabase.from('messages').insert(toMessageRow(newUserMessage, conversationId)).then(({ error }) => {
+          if (error) console.error('❌ Failed to save message:', error);
+          return !error;
+        })
+      : Promise.resolve(true);
+
+    const saveAnswer = async (answer: Message, metadata: Record<string, unknown>) => {
+      if (!shouldPersist || !(await promptSaved)) return;
+      const { error } = await supabase.from('messages').insert(toMessageRow(answer, conversationId, metadata));
+      if (error) console.error('❌ Failed to save response:', error);
+    };
+
+    // `/imagine` prompts are answered with a generated image instead of text
+    const imageRequest = parseImagineCommand(prompt.content);
+    if (imageRequest) {
+      // Inside the try: a conversation that is already busy fails the placeholder
+      let controller: AbortController | null = null;
+      try {
+        controller = chatRequestManager.start(conversationId);
+        const image = await chatFeaturesService.generateImage(imageRequest, { conversationId, signal: controller.signal });
+        const attachment = user ? await chatFeaturesService.saveGeneratedImage(image, imageRequest, user.id) : null;
+        const answer: Message = {
+          ...aiMessage,
+          content: `Generated image: ${imageRequest.prompt}`,
+          attachments: attachment ? [attachment] : undefined,
+          model: image.model,
+          isResolving: false
+        };
+        setMessageTree(prev => prev.map(msg => msg.id === aiMessage.id ? answer : msg));
+        await saveAnswer(answer, { billing: image.billing ?? null });
+      } catch (error) {
+        const stopped = error instanceof ChatAbortedError;
+        const message = error instanceof Error ? error.message : String(error);
+        const errorCode = error instanceof ChatStreamError ? error.code : undefined;
+        if (!stopped) console.error('Error generating image:', error);
+        setMessageTree(prev => prev.map(msg =>
+          msg.id === aiMessage.id
+            ? stopped
+              ? { ...msg, isResolving: false, stopped: true }
+              : { ...msg, content: `Error: ${message}`, isResolving: false, error: message, errorCode }
+            : msg
+        ));
+      } finally {
+        if (controller) chatRequestManager.finish(conversationId, controller);
+      }
+      return;
+    }
+
+    // Panel settings win over the persona's temperature; both are fitted to the model
+    const personaOptions = personaRequestOptions(persona);
+    const documentIds = documentIdsOf(path);
+    const requestOptions = {
+      systemPrompt: personaOptions.systemPrompt,
+      documentIds,
+      // The chat function only searches for signed-in users
+      webSearch: !!user && usesWebSearch(model),
+      tools: supportsToolCalling(model),
+      ...resolveGenerationParameters({ temperature: personaOptions.temperature, ...parameters }, model)
+    };
+
+    // Kept so a stopped answer still shows the tools it called
+    let toolSteps: ToolStep[] = [];
+    const onToolSteps = (steps: ToolStep[]) => {
+      toolSteps = steps;
+      setMessageTree(prev => prev.map(msg => msg.id === aiMessage.id ? { ...msg, toolSteps: steps } : msg));
+    };
+
+    // Thinking time runs from the first reasoning chunk to the first answer chunk
+    let reasoning = '';
+    let reasoningStartedAt: number | null = null;
+    let reasoningDurationMs: number | undefined;
+    const endReasoning = () => {
+      if (reasoningStartedAt !== null && reasoningDurationMs === undefined) {
+        reasoningDurationMs = Date.now() - reasoningStartedAt;
+      }
+    };
+    const onReasoning = (chunk: string) => {
+      if (reasoningStartedAt === null) reasoningStartedAt = Date.now();
+      reasoning += chunk;
+      setMessageTree(prev => prev.map(msg => msg.id === aiMessage.id ? { ...msg, reasoning } : msg));
+    };
+    const reasoningMetadata = () => reasoning.trim()
+      ? { reasoning: { content: reasoning, duration_ms: reasoningDurationMs ?? null } }
+      : {};
+
+    // Registered before the history is summarized, so the conversation counts
+    // as generating (and can be stopped) from the start
+    let controller: AbortController | null = null;
+    try {
+      controller = chatRequestManager.start(conversationId);
+
+      // Older turns are summarized or left out when the history outgrows the model
+      const context = await buildChatContext({
+        path: toApiMessages(path, supportsImageInput(model)),
+        modelCode: model,
+        maxTokens: requestOptions.maxTokens,
+        systemPrompt: requestOptions.systemPrompt,
+        summary,
+        withDocuments: documentIds.length > 0,
+        withWebResults: requestOptions.webSearch,
+        signal: controller.signal
+      });
+      setCompactions(prev => ({ ...prev, [conversationId]: context.compaction }));
+      if (context.summaryChanged && context.summary) {
+        updateConversationMetadata(conversationId, { context_summary: context.summary });
+      }
+
+      const result = await streamChatMessage(
+        context.messages,
+        model,
+        (chunk) => {
+            endReasoning();
+            setMessageTree(prev => prev.map(msg =>
+                msg.id === aiMessage.id
+                  ? { ...msg, content: msg.content + chunk, isResolving: true, reasoningDurationMs }
+                  : msg
+              ));
+        },
+        conversationId,
+        undefined,
+        { ...requestOptions, contextSummary: context.summary?.content, onToolSteps, onReasoning, requestController: controller }
+      );
+
+      endReasoning();
+      if (result.reasoning) reasoning = result.reasoning;
+      const answer: Message = {
+        ...aiMessage,
+        content: result.content,
+        model: result.model ?? model,
+        isResolving: false,
+        citations: result.citations,
+        toolSteps: result.toolSteps,
+        reasoning: reasoning || undefined,
+        reasoningDurationMs
+      };
+      setMessageTree(prev => prev.map(msg => msg.id === aiMessage.id ? answer : msg));
+      await saveAnswer(answer, {
+        usage: result.usage ?? null,
+        billing: result.billing ?? null,
+        ...(result.citations?.length ? { citations: result.citations } : {}),
+        ...(result.toolSteps?.length ? { tool_steps: result.toolSteps } : {}),
+        ...reasoningMetadata()
+      });
+
+    } catch (error: any) {
+      if (error instanceof ChatAbortedError) {
+        // Keep whatever was streamed and mark the answer as stopped
+        const partial = error.partialContent;
+        endReasoning();
+        setMessageTree(prev => prev.map(msg =>
+          msg.id === aiMessage.id
+            ? { ...msg, content: partial || msg.content, model, isResolving: false, stopped: true, reasoningDurationMs }
+            : msg
+        ));
+
+        if (partial.trim()) {
+          await saveAnswer(
+            { ...aiMessage, content: partial, model },
+            { stopped: true, ...(toolSteps.length ? { tool_steps: toolSteps } : {}), ...reasoningMetadata() }
+          );
+        }
+        return;
+      }
+
+      console.error('Error sending message:', error);
+      setMessageTree(prev => prev.map(msg =>
+        msg.id === aiMessage.id
+          ? { ...msg, content: `Error: ${error.message}`, isResolving: false, error: error.message, errorCode: error.code }
+          : msg
+      ));
+    } finally {
+      if (controller) chatRequestManager.finish(conversationId, controller);
+    }
+  }, [user, updateConversationMetadata]);
+
+  const sendMessage = useCallback(async (message: string, currentModel: string, attachments: MessageAttachment[] = []) => {
+    if (!message.trim() && attachments.length === 0) return;
 
     let conversationIdToUse = activeConversationId;
     if (!conversationIdToUse) {
-        const newConversation = await handleNewConversation(message.substring(0,30));
+        const newConversation = await handleNewConversation(message.substring(0,30) || attachments[0].filename.substring(0,30));
         if(newConversation) {
           conversationIdToUse = newConversation.id;
         }
@@ -119,74 +586,180 @@ export const MessageProvider: FC<{ children: ReactNode }> = ({ children }) => {
       return;
     }
 
+    if (chatRequestManager.isGenerating(conversationIdToUse)) {
+      console.warn('⚠️ Conversation is still generating, ignoring send:', conversationIdToUse);
+      return;
+    }
+
+    // A freshly created conversation starts empty; failed answers are not part of the thread
+    const path = (conversationIdToUse === activeConversationId ? messages : []).filter(msg => !msg.error);
+    const parent = path[path.length - 1];
+
     const userMessage: Message = {
-      id: `user-${Date.now()}`,
+      id: crypto.randomUUID(),
       type: 'user',
       content: message,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      parentId: parent?.id ?? null,
+      branchId: parent?.branchId ?? null,
       isResolving: false,
       conversationId: conversationIdToUse,
       isOptimistic: true
     };
 
-    setMessages(prev => [...prev, userMessage]);
+    // Drop a failed answer at the end of the thread instead of branching around it
+    const failed = messages[messages.length - 1];
+    if (failed?.error && conversationIdToUse === activeConversationId) {
+      setMessageTree(prev => prev.filter(msg => msg.id !== failed.id));
+    }
 
-    const chatMessagesForApi = messages
-      .filter(msg => msg.content.trim() !== '')
-      .map(msg => ({
-        role: msg.type === 'user' ? 'user' : 'assistant',
-        content: msg.content
-      }));
+    await generateReply({
+      conversationId: conversationIdToUse,
+      path: [...path, userMessage],
+      newUserMessage: userMessage,
+      branchId: userMessage.branchId ?? null,
+      model: currentModel,
+      // A new conversation is created with the pending persona and parameters, which are the active ones
+      persona: activePersona,
+      parameters: generationParameters,
+      summary: conversationIdToUse === activeConversationId ? activeConversation?.metadata?.context_summary : null
+    });
+  }, [messages, activeConversationId, activeConversation, activePersona, generationParameters, handleNewConversation, generateReply]);
 
-    try {
-      setIsLoading(true);
-
-      const aiMessage: Message = {
-        id: `ai-${Date.now()}`,
-        type: 'ai',
-        content: '',
-        isResolving: true,
-        conversationId: conversationIdToUse
+  /**
+   * Answer again: the new response becomes a sibling of `messageId`
+   */
+  const regenerateResponse = useCallback(async (messageId: string, currentModel: string) => {
+    const conversationId = activeConversationId;
+    if (!conversationId || chatRequestManager.isGenerating(conversationId)) return;
+
+    const index = messages.findIndex(msg => msg.id === messageId);
+    if (index < 1 || messages[index].type !== 'ai') return;
+
+    const path = messages.slice(0, index);
+    const prompt = path[path.length - 1];
+    const branchId = await createBranch(conversationId, prompt.id, `Regenerated: ${prompt.content}`);
+
+    await generateReply({
+      conversationId,
+      path,
+      branchId,
+      model: currentModel,
+      persona: activePersona,
+      parameters: generationParameters,
+      summary: activeConversation?.metadata?.context_summary
+    });
+  }, [messages, activeConversationId, activeConversation, activePersona, generationParameters, createBranch, generateReply]);
+
+  /**
+   * Edit and resend: the edited prompt becomes a sibling of `messageId`
+   */
+  const editMessage = useCallback(async (messageId: string, content: string, currentModel: string) => {
+    const conversationId = activeConversationId;
+    if (!content.trim() || !conversationId || chatRequestManager.isGenerating(conversationId)) return;
+
+    const index = messages.findIndex(msg => msg.id === messageId);
+    if (index < 0 || messages[index].type !== 'user') return;
+
+    const original = messages[index];
+    const branchId = await createBranch(conversationId, original.parentId, `Edited: ${content}`);
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      type: 'user',
+      content,
+      attachments: original.attachments,
+      parentId: original.parentId,
+      branchId,
+      isResolving: false,
+      conversationId,
+      isOptimistic: true
+    };
+
+    await generateReply({
+      conversationId,
+      path: [...messages.slice(0, index), userMessage],
+      newUserMessage: userMessage,
+      branchId,
+      model: currentModel,
+      persona: activePersona,
+      parameters: generationParameters,
+      summary: activeConversation?.metadata?.context_summary
+    });
+  }, [messages, activeConversationId, activeConversation, activePersona, generationParameters, createBranch, generateReply]);
+
+  /**
+   * Show the previous/next sibling of a message, following its newest descendants
+   */
+  const switchBranch = useCallback((messageId: string, direction: 1 | -1) => {
+    const parents = resolveParents(messageTree);
+    if (!parents.has(messageId)) return;
+
+    const siblings = messageTree.filter(msg => parents.get(msg.id) === parents.get(messageId));
+    const target = siblings[siblings.findIndex(msg => msg.id === messageId) + direction];
+    if (!target) return;
+
+    setBranchSelection(prev => selectPathTo(messageTree, prev, target.id));
+  }, [messageTree]);
+
+  const forkConversation = useCallback(async (messageId: string, currentModel: string): Promise<Conversation | undefined> => {
+    const sourceId = activeConversationId;
+    const index = messages.findIndex(msg => msg.id === messageId);
+    if (!sourceId || index < 0) return;
+
+    const path = messages.slice(0, index + 1).filter(msg => !msg.error && (msg.content.trim() !== '' || !!msg.attachments?.length));
+    if (path.length === 0) return;
+
+    const source = conversations.find(c => c.id === sourceId);
+    const forkedFrom = { conversation_id: sourceId, message_id: messageId, title: source?.title || 'Untitled Conversation' };
+
+    if (!user || sourceId.startsWith('local-')) {
+      const forked: Conversation = {
+        id: `local-${Date.now()}`,
+        title: `${forkedFrom.title} (fork)`,
+        created_at: new Date().toISOString(),
+        metadata: { forked_from: forkedFrom, generation: source?.metadata?.generation },
+        persona_id: source?.persona_id ?? null
       };
-      setMessages(prev => [...prev, aiMessage]);
+      const ids = path.map(() => crypto.randomUUID());
+
+      setConversations(prev => [forked, ...prev]);
+      setActiveConversationId(forked.id);
+      setBranchSelection({});
+      setMessageTree(path.map((msg, i) => ({
+        id: ids[i],
+        type: msg.type,
+        content: msg.content,
+        attachments: msg.attachments,
+        parentId: i > 0 ? ids[i - 1] : null,
+        model: msg.model,
+        conversationId: forked.id
+      })));
+      return forked;
+    }
 
-      const stream = await sendChatMessage(
-        [...chatMessagesForApi, { role: 'user', content: message }],
+    try {
+      const forked = await conversationService.forkConversation(
+        user.id,
+        forkedFrom,
+        path.map(msg => ({ ...msg, attachments: msg.attachments?.map(a => a.id) })),
         currentModel,
-        (chunk) => {
-            setMessages(prev => prev.map(msg =>
-                msg.id === aiMessage.id
-                  ? { ...msg, content: msg.content + chunk, isResolving: true }
-                  : msg
-              ));
-        },
-        conversationIdToUse
+        source?.persona_id ?? null,
+        source?.metadata?.generation
       );
+      setConversations(prev => [forked, ...prev]);
+      await selectConversation(forked.id);
+      console.log('🍴 Forked conversation:', forked.id, 'from', sourceId);
+      return forked;
+    } catch (error) {
+      console.error('❌ Failed to fork conversation:', error);
+    }
+  }, [messages, activeConversationId, conversations, user, selectConversation]);
 
-      setMessages(prev => prev.map(msg =>
-        msg.id === aiMessage.id
-          ? { ...msg, isResolving: false }
-          : msg
-      ));
-      
-      const shouldPersist = !!user && !conversationIdToUse.startsWith('local-');
-      if (shouldPersist) {
-        await supabase.from('messages').upsert([
-          { conversation_id: conversationIdToUse, role: 'user', content: message },
-          { conversation_id: conversationIdToUse, role: 'assistant', content: stream }
-        ]);
-      }
-
-    } catch (error: any) {
-      console.error('Error sending message:', error);
-      setMessages(prev => prev.map(msg =>
-        msg.id.startsWith('ai-') && msg.isResolving
-          ? { ...msg, content: `Error: ${error.message}`, isResolving: false, error: error.message }
-          : msg
-      ));
-    } finally {
-      setIsLoading(false);
+  const stopGeneration = useCallback(() => {
+    if (activeConversationId) {
+      chatRequestManager.abort(activeConversationId);
     }
-  }, [messages, activeConversationId, user, handleNewConversation]);
+  }, [activeConversationId]);
 
   const searchConversations = (searchTerm: string) => {
     if (!searchTerm) {
@@ -202,15 +775,30 @@ export const MessageProvider: FC<{ children: ReactNode }> = ({ children }) => {
   return (
     <MessageContext.Provider value={{
       messages,
-      setMessages,
+      setMessages: setMessageTree,
       conversations,
       setConversations,
       activeConversationId,
       setActiveConversationId,
+      selectConversation,
       isLoading,
+      generatingConversationIds,
       isCreatingConversation,
       sendMessage,
+      editMessage,
+      regenerateResponse,
+      switchBranch,
+      forkConversation,
+      stopGeneration,
       handleNewConversation,
+      refreshConversations: fetchConversations,
+      personas,
+      refreshPersonas: fetchPersonas,
+      activePersona,
+      setConversationPersona,
+      generationParameters,
+      setGenerationParameters,
+      contextCompaction: activeConversationId ? compactions[activeConversationId] ?? null : null,
       searchResults,
       setSearchResults,
       searchConversations
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
-import { StripeService, type StripeUserSubscription, type StripeCustomer } from '../lib/stripeService'
+import { StripeService, type StripeUserSubscription, type StripeCustomer, type TokenBundle } from '../lib/stripeService'
 import { useAuth } from '../contexts/AuthContext'
 import React from 'react'
 
@@ -10,7 +10,7 @@ interface UseSubscriptionReturn {
   loading: boolean
   error: string | null
   createCheckoutSession: (priceId: string) => Promise<void>
-  createBundleCheckout: (bundle: any) => Promise<void>
+  createBundleCheckout: (bundle: TokenBundle) => Promise<void>
   openCustomerPortal: () => Promise<void>
   cancelSubscription: () => Promise<boolean>
   reactivateSubscription: () => Promise<boolean>
@@ -114,7 +114,7 @@ export function useSubscription(): UseSubscriptionReturn {
   }, [user])
 
   // Create bundle checkout
-  const createBundleCheckout = useCallback(async (bundle: any): Promise<void> => {
+  const createBundleCheckout = useCallback(async (bundle: TokenBundle): Promise<void> => {
     if (!user) {
       setError('User not authenticated')
       return
@@ -13,7 +13,7 @@
  * AI Integration:
  * - DeepSeek-V3: Generates original questions with 5 answers and point values
  * - DeepSeek-R1: Acts as AI opponent with strategic thinking and adaptation
- * - Advanced prompt engineering for consistent output formatting
+ * - Questions are requested as JSON and validated against a schema (sendStructured)
  * - Fallback mechanisms for robust error handling
  * 
  * Answer Matching Features:
@@ -38,6 +38,7 @@
  */
 
 import { sendChatMessage, ChatMessage } from './supabase-chat';
+import { sendStructured, type JsonSchema } from './structured-output';
 
 export interface AIFeudQuestion {
   question: string;
@@ -59,168 +60,88 @@ export interface AIGuessResult {
   };
 }
 
+/** Used when question generation fails */
+const FALLBACK_QUESTION: AIFeudQuestion = {
+  question: "Name something people do when they can't sleep",
+  answers: [
+    { text: "Read a book", points: 32, keywords: ["read", "book", "reading"] },
+    { text: "Watch TV", points: 28, keywords: ["watch", "tv", "television"] },
+    { text: "Count sheep", points: 18, keywords: ["count", "sheep", "counting"] },
+    { text: "Listen to music", points: 12, keywords: ["listen", "music", "audio"] },
+    { text: "Get a snack", points: 10, keywords: ["snack", "eat", "food"] }
+  ]
+};
+
+/** Shape DeepSeek-V3 has to answer in; keywords are derived locally */
+const QUESTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    question: { type: 'string', minLength: 10, maxLength: 200, description: 'Survey question, plain text' },
+    answers: {
+      type: 'array',
+      minItems: 5,
+      maxItems: 5,
+      description: 'The five most common survey answers, most popular first',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string', minLength: 1, maxLength: 60, description: 'Short answer, plain text' },
+          points: { type: 'integer', minimum: 1, maximum: 50 }
+        },
+        required: ['text', 'points'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['question', 'answers'],
+  additionalProperties: false
+};
+
+interface GeneratedQuestion {
+  question: string;
+  answers: Array<{ text: string; points: number }>;
+}
+
+/** Topics rotated through for variety */
+const QUESTION_THEMES = [
+  'modern life, technology, social media, food, travel and hobbies',
+  'social media trends, current events, work and careers, relationships and dating, entertainment and pop culture',
+  'free time, everyday situations, popular apps and websites, current trends and funny or embarrassing moments'
+];
+
 /**
  * Generate an AI Feud question using DeepSeek-V3
  */
 export async function generateAIFeudQuestion(): Promise<AIFeudQuestion> {
-  // Create a more varied and creative prompt
-  const prompts = [
-    `Generate a creative AI Feud style question with exactly 5 answers and their point values. Make it fun and engaging!
-
-IMPORTANT: Do NOT use any markdown formatting like **, *, #, or any special characters. Just use plain text.
-
-The format should be:
-Question: [A creative, fun question that people would be surveyed about]
-Answers:
-1. [Answer 1] - [Points 1-50]
-2. [Answer 2] - [Points 1-50] 
-3. [Answer 3] - [Points 1-50]
-4. [Answer 4] - [Points 1-50]
-5. [Answer 5] - [Points 1-50]
-
-Make sure:
-- Total points add up to 100
-- Answers are common, relatable responses
-- Question is creative and different from typical AI Feud questions
-- Points are realistic (higher for more common answers)
-- Make it about modern life, technology, social media, food, travel, hobbies, etc.
-- Use ONLY plain text, no formatting
-
-Generate a unique question:`,
-    
-    `Create an original AI Feud question that hasn't been used before. Think outside the box!
-
-IMPORTANT: Use plain text only. No markdown, no asterisks, no special formatting.
-
-Format:
-Question: [Something creative and modern]
-Answers:
-1. [Answer] - [Points]
-2. [Answer] - [Points]
-3. [Answer] - [Points]
-4. [Answer] - [Points]
-5. [Answer] - [Points]
-
-Make it about:
-- Social media trends
-- Modern technology
-- Current events
-- Food and dining
-- Travel and vacation
-- Work and careers
-- Relationships and dating
-- Entertainment and pop culture
-
-Be creative and original! Use plain text only.`,
-
-    `Invent a completely new AI Feud question that would be fun to play. Make it contemporary and relatable.
-
-IMPORTANT: Plain text only. No formatting, no asterisks, no markdown.
-
-Question: [Your creative question here]
-Answers:
-1. [Answer] - [Points]
-2. [Answer] - [Points]
-3. [Answer] - [Points]
-4. [Answer] - [Points]
-5. [Answer] - [Points]
-
-Think about:
-- What people do in their free time
-- Modern problems and solutions
-- Popular apps and websites
-- Current trends and fads
-- Everyday situations
-- Funny or embarrassing moments
-
-Make it fresh and entertaining! Plain text only.`
-  ];
-
-  // Randomly select a prompt for variety
-  const randomPrompt = prompts[Math.floor(Math.random() * prompts.length)];
+  const theme = QUESTION_THEMES[Math.floor(Math.random() * QUESTION_THEMES.length)];
 
   const messages: ChatMessage[] = [
-    { type: 'user', content: randomPrompt }
+    {
+      type: 'user',
+      content: `Invent an original, family-friendly AI Feud question that people could be surveyed about, with its 5 most common answers.
+Think about ${theme}. Make it different from typical Family Feud questions.
+Give higher points to more common answers; the points must add up to exactly 100.`
+    }
   ];
 
   try {
-    const response = await sendChatMessage(messages, 'DeepSeek-V3');
-    
-    // Parse the response to extract question and answers
-    const parsed = parseAIResponse(response);
-    return parsed;
-  } catch (error) {
-    console.error('Failed to generate AI Feud question:', error);
-    // Fallback to a default question
-    return {
-      question: "Name something people do when they can't sleep",
-      answers: [
-        { text: "Read a book", points: 32, keywords: ["read", "book", "reading"] },
-        { text: "Watch TV", points: 28, keywords: ["watch", "tv", "television"] },
-        { text: "Count sheep", points: 18, keywords: ["count", "sheep", "counting"] },
-        { text: "Listen to music", points: 12, keywords: ["listen", "music", "audio"] },
-        { text: "Get a snack", points: 10, keywords: ["snack", "eat", "food"] }
-      ]
-    };
-  }
-}
-
-/**
- * Parse AI response to extract question and answers
- */
-function parseAIResponse(response: string): AIFeudQuestion {
-  try {
-    // Clean up markdown formatting
-    const cleanResponse = response
-      .replace(/\*\*/g, '') // Remove bold
-      .replace(/\*/g, '')   // Remove italics
-      .replace(/#{1,6}\s/g, '') // Remove headers
-      .replace(/`/g, '')    // Remove code blocks
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1') // Remove links, keep text
-      .trim();
-    
-    // Extract question - be more flexible with parsing
-    const questionMatch = cleanResponse.match(/Question:\s*(.+?)(?:\n|$)/i) || 
-                         cleanResponse.match(/^(.+?)(?:\n|$)/i);
-    const question = questionMatch ? questionMatch[1].trim() : "Name something people do when they can't sleep";
-
-    // Extract answers - be more flexible with different formats
-    const answerMatches = cleanResponse.matchAll(/(\d+)\.\s*(.+?)\s*-\s*(\d+)/g) || 
-                         cleanResponse.matchAll(/(\d+)\)\s*(.+?)\s*-\s*(\d+)/g) ||
-                         cleanResponse.matchAll(/(\d+)\s*(.+?)\s*-\s*(\d+)/g);
-    const answers = [];
-    
-    for (const match of answerMatches) {
-      const text = match[2].trim();
-      const points = parseInt(match[3]);
-      const keywords = generateKeywords(text);
-      
-      answers.push({ text, points, keywords });
-    }
-
-    // If we didn't get 5 answers, fill with defaults
-    while (answers.length < 5) {
-      answers.push({
-        text: `Answer ${answers.length + 1}`,
-        points: Math.max(1, 20 - answers.length * 3),
-        keywords: [`answer${answers.length + 1}`]
-      });
-    }
+    const generated = await sendStructured<GeneratedQuestion>(QUESTION_SCHEMA, messages, 'DeepSeek-V3', {
+      name: 'ai_feud_question',
+      check: data => {
+        const total = data.answers.reduce((sum, answer) => sum + answer.points, 0);
+        return total === 100 ? [] : [`$.answers: points add up to ${total} instead of 100`];
+      }
+    });
 
-    return { question, answers: answers.slice(0, 5) };
-  } catch (error) {
-    console.error('Failed to parse AI response:', error);
-    // Return default question
     return {
-      question: "Name something people do when they can't sleep",
-      answers: [
-        { text: "Read a book", points: 32, keywords: ["read", "book", "reading"] },
-        { text: "Watch TV", points: 28, keywords: ["watch", "tv", "television"] },
-        { text: "Count sheep", points: 18, keywords: ["count", "sheep", "counting"] },
-        { text: "Listen to music", points: 12, keywords: ["listen", "music", "audio"] },
-        { text: "Get a snack", points: 10, keywords: ["snack", "eat", "food"] }
-      ]
+      question: generated.question.trim(),
+      answers: [...generated.answers]
+        .sort((a, b) => b.points - a.points)
+        .map(answer => ({ text: answer.text.trim(), points: answer.points, keywords: generateKeywords(answer.text) }))
     };
+  } catch (error) {
+    console.error('Failed to generate AI Feud question:', error);
+    return FALLBACK_QUESTION;
   }
 }
 
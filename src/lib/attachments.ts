@@ -15,19 +15,60 @@ export interface AttachmentMetadata {
   storage_path: string
 }
 
+/**
+ * Attachment of a chat message; `messages.attachments` stores the ids.
+ * Images are sent to vision models, which fetch them through signed URLs
+ * created by the chat Edge Function. Documents are extracted and embedded
+ * by the documents Edge Function (see documents.ts); the chat function
+ * then adds their most relevant excerpts to the prompt.
+ */
+export interface MessageAttachment {
+  id: string
+  filename: string
+  file_type: string
+  storage_path: string
+}
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+
+export const DOCUMENT_TYPES = ['application/pdf', 'text/plain', 'text/markdown', 'application/json']
+
+/** Same list as the transcribe Edge Function; audio is transcribed rather than sent to chat models */
+export const AUDIO_TYPES = [
+  'audio/webm',
+  'audio/ogg',
+  'audio/mp4',
+  'audio/mpeg',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/flac',
+  'audio/aac',
+  'audio/x-m4a'
+]
+
+/** Images and documents attached to one message */
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4
+/** Same limit as the chat Edge Function; older images are left out beyond it */
+export const MAX_IMAGES_PER_REQUEST = 16
+/** Same limit as the chat Edge Function; the most recently attached are searched */
+export const MAX_DOCUMENTS_PER_REQUEST = 8
+
+export function isImageAttachment(attachment: Pick<MessageAttachment, 'file_type'>): boolean {
+  return IMAGE_TYPES.includes(attachment.file_type)
+}
+
+export function isDocumentAttachment(attachment: Pick<MessageAttachment, 'file_type'>): boolean {
+  return DOCUMENT_TYPES.includes(attachment.file_type)
+}
+
+export function isAudioAttachment(attachment: Pick<MessageAttachment, 'file_type'>): boolean {
+  return AUDIO_TYPES.includes(attachment.file_type)
+}
+
 class AttachmentService {
   private readonly BUCKET_NAME = 'attachments'
   private readonly MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
-  private readonly ALLOWED_TYPES = [
-    'image/jpeg',
-    'image/png',
-    'image/gif',
-    'image/webp',
-    'application/pdf',
-    'text/plain',
-    'text/markdown',
-    'application/json'
-  ]
+  private readonly ALLOWED_TYPES = [...IMAGE_TYPES, ...DOCUMENT_TYPES, ...AUDIO_TYPES]
 
   /**
    * Check if file type is allowed
@@ -117,6 +158,22 @@ class AttachmentService {
     return data
   }
 
+  /**
+   * Get several attachments, in the order of `ids`; missing ones are skipped
+   */
+  async getAttachments(ids: string[]): Promise<MessageAttachment[]> {
+    if (ids.length === 0) return []
+
+    const { data, error } = await supabase
+      .from('attachments')
+      .select('id, filename, file_type, storage_path')
+      .in('id', ids)
+
+    if (error) throw error
+    const rows = new Map((data || []).map(row => [row.id, row]))
+    return ids.map(id => rows.get(id)).filter((row): row is MessageAttachment => !!row)
+  }
+
   /**
    * Get user's attachments
    */
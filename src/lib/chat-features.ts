@@ -11,12 +11,15 @@
  */
 
 import { supabase } from './supabase';
+import { getRuntimeEnv } from './runtime-env';
 import { attachmentService } from './attachments';
+import { ChatAbortedError, ChatStreamError, InsufficientCreditsError, type ChatBilling } from './chat-stream';
 
 export interface ChatBranch {
   id: string;
   conversation_id: string;
-  parent_message_id: string;
+  /** Message the branch forks from; null when the first message was edited */
+  parent_message_id: string | null;
   title: string;
   created_at: string;
 }
@@ -44,6 +47,49 @@ export interface ImageGenerationRequest {
   quality?: 'standard' | 'hd';
 }
 
+export interface GeneratedImage {
+  /** Base64 data URL; store it with saveGeneratedImage */
+  imageUrl: string;
+  mimeType: string;
+  model: string;
+  /** Prompt the provider actually used, when it rewrote ours */
+  revisedPrompt?: string;
+  billing?: ChatBilling;
+}
+
+const IMAGE_STYLES = ['realistic', 'artistic', 'cartoon', 'abstract'];
+const IMAGE_SIZES = ['512x512', '1024x1024', '1024x1792', '1792x1024'];
+
+/**
+ * Parse a `/imagine <prompt>` chat command, or return null for any other
+ * message. Options may lead the prompt: `--style cartoon`,
+ * `--size 1792x1024` and `--hd`.
+ */
+export function parseImagineCommand(message: string): ImageGenerationRequest | null {
+  const match = message.trim().match(/^\/imagine(?:\s+([\s\S]*))?$/i);
+  if (!match) return null;
+
+  const request: Omit<ImageGenerationRequest, 'prompt'> = {};
+  let rest = (match[1] ?? '').trim();
+  for (;;) {
+    const option = rest.match(/^--(style|size)\s+(\S+)\s*|^--hd\b\s*/i);
+    if (!option) break;
+    const [, name, value] = option;
+    if (!name) {
+      request.quality = 'hd';
+    } else if (name.toLowerCase() === 'style' && IMAGE_STYLES.includes(value.toLowerCase())) {
+      request.style = value.toLowerCase() as ImageGenerationRequest['style'];
+    } else if (name.toLowerCase() === 'size' && IMAGE_SIZES.includes(value.toLowerCase())) {
+      request.size = value.toLowerCase() as ImageGenerationRequest['size'];
+    } else {
+      break;
+    }
+    rest = rest.slice(option[0].length);
+  }
+
+  return rest ? { ...request, prompt: rest } : null;
+}
+
 export interface UserAPIKeys {
   openai_key?: string;
   anthropic_key?: string;
@@ -61,7 +107,7 @@ class ChatFeaturesService {
   /**
    * Create a new conversation branch from a specific message
    */
-  async createBranch(conversationId: string, parentMessageId: string, title: string): Promise<ChatBranch> {
+  async createBranch(conversationId: string, parentMessageId: string | null, title: string): Promise<ChatBranch> {
     try {
       const { data, error } = await supabase
         .from('conversation_branches')
@@ -229,25 +275,31 @@ class ChatFeaturesService {
   // ========================================
 
   /**
-   * Perform web search and return results
+   * Search the web through the search Edge Function; resolves with no
+   * results when searching fails
    */
   async performWebSearch(query: string, maxResults: number = 5): Promise<WebSearchResult[]> {
     try {
-      // Using Brave Search API (free tier available)
-      const response = await fetch('/api/web-search', {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('Sign in to search the web');
+      }
+
+      const { VITE_SUPABASE_URL } = getRuntimeEnv();
+      const response = await fetch(`${VITE_SUPABASE_URL}/functions/v1/search`, {
         method: 'POST',
         headers: {
+          'Authorization': `Bearer ${session.access_token}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ query, maxResults })
       });
 
+      const payload = await response.json().catch(() => ({}));
       if (!response.ok) {
-        throw new Error('Web search failed');
+        throw new Error(payload.error || `Web search failed: ${response.status}`);
       }
-
-      const data = await response.json();
-      return data.results || [];
+      return payload.results || [];
     } catch (error) {
       console.error('Web search error:', error);
       return [];
@@ -279,64 +331,75 @@ class ChatFeaturesService {
   // ========================================
 
   /**
-   * Generate image using AI
+   * Generate an image through the generate-image Edge Function. Costs one
+   * credit (heavy tier for HD); rejects with InsufficientCreditsError when
+   * the balance is empty and with ChatAbortedError when `signal` aborts.
    */
-  async generateImage(request: ImageGenerationRequest, userId: string): Promise<string> {
+  async generateImage(request: ImageGenerationRequest, options: { conversationId?: string; signal?: AbortSignal } = {}): Promise<GeneratedImage> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new ChatStreamError('Sign in to generate images', 'unauthorized');
+    }
+
+    const { VITE_SUPABASE_URL } = getRuntimeEnv();
+    let response: Response;
     try {
-      const response = await fetch('/api/generate-image', {
+      response = await fetch(`${VITE_SUPABASE_URL}/functions/v1/generate-image`, {
         method: 'POST',
         headers: {
+          'Authorization': `Bearer ${session.access_token}`,
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          ...request,
-          userId
-        })
+        body: JSON.stringify({ ...request, conversationId: options.conversationId }),
+        signal: options.signal
       });
-
-      if (!response.ok) {
-        throw new Error('Image generation failed');
-      }
-
-      const data = await response.json();
-      return data.imageUrl;
     } catch (error) {
-      console.error('Image generation error:', error);
+      if (options.signal?.aborted) throw new ChatAbortedError();
       throw error;
     }
+
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      if (payload.code === 'insufficient_credits') {
+        throw new InsufficientCreditsError(payload.error || 'You are out of credits', payload.required_tier);
+      }
+      throw new ChatStreamError(payload.error || `Image generation failed: ${response.status}`, payload.code);
+    }
+    return payload as GeneratedImage;
   }
 
   /**
-   * Save generated image as attachment
+   * Save a generated image as an attachment of the user, with the request
+   * that produced it in the attachment metadata
    */
-  async saveGeneratedImage(imageUrl: string, prompt: string, userId: string) {
+  async saveGeneratedImage(image: GeneratedImage, request: ImageGenerationRequest, userId: string) {
     try {
-      // Download image
-      const response = await fetch(imageUrl);
-      const blob = await response.blob();
-      
-      // Create file object
-      const file = new File([blob], `generated-${Date.now()}.png`, { type: 'image/png' });
-      
-      // Upload as attachment
+      const blob = await (await fetch(image.imageUrl)).blob();
+      const extension = image.mimeType.split('/')[1] || 'png';
+      const file = new File([blob], `generated-${Date.now()}.${extension}`, { type: image.mimeType });
+
       const attachment = await attachmentService.uploadAttachment({
         file,
         userId
       });
 
-      // Add metadata
-      await supabase
+      const metadata = {
+        type: 'generated_image',
+        prompt: request.prompt,
+        ...(image.revisedPrompt ? { revised_prompt: image.revisedPrompt } : {}),
+        style: request.style ?? null,
+        size: request.size ?? '1024x1024',
+        quality: request.quality ?? 'standard',
+        model: image.model,
+        generated_at: new Date().toISOString()
+      };
+      const { error } = await supabase
         .from('attachments')
-        .update({
-          metadata: {
-            type: 'generated_image',
-            prompt: prompt,
-            generated_at: new Date().toISOString()
-          }
-        })
+        .update({ metadata })
         .eq('id', attachment.id);
+      if (error) console.warn('⚠️ Could not store image prompt:', error.message);
 
-      return attachment;
+      return { ...attachment, metadata };
     } catch (error) {
       console.error('Error saving generated image:', error);
       throw error;
@@ -0,0 +1,90 @@
+/**
+ * Chat Request Manager
+ *
+ * Tracks in-flight chat generations per conversation. Generations in
+ * different conversations run in parallel; a second send into a
+ * conversation that is still generating is rejected with
+ * ConversationBusyError. Requests without a conversation (e.g. AI Feud game
+ * prompts) are not tracked and never block each other.
+ *
+ * Each tracked request owns an AbortController so it can be stopped by
+ * conversation id, and listeners are notified whenever the set of
+ * generating conversations changes (used by the sidebar indicator).
+ */
+
+export class ConversationBusyError extends Error {
+  constructor(public conversationId: string) {
+    super('A response is still being generated in this conversation. Please wait or stop it first.');
+    this.name = 'ConversationBusyError';
+  }
+}
+
+type Listener = (generatingIds: string[]) => void;
+
+export class ChatRequestManager {
+  private active = new Map<string, AbortController>();
+  private listeners = new Set<Listener>();
+
+  /**
+   * Register a generation for a conversation. Throws ConversationBusyError
+   * if one is already running there. An external `signal` is forwarded to
+   * the returned controller.
+   */
+  start(conversationId: string, signal?: AbortSignal): AbortController {
+    if (this.active.has(conversationId)) {
+      throw new ConversationBusyError(conversationId);
+    }
+
+    const controller = new AbortController();
+    if (signal) {
+      if (signal.aborted) controller.abort();
+      else signal.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+
+    this.active.set(conversationId, controller);
+    console.log('🔒 Generation started for conversation:', conversationId);
+    this.notify();
+    return controller;
+  }
+
+  /**
+   * Release a conversation. Only the controller that started the request
+   * can release it, so a late cleanup never clears a newer request.
+   */
+  finish(conversationId: string, controller: AbortController): void {
+    if (this.active.get(conversationId) !== controller) return;
+    this.active.delete(conversationId);
+    console.log('🔓 Generation finished for conversation:', conversationId);
+    this.notify();
+  }
+
+  /** Stop the generation running in a conversation, if any */
+  abort(conversationId: string): boolean {
+    const controller = this.active.get(conversationId);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+  }
+
+  isGenerating(conversationId: string | null | undefined): boolean {
+    return !!conversationId && this.active.has(conversationId);
+  }
+
+  getGeneratingIds(): string[] {
+    return Array.from(this.active.keys());
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    const ids = this.getGeneratingIds();
+    this.listeners.forEach(listener => listener(ids));
+  }
+}
+
+export const chatRequestManager = new ChatRequestManager();
@@ -0,0 +1,275 @@
+/**
+ * Chat Stream Client
+ *
+ * Provider-agnostic reader for responses from the chat Edge Functions.
+ * Streaming responses are Server-Sent Events with one JSON payload per
+ * `data:` line:
+ *
+ *   { type: 'chunk', content }            incremental text
+ *   { type: 'reasoning', content }        incremental thought process of a
+ *                                         thinking model
+ *   { type: 'tool_call', id, name, arguments }
+ *   { type: 'tool_result', id, name, result, isError }
+ *                                         a tool the model called and its outcome
+ *   { type: 'complete', content, usage }  final text, token usage, billing and
+ *                                         citations of documents and web results
+ *   { type: 'error', error, code }        failure after streaming started
+ *
+ * Lines split across network reads are buffered until complete. Plain JSON
+ * bodies (`{ response }`) are still accepted when the content type says so.
+ * When the caller aborts mid-stream, the text received so far is surfaced
+ * through ChatAbortedError so it can be kept as a stopped answer.
+ */
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/** Credits charged for an answer; only reported for signed-in users */
+export interface ChatBilling {
+  tier: 'light' | 'medium' | 'heavy';
+  credits: number;
+  costUsd: number | null;
+}
+
+/**
+ * Excerpt of an attached document the answer can cite as `[index]`
+ */
+export interface DocumentCitation {
+  index: number;
+  source: 'document';
+  attachmentId: string;
+  filename: string;
+  /** 1-based PDF page; null for text files */
+  page: number | null;
+}
+
+/**
+ * Web search result the answer can cite as `[index]`
+ */
+export interface WebCitation {
+  index: number;
+  source: 'web';
+  url: string;
+  title: string;
+}
+
+export type ChatCitation = DocumentCitation | WebCitation;
+
+/**
+ * Tool call made while answering; `result` is missing while it runs
+ */
+export interface ToolStep {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments */
+  arguments: string;
+  result?: string;
+  isError?: boolean;
+}
+
+export type ChatStreamEvent =
+  | { type: 'chunk'; content: string }
+  | { type: 'reasoning'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: string }
+  | { type: 'tool_result'; id: string; name: string; result: string; isError: boolean }
+  | {
+      type: 'complete';
+      content: string;
+      model?: string;
+      usage?: ChatUsage;
+      billing?: ChatBilling;
+      citations?: ChatCitation[];
+      toolSteps?: ToolStep[];
+      reasoning?: string;
+      messageCount?: number;
+      messageLimit?: number;
+    }
+  | { type: 'error'; error: string; code?: string };
+
+export interface ChatStreamResult {
+  content: string;
+  model?: string;
+  usage?: ChatUsage;
+  billing?: ChatBilling;
+  citations?: ChatCitation[];
+  toolSteps?: ToolStep[];
+  reasoning?: string;
+  messageCount?: number;
+  messageLimit?: number;
+}
+
+/**
+ * Error reported by the chat backend, either as a JSON error body or as an
+ * SSE `error` event. `code` mirrors the server-side ChatErrorCode.
+ */
+export class ChatStreamError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
+/**
+ * Raised when the caller aborts a generation. `partialContent` holds the
+ * text streamed before the abort (empty if nothing arrived yet).
+ */
+export class ChatAbortedError extends ChatStreamError {
+  constructor(public partialContent: string = '') {
+    super('Generation stopped', 'aborted');
+    this.name = 'ChatAbortedError';
+  }
+}
+
+/**
+ * Raised when the signed-in user has no credits left for the requested
+ * model (HTTP 402 `insufficient_credits`). The UI turns this into an upsell.
+ */
+export class InsufficientCreditsError extends ChatStreamError {
+  constructor(message: string, public requiredTier?: string) {
+    super(message, 'insufficient_credits');
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+/**
+ * Split a buffered SSE string into complete `data:` payloads, returning the
+ * unfinished remainder so it can be prepended to the next read.
+ */
+export function extractSSEPayloads(buffer: string): { payloads: string[]; rest: string } {
+  const lines = buffer.split('\n');
+  const rest = lines.pop() ?? '';
+  const payloads: string[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('data:')) continue;
+    const payload = trimmed.slice(5).trim();
+    if (payload && payload !== '[DONE]') payloads.push(payload);
+  }
+
+  return { payloads, rest };
+}
+
+/**
+ * Consume a chat response, invoking `onChunk` for every incremental piece of
+ * text, and resolve with the final content once the stream completes.
+ * Pass the same `signal` that was given to `fetch` so aborts keep the
+ * partial text. `onToolSteps` receives all tool steps so far whenever a
+ * call starts or finishes, `onReasoning` every piece of a thinking model's
+ * thought process.
+ */
+export async function readChatResponse(
+  response: Response,
+  onChunk?: (chunk: string) => void,
+  signal?: AbortSignal,
+  onToolSteps?: (steps: ToolStep[]) => void,
+  onReasoning?: (chunk: string) => void
+): Promise<ChatStreamResult> {
+  const contentType = response.headers.get('content-type') || '';
+
+  if (!contentType.includes('text/event-stream')) {
+    if (!contentType.includes('application/json')) {
+      throw new ChatStreamError(`Unexpected response type: ${contentType || 'unknown'}`);
+    }
+    const data = await response.json();
+    if (data.error) throw new ChatStreamError(data.error, data.code);
+    const content: string = data.response || '';
+    if (data.reasoning) onReasoning?.(data.reasoning);
+    if (content) onChunk?.(content);
+    return {
+      content,
+      model: data.model,
+      usage: data.usage,
+      billing: data.billing,
+      citations: data.citations,
+      toolSteps: data.toolSteps,
+      reasoning: data.reasoning,
+      messageCount: data.messageCount,
+      messageLimit: data.messageLimit
+    };
+  }
+
+  if (!response.body) {
+    throw new ChatStreamError('No response body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let streamed = '';
+  let reasoning = '';
+  let toolSteps: ToolStep[] = [];
+  let result: ChatStreamResult | null = null;
+
+  const handlePayload = (payload: string) => {
+    let event: ChatStreamEvent;
+    try {
+      event = JSON.parse(payload);
+    } catch (parseError) {
+      console.warn('⚠️ Failed to parse streaming chunk:', parseError, 'Payload:', payload);
+      return;
+    }
+
+    if (event.type === 'chunk' && event.content) {
+      streamed += event.content;
+      onChunk?.(event.content);
+    } else if (event.type === 'reasoning' && event.content) {
+      reasoning += event.content;
+      onReasoning?.(event.content);
+    } else if (event.type === 'tool_call') {
+      toolSteps = [...toolSteps, { id: event.id, name: event.name, arguments: event.arguments }];
+      onToolSteps?.(toolSteps);
+    } else if (event.type === 'tool_result') {
+      toolSteps = toolSteps.map(step =>
+        step.id === event.id ? { ...step, result: event.result, isError: event.isError } : step
+      );
+      onToolSteps?.(toolSteps);
+    } else if (event.type === 'complete') {
+      result = {
+        content: event.content?.trim() ? event.content : streamed,
+        model: event.model,
+        usage: event.usage,
+        billing: event.billing,
+        citations: event.citations,
+        toolSteps: event.toolSteps ?? (toolSteps.length > 0 ? toolSteps : undefined),
+        reasoning: event.reasoning ?? (reasoning || undefined),
+        messageCount: event.messageCount,
+        messageLimit: event.messageLimit
+      };
+    } else if (event.type === 'error') {
+      throw new ChatStreamError(event.error || 'Streaming failed', event.code);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const { payloads, rest } = extractSSEPayloads(buffer);
+      buffer = rest;
+      payloads.forEach(handlePayload);
+    }
+
+    // Flush a final event that was not newline-terminated
+    buffer += decoder.decode();
+    extractSSEPayloads(buffer + '\n').payloads.forEach(handlePayload);
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ChatAbortedError(streamed);
+    }
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+
+  return result ?? {
+    content: streamed,
+    ...(toolSteps.length > 0 ? { toolSteps } : {}),
+    ...(reasoning ? { reasoning } : {})
+  };
+}
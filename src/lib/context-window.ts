@@ -0,0 +1,262 @@
+/**
+ * Context Window
+ *
+ * Keeps chat requests within the model's context length. The newest turns
+ * are always sent verbatim; when the whole history no longer fits, older
+ * turns are replaced by a rolling summary that is stored on the conversation
+ * (`metadata.context_summary`) and extended as more turns fall out of the
+ * window. If no summary can be made, the older turns are simply left out.
+ * Summary requests (`purpose: 'context_summary'`) run with the Edge
+ * Function's own instructions and cost a light-tier credit each; they do not
+ * count as messages.
+ *
+ * Token counts are estimates: providers tokenize differently, so the budget
+ * keeps a safety margin instead of relying on exact numbers. Attached images
+ * count as a fixed amount each; beyond MAX_IMAGES_PER_REQUEST only the newest
+ * are sent, and summarized turns keep just a note that images were shared.
+ * Excerpts of attached documents are added by the Edge Function, so a fixed
+ * amount is set aside for them.
+ */
+
+import { sendChatMessage, ChatAbortedError, type ChatMessage } from './supabase-chat'
+import { getModelParameterLimits, resolveGenerationParameters } from '../models/registry'
+import { MAX_IMAGES_PER_REQUEST } from './attachments'
+
+export interface ContextSummary {
+  content: string
+  /** Last message of the active path folded into the summary */
+  through_message_id: string
+  /** Messages the summary stands in for */
+  message_count: number
+  updated_at: string
+}
+
+export interface ContextCompaction {
+  mode: 'summarized' | 'trimmed'
+  /** Older messages that were not sent verbatim */
+  omittedCount: number
+}
+
+export interface ContextMessage extends ChatMessage {
+  id: string
+}
+
+export interface ChatContextOptions {
+  /** Active path, oldest first, ending with the prompt being answered */
+  path: ContextMessage[]
+  modelCode: string
+  /** Requested answer length; defaults to what the Edge Function uses */
+  maxTokens?: number
+  systemPrompt?: string
+  summary?: ContextSummary | null
+  /** Documents are attached, so room is kept for their excerpts */
+  withDocuments?: boolean
+  /** Web search is on, so room is kept for the results */
+  withWebResults?: boolean
+  /** Aborts summary requests, e.g. when the user stops the answer */
+  signal?: AbortSignal
+}
+
+export interface ChatContext {
+  messages: ChatMessage[]
+  /** Summary to send along with `messages`, if any turns were summarized */
+  summary: ContextSummary | null
+  /** True when `summary` was (re)generated and should be stored */
+  summaryChanged: boolean
+  compaction: ContextCompaction | null
+}
+
+// Answer length the Edge Function uses when none is requested
+const DEFAULT_OUTPUT_TOKENS = 4096
+// Default system prompt, role markers and estimation error
+const RESERVED_TOKENS = 512
+const SAFETY_MARGIN = 0.1
+const PER_MESSAGE_TOKENS = 4
+// Typical cost of an image after prepareFile scales it to at most 1200px
+const PER_IMAGE_TOKENS = 1600
+// Room kept for the summary itself
+const SUMMARY_TOKENS = 1024
+// Document excerpts the Edge Function adds (about 9000 characters plus labels)
+const DOCUMENT_CONTEXT_TOKENS = 2500
+// Web results the Edge Function adds (five titles, URLs and snippets)
+const WEB_CONTEXT_TOKENS = 1000
+// After summarizing, the kept turns fill at most this share of the budget, so
+// the summary is refreshed every few turns rather than on every message
+const KEEP_RATIO = 0.75
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g
+
+/**
+ * Rough token count: about four characters per token, one per CJK character
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0
+  return Math.ceil(cjk + (text.length - cjk) / 4)
+}
+
+export function estimateMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) =>
+    total + estimateTokens(message.content) + PER_MESSAGE_TOKENS + (message.attachments?.length ?? 0) * PER_IMAGE_TOKENS, 0)
+}
+
+/**
+ * Prompt tokens available for history, after the answer and system prompt
+ */
+export function getContextBudget(modelCode: string, maxTokens?: number, systemPrompt?: string): number {
+  const limits = getModelParameterLimits(modelCode)
+  const output = maxTokens ?? Math.min(DEFAULT_OUTPUT_TOKENS, limits.maxOutputTokens)
+  const available = limits.contextWindow * (1 - SAFETY_MARGIN) - output - RESERVED_TOKENS
+  return Math.max(0, Math.floor(available - estimateTokens(systemPrompt ?? '')))
+}
+
+/**
+ * Split the path into older turns and the newest turns that fit `budget`.
+ * The last message is always kept.
+ */
+function splitToFit(path: ContextMessage[], budget: number): { omitted: ContextMessage[]; kept: ContextMessage[] } {
+  let used = 0
+  let start = path.length
+  while (start > 0) {
+    const cost = estimateMessageTokens([path[start - 1]])
+    if (start < path.length && used + cost > budget) break
+    used += cost
+    start--
+  }
+  return { omitted: path.slice(0, start), kept: path.slice(start) }
+}
+
+/**
+ * Strip the ids used for bookkeeping and leave out the oldest images once
+ * the request holds more than the Edge Function accepts
+ */
+function toApi(messages: ContextMessage[]): ChatMessage[] {
+  let images = 0
+  return messages
+    .slice()
+    .reverse()
+    .map(({ type, content, attachments }): ChatMessage => {
+      const kept = (attachments ?? []).slice(0, Math.max(0, MAX_IMAGES_PER_REQUEST - images))
+      images += kept.length
+      return kept.length > 0 ? { type, content, attachments: kept } : { type, content }
+    })
+    .reverse()
+}
+
+/**
+ * Fold `turns` into `previous`, in as many requests as the context needs
+ */
+async function summarizeTurns(
+  previous: string | null,
+  turns: ContextMessage[],
+  modelCode: string,
+  signal?: AbortSignal
+): Promise<string> {
+  // The summary instructions are short and covered by RESERVED_TOKENS
+  const budget = getContextBudget(modelCode, SUMMARY_TOKENS)
+  let summary = previous
+  let index = 0
+
+  while (index < turns.length) {
+    let transcript = ''
+    while (index < turns.length) {
+      const turn = turns[index]
+      const images = turn.attachments?.length ? ` [${turn.attachments.length} image(s) attached]` : ''
+      const line = `${turn.type === 'user' ? 'User' : 'Assistant'}: ${turn.content}${images}\n\n`
+      const used = estimateTokens((summary ?? '') + transcript + line)
+      // A single oversized turn is cut rather than skipped
+      if (used > budget && transcript) break
+      transcript += used > budget ? line.slice(0, Math.max(0, budget - estimateTokens(summary ?? '')) * 4) : line
+      index++
+    }
+
+    const prompt = `${summary ? `Previous summary:\n${summary}\n\n` : ''}New turns:\n${transcript}`
+    summary = (await sendChatMessage(
+      [{ type: 'user', content: prompt }],
+      modelCode,
+      undefined,
+      undefined,
+      signal,
+      {
+        purpose: 'context_summary',
+        ...resolveGenerationParameters({ temperature: 0.2, maxTokens: SUMMARY_TOKENS }, modelCode)
+      }
+    )).trim()
+  }
+
+  return summary ?? ''
+}
+
+/**
+ * Messages to send for the next answer, summarizing older turns if needed
+ */
+export async function buildChatContext({
+  path,
+  modelCode,
+  maxTokens,
+  systemPrompt,
+  summary = null,
+  withDocuments = false,
+  withWebResults = false,
+  signal
+}: ChatContextOptions): Promise<ChatContext> {
+  const reserved = (withDocuments ? DOCUMENT_CONTEXT_TOKENS : 0) + (withWebResults ? WEB_CONTEXT_TOKENS : 0)
+  const budget = Math.max(0, getContextBudget(modelCode, maxTokens, systemPrompt) - reserved)
+  if (estimateMessageTokens(path) <= budget) {
+    return { messages: toApi(path), summary: null, summaryChanged: false, compaction: null }
+  }
+
+  // The stored summary only applies while its last message is on this path
+  const summarizedThrough = summary ? path.findIndex(message => message.id === summary.through_message_id) : -1
+  const storedSummary = summarizedThrough >= 0 ? summary : null
+
+  if (storedSummary) {
+    const rest = path.slice(summarizedThrough + 1)
+    if (rest.length > 0 && estimateMessageTokens(rest) + estimateTokens(storedSummary.content) <= budget) {
+      return {
+        messages: toApi(rest),
+        summary: storedSummary,
+        summaryChanged: false,
+        compaction: { mode: 'summarized', omittedCount: summarizedThrough + 1 }
+      }
+    }
+  }
+
+  const { omitted, kept } = splitToFit(path, Math.max(0, budget - SUMMARY_TOKENS) * KEEP_RATIO)
+  // Only the prompt is left, and it does not fit on its own; let the provider decide
+  if (omitted.length === 0) {
+    return { messages: toApi(path), summary: null, summaryChanged: false, compaction: null }
+  }
+
+  const reuse = storedSummary && summarizedThrough < omitted.length
+  const pending = reuse ? omitted.slice(summarizedThrough + 1) : omitted
+
+  try {
+    const content = await summarizeTurns(reuse ? storedSummary.content : null, pending, modelCode, signal)
+    if (!content) throw new Error('Empty summary')
+
+    console.log(`🗜️ Summarized ${omitted.length} earlier messages to fit ${modelCode}`)
+    return {
+      messages: toApi(kept),
+      summary: {
+        content,
+        through_message_id: omitted[omitted.length - 1].id,
+        message_count: omitted.length,
+        updated_at: new Date().toISOString()
+      },
+      summaryChanged: pending.length > 0,
+      compaction: { mode: 'summarized', omittedCount: omitted.length }
+    }
+  } catch (error) {
+    // A stopped answer needs no context; the partial summary is not part of it
+    if (signal?.aborted) throw new ChatAbortedError()
+    console.warn('⚠️ Could not summarize history, sending recent messages only:', error)
+    const { omitted: dropped, kept: recent } = splitToFit(path, budget)
+    return {
+      messages: toApi(recent),
+      summary: null,
+      summaryChanged: false,
+      compaction: { mode: 'trimmed', omittedCount: dropped.length }
+    }
+  }
+}
@@ -0,0 +1,405 @@
+/**
+ * Conversation Export
+ *
+ * Serializes conversations to Markdown, a versioned JSON document and a
+ * self-contained HTML page styled with the active theme.
+ *
+ * Branches (messages linked through `parent_message_id`) are preserved: the
+ * JSON export keeps the raw parent links, while Markdown and HTML render the
+ * main thread first and then every branch, labelled with the message it
+ * branched from (see `message-tree.ts` for how parents are resolved).
+ */
+
+import { createElement } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import ReactMarkdown from 'react-markdown'
+import remarkGfm from 'remark-gfm'
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import { AVAILABLE_THEMES } from '../theme/registry'
+import { buildChildren, ROOT_KEY } from './message-tree'
+
+type Conversation = Database['public']['Tables']['conversations']['Row']
+type MessageRow = Database['public']['Tables']['messages']['Row']
+
+export type ExportFormat = 'markdown' | 'json' | 'html'
+
+/** Bumped whenever the JSON layout changes incompatibly */
+export const EXPORT_SCHEMA_VERSION = 1
+export const EXPORT_FORMAT_ID = 'bellosai.conversations'
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown (.md)',
+  json: 'JSON (.json)',
+  html: 'HTML (.html)',
+}
+
+export interface ExportedAttachment {
+  id: string
+  /** Missing when the attachment record no longer exists */
+  filename?: string
+  file_type?: string
+  file_size?: number
+  storage_path?: string
+}
+
+export interface ExportedMessage {
+  id: string
+  /** Raw `parent_message_id`; null for root or linear messages */
+  parent_id: string | null
+  role: 'user' | 'assistant'
+  content: string
+  model: string | null
+  created_at: string
+  attachments: ExportedAttachment[]
+  metadata: Record<string, unknown> | null
+}
+
+export interface ExportedConversation {
+  id: string
+  title: string
+  model: string
+  created_at: string
+  updated_at: string
+  /** Chronological order */
+  messages: ExportedMessage[]
+}
+
+export interface BelloSaiExport {
+  format: typeof EXPORT_FORMAT_ID
+  version: typeof EXPORT_SCHEMA_VERSION
+  exported_at: string
+  conversations: ExportedConversation[]
+}
+
+export interface ExportThemeOptions {
+  themeId: string
+  isDark: boolean
+}
+
+interface Thread {
+  /** Message this thread branched from; null for the main thread or an alternative start */
+  branchFrom: string | null
+  messages: ExportedMessage[]
+}
+
+// Supabase caps a single select at 1000 rows
+const PAGE_SIZE = 1000
+const ID_CHUNK_SIZE = 100
+
+/**
+ * Split a conversation into its main thread followed by every branch. Like
+ * the branch switcher's default, the main thread follows the newest reply
+ * at every fork; the older ones become branches.
+ */
+function toThreads(messages: ExportedMessage[]): Thread[] {
+  const byId = new Map(messages.map(m => [m.id, m]))
+  const children = buildChildren(messages.map(m => ({ id: m.id, parentId: m.parent_id })))
+  const childrenOf = (key: string) => (children.get(key) || []).map(node => byId.get(node.id)!)
+
+  const roots = childrenOf(ROOT_KEY)
+  const pending: Thread[] = [...roots.slice(-1), ...roots.slice(0, -1)]
+    .map(root => ({ branchFrom: null, messages: [root] }))
+  const threads: Thread[] = []
+
+  while (pending.length > 0) {
+    const thread = pending.shift()!
+    let current: ExportedMessage | undefined = thread.messages[0]
+    while (current) {
+      const parentId: string = current.id
+      const next = childrenOf(parentId)
+      next.slice(0, -1).forEach(alt => pending.push({ branchFrom: parentId, messages: [alt] }))
+      current = next[next.length - 1]
+      if (current) thread.messages.push(current)
+    }
+    threads.push(thread)
+  }
+
+  return threads
+}
+
+function messageNumbers(conversation: ExportedConversation): Map<string, number> {
+  return new Map(conversation.messages.map((m, i) => [m.id, i + 1]))
+}
+
+function threadHeading(thread: Thread, index: number, numbers: Map<string, number>): string | null {
+  if (index === 0) return null
+  return thread.branchFrom
+    ? `Branch from message #${numbers.get(thread.branchFrom)}`
+    : 'Alternative start'
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString()
+}
+
+function attachmentLabel(attachment: ExportedAttachment): string {
+  if (!attachment.filename) return `attachment ${attachment.id}`
+  return attachment.file_type ? `${attachment.filename} (${attachment.file_type})` : attachment.filename
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Markdown transcript: metadata header, main thread, then branches
+ */
+export function toMarkdown(conversation: ExportedConversation): string {
+  const numbers = messageNumbers(conversation)
+  const lines: string[] = [
+    `# ${conversation.title || 'Untitled Conversation'}`,
+    '',
+    `- Model: ${conversation.model}`,
+    `- Created: ${formatDate(conversation.created_at)}`,
+    `- Exported: ${formatDate(new Date().toISOString())}`,
+    '',
+  ]
+
+  toThreads(conversation.messages).forEach((thread, index) => {
+    const heading = threadHeading(thread, index, numbers)
+    if (heading) lines.push('---', '', `## ${heading}`, '')
+
+    thread.messages.forEach(message => {
+      const author = message.role === 'user' ? 'User' : 'Assistant'
+      const model = message.role === 'assistant' && message.model ? ` · ${message.model}` : ''
+      lines.push(`### #${numbers.get(message.id)} ${author}${model} · ${formatDate(message.created_at)}`, '')
+      lines.push(message.content || '_(empty)_', '')
+      if (message.attachments.length > 0) {
+        lines.push(`Attachments: ${message.attachments.map(attachmentLabel).join(', ')}`, '')
+      }
+    })
+  })
+
+  return lines.join('\n')
+}
+
+/**
+ * Versioned JSON document; also the format accepted by the importer
+ */
+export function toExportJSON(conversations: ExportedConversation[]): string {
+  const document: BelloSaiExport = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    conversations,
+  }
+  return JSON.stringify(document, null, 2)
+}
+
+/**
+ * Standalone HTML page using the colors and font of the given theme
+ */
+export function toHTML(conversation: ExportedConversation, { themeId, isDark }: ExportThemeOptions): string {
+  const theme = AVAILABLE_THEMES.find(t => t.id === themeId) || AVAILABLE_THEMES[0]
+  const palette = (isDark ? theme.dark : theme.light) || {
+    backgroundColor: theme.backgroundColor,
+    textColor: theme.textColor,
+    surfaceColor: isDark ? '#1f2937' : '#ffffff',
+  }
+  const numbers = messageNumbers(conversation)
+  const title = escapeHtml(conversation.title || 'Untitled Conversation')
+
+  const body = toThreads(conversation.messages).map((thread, index) => {
+    const heading = threadHeading(thread, index, numbers)
+    const messages = thread.messages.map(message => {
+      const author = message.role === 'user' ? 'User' : 'Assistant'
+      const model = message.role === 'assistant' && message.model
+        ? `<span class="model">${escapeHtml(message.model)}</span>`
+        : ''
+      const content = renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, message.content))
+      const attachments = message.attachments.length > 0
+        ? `<p class="attachments">Attachments: ${message.attachments.map(a => escapeHtml(attachmentLabel(a))).join(', ')}</p>`
+        : ''
+      return `<article class="message ${message.role}" id="m${numbers.get(message.id)}">
+  <header><strong>#${numbers.get(message.id)} ${author}</strong>${model}<time>${escapeHtml(formatDate(message.created_at))}</time></header>
+  <div class="content">${content}</div>${attachments}
+</article>`
+    }).join('\n')
+    return `${heading ? `<h2>${escapeHtml(heading)}</h2>\n` : ''}<section>${messages}</section>`
+  }).join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+  body { margin: 0; padding: 2rem 1rem; background: ${palette.backgroundColor}; color: ${palette.textColor}; font-family: ${theme.fontFamily}, system-ui, sans-serif; line-height: 1.6; }
+  main { max-width: 48rem; margin: 0 auto; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { opacity: 0.7; font-size: 0.875rem; margin-bottom: 2rem; }
+  h2 { margin-top: 2.5rem; padding-top: 1rem; border-top: 1px solid ${theme.primaryColor}55; font-size: 1.125rem; }
+  .message { background: ${palette.surfaceColor}; border-radius: ${theme.borderRadius}; padding: 1rem 1.25rem; margin: 1rem 0;${theme.shadows ? ' box-shadow: 0 1px 3px rgba(0,0,0,0.12);' : ''} }
+  .message.user { border-left: 4px solid ${theme.primaryColor}; }
+  .message.assistant { border-left: 4px solid ${theme.secondaryColor}; }
+  .message header { display: flex; gap: 0.75rem; align-items: center; font-size: 0.875rem; }
+  .message time { margin-left: auto; opacity: 0.6; }
+  .model { background: ${theme.secondaryColor}; color: #fff; border-radius: 999px; padding: 0.1rem 0.6rem; font-size: 0.75rem; }
+  .content pre { overflow-x: auto; padding: 0.75rem; border-radius: 0.5rem; background: rgba(0,0,0,0.8); color: #f3f4f6; }
+  .content code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.875em; }
+  .content table { border-collapse: collapse; }
+  .content th, .content td { border: 1px solid ${theme.primaryColor}44; padding: 0.25rem 0.5rem; }
+  .attachments { font-size: 0.8rem; opacity: 0.7; }
+  a { color: ${theme.primaryColor}; }
+</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p class="meta">${escapeHtml(conversation.model)} · Created ${escapeHtml(formatDate(conversation.created_at))} · Exported from BelloSai ${escapeHtml(formatDate(new Date().toISOString()))}</p>
+${body}
+</main>
+</body>
+</html>
+`
+}
+
+function fileSlug(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+  return slug || 'conversation'
+}
+
+function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+class ConversationExportService {
+  /**
+   * Download a single conversation in the requested format
+   */
+  async exportConversation(conversationId: string, format: ExportFormat, theme: ExportThemeOptions): Promise<void> {
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('id', conversationId)
+      .single()
+
+    if (error) throw error
+
+    const [exported] = await this.buildExport([conversation])
+    const date = new Date().toISOString().slice(0, 10)
+    const basename = `${fileSlug(exported.title)}-${date}`
+
+    switch (format) {
+      case 'markdown':
+        downloadFile(`${basename}.md`, toMarkdown(exported), 'text/markdown;charset=utf-8')
+        break
+      case 'json':
+        downloadFile(`${basename}.json`, toExportJSON([exported]), 'application/json')
+        break
+      case 'html':
+        downloadFile(`${basename}.html`, toHTML(exported, theme), 'text/html;charset=utf-8')
+        break
+    }
+  }
+
+  /**
+   * Download every conversation the user owns as one JSON document
+   */
+  async exportAllData(userId: string): Promise<number> {
+    const { data: conversations, error } = await supabase
+      .from('conversations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+
+    const exported = await this.buildExport(conversations || [])
+    const date = new Date().toISOString().slice(0, 10)
+    downloadFile(`bellosai-export-${date}.json`, toExportJSON(exported), 'application/json')
+    console.log(`📦 Exported ${exported.length} conversations`)
+    return exported.length
+  }
+
+  private async buildExport(conversations: Conversation[]): Promise<ExportedConversation[]> {
+    const messages = await this.fetchMessages(conversations.map(c => c.id))
+    const attachments = await this.fetchAttachments(messages)
+
+    const byConversation = new Map<string, MessageRow[]>()
+    messages.forEach(message => {
+      const list = byConversation.get(message.conversation_id) || []
+      list.push(message)
+      byConversation.set(message.conversation_id, list)
+    })
+
+    return conversations.map(conversation => ({
+      id: conversation.id,
+      title: conversation.title,
+      model: conversation.model,
+      created_at: conversation.created_at,
+      updated_at: conversation.updated_at,
+      messages: (byConversation.get(conversation.id) || []).map(message => ({
+        id: message.id,
+        parent_id: message.parent_message_id,
+        role: message.type === 'user' ? 'user' : 'assistant',
+        content: message.content,
+        model: message.model,
+        created_at: message.created_at,
+        attachments: (message.attachments || []).map(id => attachments.get(id) || { id }),
+        metadata: message.metadata,
+      })),
+    }))
+  }
+
+  private async fetchMessages(conversationIds: string[]): Promise<MessageRow[]> {
+    const rows: MessageRow[] = []
+
+    for (let i = 0; i < conversationIds.length; i += ID_CHUNK_SIZE) {
+      const chunk = conversationIds.slice(i, i + ID_CHUNK_SIZE)
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('*')
+          .in('conversation_id', chunk)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1)
+
+        if (error) throw error
+        rows.push(...(data || []))
+        if (!data || data.length < PAGE_SIZE) break
+      }
+    }
+
+    return rows.sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }
+
+  private async fetchAttachments(messages: MessageRow[]): Promise<Map<string, ExportedAttachment>> {
+    const ids = Array.from(new Set(messages.flatMap(m => m.attachments || [])))
+    const attachments = new Map<string, ExportedAttachment>()
+
+    for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+      const { data, error } = await supabase
+        .from('attachments')
+        .select('id, filename, file_type, file_size, storage_path')
+        .in('id', ids.slice(i, i + ID_CHUNK_SIZE))
+
+      if (error) {
+        console.warn('Failed to load attachment details for export:', error)
+        break
+      }
+      for (const row of (data || []) as ExportedAttachment[]) {
+        attachments.set(row.id, row)
+      }
+    }
+
+    return attachments
+  }
+}
+
+export const conversationExportService = new ConversationExportService()
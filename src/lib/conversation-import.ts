@@ -0,0 +1,442 @@
+/**
+ * Conversation Import
+ *
+ * Reads conversation history exported from BelloSai or another assistant
+ * and stores it through `conversationService`. Supported sources:
+ * - BelloSai JSON export (see `conversation-export.ts`)
+ * - ChatGPT `conversations.json` (branching `mapping` tree)
+ * - Claude `conversations.json` (`chat_messages` list)
+ *
+ * Original timestamps, model names and branch structure are kept where the
+ * source provides them. Anything that cannot be mapped (system/tool turns,
+ * empty messages, malformed conversations) is skipped and listed in the
+ * returned report instead of failing the whole import.
+ */
+
+import { conversationService, type ImportMessageData } from './conversations'
+import { EXPORT_FORMAT_ID, EXPORT_SCHEMA_VERSION } from './conversation-export'
+import { resolveParents } from './message-tree'
+
+export type ImportSource = 'bellosai' | 'chatgpt' | 'claude'
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  bellosai: 'BelloSai',
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+}
+
+export interface ImportIssue {
+  /** Position of the conversation in the source file */
+  index: number
+  title?: string
+  reason: string
+}
+
+export interface ImportReport {
+  source: ImportSource
+  importedConversations: number
+  importedMessages: number
+  skipped: ImportIssue[]
+}
+
+interface ParsedMessage {
+  /** Identifier in the source file, used to rebuild parent links */
+  key: string
+  parentKey: string | null
+  role: 'user' | 'assistant'
+  content: string
+  model: string | null
+  created_at: string
+  metadata: Record<string, unknown> | null
+}
+
+interface ParsedConversation {
+  index: number
+  title: string
+  model: string
+  created_at: string
+  updated_at: string
+  messages: ParsedMessage[]
+  /** Messages dropped while parsing this conversation */
+  skippedMessages: number
+}
+
+interface ParsedImport {
+  source: ImportSource
+  conversations: ParsedConversation[]
+  skipped: ImportIssue[]
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ImportFormatError'
+  }
+}
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null
+}
+
+/** Accepts ISO strings and Unix seconds (ChatGPT) */
+function toIsoDate(value: unknown, fallback: string): string {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value * 1000).toISOString()
+  }
+  if (typeof value === 'string') {
+    const time = Date.parse(value)
+    if (!Number.isNaN(time)) return new Date(time).toISOString()
+  }
+  return fallback
+}
+
+function lastAssistantModel(messages: ParsedMessage[]): string | null {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'assistant' && messages[i].model) return messages[i].model
+  }
+  return null
+}
+
+/**
+ * Point messages whose parent was skipped (or never existed) at the closest
+ * kept ancestor, or make them roots.
+ */
+function relinkParents(messages: ParsedMessage[], parentOf: Map<string, string | null>): void {
+  const kept = new Set(messages.map(m => m.key))
+  messages.forEach(message => {
+    let parent = message.parentKey
+    const seen = new Set<string>()
+    while (parent && !kept.has(parent) && !seen.has(parent)) {
+      seen.add(parent)
+      parent = parentOf.get(parent) ?? null
+    }
+    message.parentKey = parent && kept.has(parent) ? parent : null
+  })
+}
+
+function parseBelloSai(document: JsonObject): ParsedImport {
+  const version = document.version
+  if (typeof version !== 'number' || version > EXPORT_SCHEMA_VERSION) {
+    throw new ImportFormatError(`Unsupported BelloSai export version: ${String(version)}`)
+  }
+
+  const skipped: ImportIssue[] = []
+  const conversations: ParsedConversation[] = []
+  const entries = Array.isArray(document.conversations) ? document.conversations : []
+  const now = new Date().toISOString()
+
+  entries.forEach((entry, index) => {
+    if (!isObject(entry) || !Array.isArray(entry.messages)) {
+      skipped.push({ index, reason: 'Malformed conversation entry' })
+      return
+    }
+    const title = asString(entry.title) || 'Imported conversation'
+    const parentOf = new Map<string, string | null>()
+    const messages: ParsedMessage[] = []
+    let skippedMessages = 0
+
+    entry.messages.forEach(raw => {
+      if (isObject(raw) && asString(raw.id)) parentOf.set(raw.id as string, asString(raw.parent_id))
+      const content = isObject(raw) ? raw.content : undefined
+      if (!isObject(raw) || !asString(raw.id) || (raw.role !== 'user' && raw.role !== 'assistant') || typeof content !== 'string') {
+        skippedMessages++
+        return
+      }
+      const attachments = Array.isArray(raw.attachments)
+        ? raw.attachments.map(a => (isObject(a) ? asString(a.filename) || asString(a.id) : null)).filter((a): a is string => !!a)
+        : []
+      const metadata = isObject(raw.metadata) ? { ...raw.metadata } : {}
+      if (attachments.length > 0) metadata.imported_attachments = attachments
+
+      messages.push({
+        key: raw.id as string,
+        parentKey: asString(raw.parent_id),
+        role: raw.role,
+        content,
+        model: asString(raw.model),
+        created_at: toIsoDate(raw.created_at, now),
+        metadata: Object.keys(metadata).length > 0 ? metadata : null,
+      })
+    })
+
+    relinkParents(messages, parentOf)
+    // Older exports of linear conversations carry no parent links; store the chain explicitly
+    const parents = resolveParents(messages.map(m => ({ id: m.key, parentId: m.parentKey })))
+    messages.forEach(m => { m.parentKey = parents.get(m.key) ?? null })
+
+    const created = toIsoDate(entry.created_at, messages[0]?.created_at || now)
+    conversations.push({
+      index,
+      title,
+      model: asString(entry.model) || lastAssistantModel(messages) || 'unknown',
+      created_at: created,
+      updated_at: toIsoDate(entry.updated_at, messages[messages.length - 1]?.created_at || created),
+      messages,
+      skippedMessages,
+    })
+  })
+
+  return { source: 'bellosai', conversations, skipped }
+}
+
+function chatGptText(content: unknown): string | null {
+  if (!isObject(content)) return null
+  if (content.content_type === 'text' && Array.isArray(content.parts)) {
+    const text = content.parts.filter((p): p is string => typeof p === 'string').join('\n')
+    return text.trim() ? text : null
+  }
+  if (content.content_type === 'code' && typeof content.text === 'string') {
+    return '```\n' + content.text + '\n```'
+  }
+  return null
+}
+
+function parseChatGpt(entries: unknown[]): ParsedImport {
+  const skipped: ImportIssue[] = []
+  const conversations: ParsedConversation[] = []
+  const now = new Date().toISOString()
+
+  entries.forEach((entry, index) => {
+    if (!isObject(entry) || !isObject(entry.mapping)) {
+      skipped.push({ index, reason: 'Malformed conversation entry' })
+      return
+    }
+    const title = asString(entry.title) || 'Imported ChatGPT conversation'
+    const parentOf = new Map<string, string | null>()
+    const messages: ParsedMessage[] = []
+    let skippedMessages = 0
+
+    Object.entries(entry.mapping).forEach(([nodeId, node]) => {
+      if (!isObject(node)) return
+      parentOf.set(nodeId, asString(node.parent))
+
+      const message = node.message
+      if (!isObject(message)) return
+      const role = isObject(message.author) ? message.author.role : undefined
+      // System prompts, tool calls and hidden turns have no BelloSai equivalent
+      if (role !== 'user' && role !== 'assistant') return
+
+      const text = chatGptText(message.content)
+      if (!text) {
+        skippedMessages++
+        return
+      }
+      const metadata = isObject(message.metadata) ? message.metadata : {}
+      messages.push({
+        key: nodeId,
+        parentKey: asString(node.parent),
+        role,
+        content: text,
+        model: role === 'assistant' ? asString(metadata.model_slug) : null,
+        created_at: toIsoDate(message.create_time, toIsoDate(entry.create_time, now)),
+        metadata: { imported_from: 'chatgpt' },
+      })
+    })
+
+    relinkParents(messages, parentOf)
+    messages.sort((a, b) => a.created_at.localeCompare(b.created_at))
+
+    const created = toIsoDate(entry.create_time, messages[0]?.created_at || now)
+    conversations.push({
+      index,
+      title,
+      model: asString(entry.default_model_slug) || lastAssistantModel(messages) || 'chatgpt',
+      created_at: created,
+      updated_at: toIsoDate(entry.update_time, created),
+      messages,
+      skippedMessages,
+    })
+  })
+
+  return { source: 'chatgpt', conversations, skipped }
+}
+
+function claudeText(message: JsonObject): string | null {
+  if (typeof message.text === 'string' && message.text.trim()) return message.text
+  if (Array.isArray(message.content)) {
+    const text = message.content
+      .filter((block): block is JsonObject => isObject(block) && block.type === 'text' && typeof block.text === 'string')
+      .map(block => block.text as string)
+      .join('\n')
+    return text.trim() ? text : null
+  }
+  return null
+}
+
+function parseClaude(entries: unknown[]): ParsedImport {
+  const skipped: ImportIssue[] = []
+  const conversations: ParsedConversation[] = []
+  const now = new Date().toISOString()
+
+  entries.forEach((entry, index) => {
+    if (!isObject(entry) || !Array.isArray(entry.chat_messages)) {
+      skipped.push({ index, reason: 'Malformed conversation entry' })
+      return
+    }
+    const title = asString(entry.name) || 'Imported Claude conversation'
+    const model = asString(entry.model)
+    const parentOf = new Map<string, string | null>()
+    const messages: ParsedMessage[] = []
+    let skippedMessages = 0
+    let previousKey: string | null = null
+
+    entry.chat_messages.forEach((raw, position) => {
+      if (!isObject(raw)) {
+        skippedMessages++
+        return
+      }
+      const key = asString(raw.uuid) || `claude-${index}-${position}`
+      // Older exports are linear; newer ones carry an explicit parent
+      const parentKey = 'parent_message_uuid' in raw ? asString(raw.parent_message_uuid) : previousKey
+      parentOf.set(key, parentKey)
+      previousKey = key
+
+      const role = raw.sender === 'human' ? 'user' : raw.sender === 'assistant' ? 'assistant' : null
+      const text = claudeText(raw)
+      if (!role || !text) {
+        skippedMessages++
+        return
+      }
+
+      const files = [...(Array.isArray(raw.attachments) ? raw.attachments : []), ...(Array.isArray(raw.files) ? raw.files : [])]
+        .map(f => (isObject(f) ? asString(f.file_name) : null))
+        .filter((f): f is string => !!f)
+
+      messages.push({
+        key,
+        parentKey,
+        role,
+        content: text,
+        model: role === 'assistant' ? model : null,
+        created_at: toIsoDate(raw.created_at, toIsoDate(entry.created_at, now)),
+        metadata: files.length > 0
+          ? { imported_from: 'claude', imported_attachments: files }
+          : { imported_from: 'claude' },
+      })
+    })
+
+    relinkParents(messages, parentOf)
+
+    const created = toIsoDate(entry.created_at, messages[0]?.created_at || now)
+    conversations.push({
+      index,
+      title,
+      model: model || 'claude',
+      created_at: created,
+      updated_at: toIsoDate(entry.updated_at, created),
+      messages,
+      skippedMessages,
+    })
+  })
+
+  return { source: 'claude', conversations, skipped }
+}
+
+/**
+ * Detect the export format and parse it into conversations
+ */
+export function parseImport(data: unknown): ParsedImport {
+  if (isObject(data) && data.format === EXPORT_FORMAT_ID) {
+    return parseBelloSai(data)
+  }
+  if (Array.isArray(data)) {
+    const sample = data.find(isObject)
+    if (sample && 'mapping' in sample) return parseChatGpt(data)
+    if (sample && 'chat_messages' in sample) return parseClaude(data)
+    if (data.length === 0) throw new ImportFormatError('The file contains no conversations')
+  }
+  throw new ImportFormatError('Unrecognized file. Expected a BelloSai, ChatGPT or Claude conversations export.')
+}
+
+/**
+ * Order messages so that every parent precedes its children, keeping the
+ * chronological order otherwise.
+ */
+function parentsFirst(messages: ParsedMessage[]): ParsedMessage[] {
+  const byKey = new Map(messages.map(m => [m.key, m]))
+  const ordered: ParsedMessage[] = []
+  const placed = new Set<string>()
+
+  const place = (message: ParsedMessage, depth: number) => {
+    if (placed.has(message.key) || depth > messages.length) return
+    const parent = message.parentKey ? byKey.get(message.parentKey) : undefined
+    if (parent) place(parent, depth + 1)
+    placed.add(message.key)
+    ordered.push(message)
+  }
+
+  messages.forEach(message => place(message, 0))
+  return ordered
+}
+
+class ConversationImportService {
+  /**
+   * Import every conversation in an export file for the given user
+   */
+  async importFile(file: File, userId: string): Promise<ImportReport> {
+    let data: unknown
+    try {
+      data = JSON.parse(await file.text())
+    } catch {
+      throw new ImportFormatError('The file is not valid JSON')
+    }
+
+    const parsed = parseImport(data)
+    const report: ImportReport = {
+      source: parsed.source,
+      importedConversations: 0,
+      importedMessages: 0,
+      skipped: [...parsed.skipped],
+    }
+
+    for (const conversation of parsed.conversations) {
+      if (conversation.messages.length === 0) {
+        report.skipped.push({ index: conversation.index, title: conversation.title, reason: 'No importable messages' })
+        continue
+      }
+
+      const ids = new Map(conversation.messages.map(m => [m.key, crypto.randomUUID()]))
+      const messages: ImportMessageData[] = parentsFirst(conversation.messages).map(message => ({
+        id: ids.get(message.key)!,
+        type: message.role === 'user' ? 'user' : 'ai',
+        content: message.content,
+        model: message.model ?? undefined,
+        parent_message_id: message.parentKey ? ids.get(message.parentKey) : undefined,
+        metadata: message.metadata ?? undefined,
+        created_at: message.created_at,
+      }))
+
+      try {
+        await conversationService.importConversation(userId, {
+          title: conversation.title,
+          model: conversation.model,
+          created_at: conversation.created_at,
+          updated_at: conversation.updated_at,
+        }, messages)
+        report.importedConversations++
+        report.importedMessages += messages.length
+        if (conversation.skippedMessages > 0) {
+          report.skipped.push({
+            index: conversation.index,
+            title: conversation.title,
+            reason: `${conversation.skippedMessages} message(s) without text were left out`,
+          })
+        }
+      } catch (error) {
+        console.error('❌ Failed to import conversation:', conversation.title, error)
+        report.skipped.push({ index: conversation.index, title: conversation.title, reason: 'Could not be saved' })
+      }
+    }
+
+    console.log(`📥 Imported ${report.importedConversations} ${IMPORT_SOURCE_LABELS[parsed.source]} conversations`)
+    return report
+  }
+}
+
+export const conversationImportService = new ConversationImportService()
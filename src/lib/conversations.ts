@@ -1,10 +1,15 @@
 import { supabase } from './supabase'
 import type { Database } from './supabase'
+import type { GenerationParameters } from '../types/app'
+import type { ContextSummary } from './context-window'
 
 type Conversation = Database['public']['Tables']['conversations']['Row']
 type Message = Database['public']['Tables']['messages']['Row']
 type MessageInsert = Database['public']['Tables']['messages']['Insert']
 
+// Rows per insert when importing large conversations
+const IMPORT_BATCH_SIZE = 500
+
 export interface ConversationWithMessages extends Conversation {
   messages: Message[]
 }
@@ -12,6 +17,32 @@ export interface ConversationWithMessages extends Conversation {
 export interface CreateConversationData {
   title: string
   model: string
+  metadata?: ConversationMetadata
+  persona_id?: string | null
+}
+
+/** Where a forked conversation was copied from */
+export interface ConversationForkSource {
+  conversation_id: string
+  message_id: string
+  /** Title of the source at fork time */
+  title: string
+}
+
+export interface ConversationMetadata {
+  forked_from?: ConversationForkSource
+  /** Settings from the parameters panel */
+  generation?: GenerationParameters
+  /** Rolling summary of turns that no longer fit the model's context */
+  context_summary?: ContextSummary
+}
+
+export interface ForkMessageData {
+  type: 'user' | 'ai'
+  content: string
+  model?: string
+  /** Attachment ids; the copies reference the same uploads */
+  attachments?: string[]
 }
 
 export interface CreateMessageData {
@@ -24,6 +55,16 @@ export interface CreateMessageData {
   metadata?: Record<string, any>
 }
 
+export interface ImportConversationData extends CreateConversationData {
+  created_at: string
+  updated_at: string
+}
+
+export interface ImportMessageData extends Omit<CreateMessageData, 'conversation_id'> {
+  id: string
+  created_at: string
+}
+
 class ConversationService {
   /**
    * Get all conversations for the current user
@@ -107,6 +148,90 @@ class ConversationService {
     return conversation
   }
 
+  /**
+   * Create a conversation with all of its messages, keeping the original
+   * timestamps. Messages must be ordered so that every parent comes before
+   * its children. The conversation is removed again if any insert fails.
+   */
+  async importConversation(
+    userId: string,
+    data: ImportConversationData,
+    messages: ImportMessageData[]
+  ): Promise<Conversation> {
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .insert({ ...data, user_id: userId })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    for (let i = 0; i < messages.length; i += IMPORT_BATCH_SIZE) {
+      const batch: MessageInsert[] = messages
+        .slice(i, i + IMPORT_BATCH_SIZE)
+        .map(message => ({
+          ...message,
+          conversation_id: conversation.id,
+          // `role` superseded `type`; both columns are still required
+          role: message.type === 'user' ? 'user' : 'assistant'
+        }))
+
+      const { error: msgError } = await supabase
+        .from('messages')
+        .insert(batch)
+
+      if (msgError) {
+        await this.deleteConversation(conversation.id).catch(cleanupError => {
+          console.error('Failed to clean up partially imported conversation:', cleanupError)
+        })
+        throw msgError
+      }
+    }
+
+    return conversation
+  }
+
+  /**
+   * Copy a path of messages (root first, ending at the fork point) into a
+   * new conversation that records its source in `metadata.forked_from`.
+   * The copies get new ids and form a single linear thread; the fork keeps
+   * the source's persona and generation parameters.
+   */
+  async forkConversation(
+    userId: string,
+    source: ConversationForkSource,
+    path: ForkMessageData[],
+    model: string,
+    personaId: string | null = null,
+    generation?: GenerationParameters
+  ): Promise<Conversation> {
+    const now = Date.now()
+    const messages: ImportMessageData[] = []
+
+    path.forEach((message, index) => {
+      messages.push({
+        id: crypto.randomUUID(),
+        type: message.type,
+        content: message.content,
+        model: message.model,
+        attachments: message.attachments,
+        parent_message_id: messages[index - 1]?.id,
+        // Distinct timestamps keep the copies in order
+        created_at: new Date(now - path.length + index).toISOString()
+      })
+    })
+
+    const timestamp = new Date(now).toISOString()
+    return this.importConversation(userId, {
+      title: `${source.title} (fork)`,
+      model,
+      metadata: { forked_from: source, ...(generation ? { generation } : {}) },
+      persona_id: personaId,
+      created_at: timestamp,
+      updated_at: timestamp
+    }, messages)
+  }
+
   /**
    * Update a conversation
    */
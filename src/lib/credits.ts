@@ -0,0 +1,112 @@
+/**
+ * Credit Service
+ *
+ * Read-only access to the user's credit balances and the append-only
+ * `credit_transactions` ledger. All writes happen server-side (chat Edge
+ * Functions, Stripe fulfillment, support adjustments).
+ */
+
+import { supabase } from './supabase'
+
+export type CreditTier = 'light' | 'medium' | 'heavy'
+
+export type CreditTransactionKind =
+  | 'purchase'
+  | 'debit'
+  | 'fallback_debit'
+  | 'refund'
+  | 'adjustment'
+  | 'expiry'
+
+export interface CreditTransaction {
+  id: number
+  kind: CreditTransactionKind
+  tier: CreditTier
+  /** Positive when credits were added, negative when taken */
+  amount: number
+  desired_tier: CreditTier | null
+  model: string | null
+  conversation_id: string | null
+  reference: string | null
+  note: string | null
+  created_at: string
+  /** Resolved client-side from `conversation_id` when still available */
+  conversation_title?: string
+}
+
+export interface CreditBalances {
+  light: number
+  medium: number
+  heavy: number
+}
+
+export const TRANSACTION_KIND_LABELS: Record<CreditTransactionKind, string> = {
+  purchase: 'Purchase',
+  debit: 'Message',
+  fallback_debit: 'Message (fallback tier)',
+  refund: 'Refund',
+  adjustment: 'Adjustment',
+  expiry: 'Expired',
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+class CreditService {
+  /**
+   * Current balances derived from the ledger
+   */
+  async getBalances(userId: string): Promise<CreditBalances> {
+    const { data, error } = await supabase
+      .from('credit_balances')
+      .select('light_credits, medium_credits, heavy_credits')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) throw error
+    return {
+      light: data?.light_credits ?? 0,
+      medium: data?.medium_credits ?? 0,
+      heavy: data?.heavy_credits ?? 0,
+    }
+  }
+
+  /**
+   * Most recent ledger entries, newest first, with conversation titles
+   */
+  async getTransactions(userId: string, limit: number = 50): Promise<CreditTransaction[]> {
+    const { data, error } = await supabase
+      .from('credit_transactions')
+      .select('id, kind, tier, amount, desired_tier, model, conversation_id, reference, note, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) throw error
+    const transactions = (data || []) as CreditTransaction[]
+
+    const conversationIds = Array.from(new Set(
+      transactions
+        .map(t => t.conversation_id)
+        .filter((id): id is string => !!id && UUID_PATTERN.test(id))
+    ))
+    if (conversationIds.length === 0) return transactions
+
+    const { data: conversations, error: convError } = await supabase
+      .from('conversations')
+      .select('id, title')
+      .in('id', conversationIds)
+
+    if (convError) {
+      console.warn('Failed to load conversation titles for credit activity:', convError)
+      return transactions
+    }
+
+    const titles = new Map((conversations || []).map(c => [c.id, c.title]))
+    return transactions.map(t => ({
+      ...t,
+      conversation_title: t.conversation_id ? titles.get(t.conversation_id) : undefined,
+    }))
+  }
+}
+
+export const creditService = new CreditService()
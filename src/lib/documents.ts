@@ -0,0 +1,60 @@
+/**
+ * Documents
+ *
+ * Client for the `documents` Edge Function, which extracts the text of PDF,
+ * Markdown, text and JSON attachments (OCR for scanned pages), chunks and
+ * embeds it. Once a document is ingested, chat requests that list it in
+ * `documentIds` get its most relevant excerpts as context and return
+ * citations pointing at file and page.
+ */
+
+import { supabase } from './supabase'
+import { getRuntimeEnv } from './runtime-env'
+
+export type ExtractionMethod = 'text' | 'pdf' | 'ocr' | 'pdf+ocr'
+
+/** Mirrors `attachments.metadata.extraction` */
+export interface DocumentExtraction {
+  status: 'ready' | 'failed'
+  method?: ExtractionMethod
+  /** PDF page count */
+  pages?: number
+  chunks?: number
+  /** Embedding model of the stored chunks */
+  model?: string
+  /** Only the beginning of a very long document is searchable */
+  truncated?: boolean
+  error?: string
+  updated_at: string
+}
+
+class DocumentService {
+  /**
+   * Extract, chunk and embed an uploaded document. Resolves right away for
+   * documents that are already ingested, unless `force` is set.
+   */
+  async ingest(attachmentId: string, force: boolean = false): Promise<DocumentExtraction> {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session?.access_token) {
+      throw new Error('Sign in to attach documents')
+    }
+
+    const { VITE_SUPABASE_URL } = getRuntimeEnv()
+    const response = await fetch(`${VITE_SUPABASE_URL}/functions/v1/documents`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ action: 'ingest', attachmentId, force })
+    })
+
+    const payload = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(payload.error || `Could not read the document: ${response.status}`)
+    }
+    return payload.extraction as DocumentExtraction
+  }
+}
+
+export const documentService = new DocumentService()
@@ -0,0 +1,192 @@
+/**
+ * Message Search
+ *
+ * Full-text search over the content of every message in the user's
+ * conversations, backed by the `search_messages` Postgres function (GIN
+ * index on `messages.content_tsv`). Results are ranked and carry a snippet
+ * in which the matched terms are wrapped in <mark></mark>.
+ *
+ * The query uses web-search syntax: `"exact phrase"`, `or`, and `-excluded`.
+ *
+ * Semantic mode goes through the `embeddings` Edge Function instead: the
+ * query is embedded and compared with vectors of the user's messages and
+ * attachments (pgvector), which also powers "find similar conversations".
+ * That function indexes outstanding messages on every call, so `remaining`
+ * tells the UI when results may still be incomplete.
+ */
+
+import { supabase } from './supabase'
+import { getRuntimeEnv } from './runtime-env'
+
+export type MessageSearchRole = 'user' | 'assistant'
+
+export type MessageSearchMode = 'keyword' | 'semantic'
+
+export interface MessageSearchFilters {
+  /** Only messages answered by one of these models */
+  models?: string[]
+  role?: MessageSearchRole
+  /** Inclusive start date (YYYY-MM-DD or ISO timestamp) */
+  from?: string
+  /** Inclusive end date (YYYY-MM-DD or ISO timestamp) */
+  to?: string
+}
+
+export interface MessageSearchResult {
+  message_id: string
+  conversation_id: string
+  conversation_title: string
+  role: MessageSearchRole
+  model: string | null
+  created_at: string
+  /** ts_rank_cd for keyword matches, cosine similarity (0-1) for semantic ones */
+  rank: number
+  /** Keyword matches wrap terms in <mark></mark>; semantic snippets are plain */
+  snippet: string
+}
+
+export interface SimilarConversation {
+  conversation_id: string
+  title: string
+  updated_at: string
+  similarity: number
+}
+
+export interface SemanticResponse<T> {
+  results: T[]
+  /** Messages and attachments still waiting to be embedded */
+  remaining: number
+}
+
+interface SemanticMatchRow extends Omit<MessageSearchResult, 'rank'> {
+  similarity: number
+}
+
+export interface SnippetPart {
+  text: string
+  highlight: boolean
+}
+
+const HIGHLIGHT_PATTERN = /<mark>([\s\S]*?)<\/mark>/g
+
+/**
+ * Split a snippet into plain and highlighted parts, so it can be rendered
+ * without injecting HTML
+ */
+export function splitSnippet(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = []
+  let lastIndex = 0
+
+  for (const match of snippet.matchAll(HIGHLIGHT_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) parts.push({ text: snippet.slice(lastIndex, index), highlight: false })
+    parts.push({ text: match[1], highlight: true })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < snippet.length) parts.push({ text: snippet.slice(lastIndex), highlight: false })
+  return parts
+}
+
+/**
+ * Date filters are inclusive days; the database compares `created_at < to`,
+ * so a plain date is moved to the start of the next day
+ */
+function toEndExclusive(date: string): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return date
+  const end = new Date(`${date}T00:00:00`)
+  end.setDate(end.getDate() + 1)
+  return end.toISOString()
+}
+
+function toStart(date: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T00:00:00`).toISOString() : date
+}
+
+/**
+ * Call the `embeddings` Edge Function as the signed-in user
+ */
+async function callEmbeddings<T>(body: Record<string, unknown>): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.access_token) {
+    throw new Error('Sign in to use semantic search')
+  }
+
+  const { VITE_SUPABASE_URL } = getRuntimeEnv()
+  const response = await fetch(`${VITE_SUPABASE_URL}/functions/v1/embeddings`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  })
+
+  const payload = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(payload.error || `Semantic search failed: ${response.status}`)
+  }
+  return payload as T
+}
+
+class MessageSearchService {
+  /**
+   * Ranked matches across all of the current user's conversations
+   */
+  async search(query: string, filters: MessageSearchFilters = {}, limit: number = 50): Promise<MessageSearchResult[]> {
+    if (!query.trim()) return []
+
+    const { data, error } = await supabase.rpc('search_messages', {
+      p_query: query.trim(),
+      p_models: filters.models && filters.models.length > 0 ? filters.models : null,
+      p_from: filters.from ? toStart(filters.from) : null,
+      p_to: filters.to ? toEndExclusive(filters.to) : null,
+      p_role: filters.role ?? null,
+      p_limit: limit
+    })
+
+    if (error) throw error
+    return (data || []) as MessageSearchResult[]
+  }
+
+  /**
+   * Messages closest in meaning to the query, most similar first
+   */
+  async searchSemantic(
+    query: string,
+    filters: MessageSearchFilters = {},
+    limit: number = 20
+  ): Promise<SemanticResponse<MessageSearchResult>> {
+    if (!query.trim()) return { results: [], remaining: 0 }
+
+    const response = await callEmbeddings<SemanticResponse<SemanticMatchRow>>({
+      action: 'search',
+      query: query.trim(),
+      filters: {
+        models: filters.models,
+        role: filters.role,
+        from: filters.from ? toStart(filters.from) : undefined,
+        to: filters.to ? toEndExclusive(filters.to) : undefined
+      },
+      limit
+    })
+
+    return {
+      remaining: response.remaining,
+      results: response.results.map(({ similarity, ...row }) => ({ ...row, rank: similarity }))
+    }
+  }
+
+  /**
+   * Other conversations of the user that cover similar ground
+   */
+  async findSimilarConversations(conversationId: string, limit: number = 10): Promise<SemanticResponse<SimilarConversation>> {
+    return callEmbeddings<SemanticResponse<SimilarConversation>>({
+      action: 'similar',
+      conversationId,
+      limit
+    })
+  }
+}
+
+export const messageSearchService = new MessageSearchService()
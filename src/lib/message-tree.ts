@@ -0,0 +1,110 @@
+/**
+ * Message Tree
+ *
+ * Conversations are trees linked through `messages.parent_message_id`:
+ * regenerating an answer or editing a prompt adds a sibling instead of
+ * overwriting. These helpers turn a chronological message list into that
+ * tree and pick the active path (root to leaf) through it.
+ *
+ * Conversations stored before branching existed have no parent links at
+ * all; those are read as one linear thread in chronological order.
+ */
+
+export interface TreeMessage {
+  id: string
+  parentId: string | null
+}
+
+/** Key used in branch selections for messages without a parent */
+export const ROOT_KEY = 'root'
+
+export interface PathEntry<T> {
+  message: T
+  /** Position among the message's siblings (0-based) */
+  siblingIndex: number
+  siblingCount: number
+}
+
+/**
+ * Effective parent of every message. Links to messages that are not in the
+ * list are dropped, making those messages roots.
+ */
+export function resolveParents<T extends TreeMessage>(messages: T[]): Map<string, string | null> {
+  const ids = new Set(messages.map(m => m.id))
+  const linear = messages.every(m => !m.parentId)
+
+  return new Map(messages.map((message, index) => {
+    if (linear) return [message.id, index > 0 ? messages[index - 1].id : null]
+    return [message.id, message.parentId && ids.has(message.parentId) ? message.parentId : null]
+  }))
+}
+
+/**
+ * Children of every message (and of `ROOT_KEY`), in chronological order
+ */
+export function buildChildren<T extends TreeMessage>(messages: T[]): Map<string, T[]> {
+  const parents = resolveParents(messages)
+  const children = new Map<string, T[]>()
+
+  messages.forEach(message => {
+    const key = parents.get(message.id) ?? ROOT_KEY
+    const siblings = children.get(key) || []
+    siblings.push(message)
+    children.set(key, siblings)
+  })
+
+  return children
+}
+
+/**
+ * Walk from the root to a leaf, following `selected` (parent key → child id)
+ * and otherwise the most recent child.
+ */
+export function getActivePath<T extends TreeMessage>(
+  messages: T[],
+  selected: Record<string, string>
+): PathEntry<T>[] {
+  const children = buildChildren(messages)
+  const path: PathEntry<T>[] = []
+  const visited = new Set<string>()
+  let key = ROOT_KEY
+
+  for (;;) {
+    const siblings = children.get(key)
+    if (!siblings || siblings.length === 0) break
+
+    const selectedIndex = siblings.findIndex(m => m.id === selected[key])
+    const siblingIndex = selectedIndex >= 0 ? selectedIndex : siblings.length - 1
+    const message = siblings[siblingIndex]
+    if (visited.has(message.id)) break
+
+    visited.add(message.id)
+    path.push({ message, siblingIndex, siblingCount: siblings.length })
+    key = message.id
+  }
+
+  return path
+}
+
+/**
+ * Selection that makes `messageId` (and its ancestors) part of the active path
+ */
+export function selectPathTo<T extends TreeMessage>(
+  messages: T[],
+  selected: Record<string, string>,
+  messageId: string
+): Record<string, string> {
+  const parents = resolveParents(messages)
+  const next = { ...selected }
+  const visited = new Set<string>()
+  let current: string | null = messageId
+
+  while (current && parents.has(current) && !visited.has(current)) {
+    visited.add(current)
+    const parent: string | null = parents.get(current) ?? null
+    next[parent ?? ROOT_KEY] = current
+    current = parent
+  }
+
+  return next
+}
@@ -0,0 +1,117 @@
+/**
+ * Personas
+ *
+ * A persona is a reusable set of instructions: a system prompt plus an
+ * optional default model and temperature. Users manage their own personas
+ * and can share them (`is_public`), which makes them selectable by everyone.
+ * A conversation points at one persona through `conversations.persona_id`;
+ * its prompt is sent with every request, so all providers receive the same
+ * instructions.
+ */
+
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+import type { ChatRequestOptions } from './supabase-chat'
+
+export type Persona = Database['public']['Tables']['personas']['Row']
+
+export interface PersonaInput {
+  name: string
+  icon?: string
+  system_prompt: string
+  default_model?: string | null
+  temperature?: number | null
+  is_public?: boolean
+}
+
+/** Same limits as the `personas` table checks */
+export const MAX_PERSONA_NAME_LENGTH = 60
+export const MAX_SYSTEM_PROMPT_LENGTH = 8000
+
+/**
+ * Request options that apply a persona to a chat request
+ */
+export function personaRequestOptions(persona?: Persona | null): ChatRequestOptions {
+  if (!persona) return {}
+  return {
+    systemPrompt: persona.system_prompt,
+    temperature: persona.temperature ?? undefined
+  }
+}
+
+function validate(input: Partial<PersonaInput>): void {
+  if (input.name !== undefined && !input.name.trim()) {
+    throw new Error('Persona name is required')
+  }
+  if (input.name !== undefined && input.name.trim().length > MAX_PERSONA_NAME_LENGTH) {
+    throw new Error(`Persona name is limited to ${MAX_PERSONA_NAME_LENGTH} characters`)
+  }
+  if (input.system_prompt !== undefined && input.system_prompt.length > MAX_SYSTEM_PROMPT_LENGTH) {
+    throw new Error(`System prompt is limited to ${MAX_SYSTEM_PROMPT_LENGTH} characters`)
+  }
+  if (input.temperature != null && (input.temperature < 0 || input.temperature > 2)) {
+    throw new Error('Temperature must be between 0 and 2')
+  }
+}
+
+class PersonaService {
+  /**
+   * The user's own personas followed by the ones shared by others
+   */
+  async listPersonas(userId: string): Promise<Persona[]> {
+    const { data, error } = await supabase
+      .from('personas')
+      .select('*')
+      .order('name', { ascending: true })
+
+    if (error) throw error
+    const personas = data || []
+    return [
+      ...personas.filter(persona => persona.user_id === userId),
+      ...personas.filter(persona => persona.user_id !== userId)
+    ]
+  }
+
+  async createPersona(userId: string, input: PersonaInput): Promise<Persona> {
+    validate(input)
+    const { data, error } = await supabase
+      .from('personas')
+      .insert({ ...input, name: input.name.trim(), user_id: userId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async updatePersona(id: string, updates: Partial<PersonaInput>): Promise<Persona> {
+    validate(updates)
+    const { data, error } = await supabase
+      .from('personas')
+      .update({
+        ...updates,
+        ...(updates.name !== undefined ? { name: updates.name.trim() } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  /**
+   * Conversations using the persona fall back to the default assistant
+   */
+  async deletePersona(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('personas')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+}
+
+export const personaService = new PersonaService()
@@ -31,6 +31,7 @@
  * - stripe_customers: Links Supabase users to Stripe customer records
  * - stripe_subscriptions: Stores subscription data with status tracking
  * - stripe_user_subscriptions: View combining user and subscription data
+ * - bundles: Catalog of one-time credit bundles (SKU, Stripe price, credits)
  */
 
 import { supabase } from './supabase'
@@ -51,14 +52,16 @@ export interface SubscriptionPlan {
   interval: 'month' | 'year'
 }
 
+// One-time credit bundle, loaded from the `bundles` table
 export interface TokenBundle {
-  sku: 'LIGHT' | 'MEDIUM' | 'HEAVY'
-  id: string
+  sku: string
   name: string
-  price: string
+  price: string | null
   description: string
   credits: { light: number; medium: number; heavy: number }
-  priceId: string
+  features: string[]
+  /** False until a Stripe Price is configured for the bundle */
+  purchasable: boolean
 }
 
 export const SUBSCRIPTION_PLANS: Record<string, SubscriptionPlan> = {
@@ -103,7 +106,17 @@ export const SUBSCRIPTION_PLANS: Record<string, SubscriptionPlan> = {
   }
 }
 
-export const TOKEN_BUNDLES: TokenBundle[] = []
+interface BundleRow {
+  sku: string
+  name: string
+  description: string | null
+  price_label: string | null
+  stripe_price_id: string | null
+  light_credits: number
+  medium_credits: number
+  heavy_credits: number
+  features: string[] | null
+}
 
 export class StripeService {
   /**
@@ -178,6 +191,32 @@ export class StripeService {
     }
   }
 
+  /**
+   * Active bundles from the catalog, in display order
+   */
+  static async getBundles(): Promise<TokenBundle[]> {
+    const { data, error } = await supabase
+      .from('bundles')
+      .select('sku, name, description, price_label, stripe_price_id, light_credits, medium_credits, heavy_credits, features')
+      .eq('active', true)
+      .order('sort_order', { ascending: true })
+
+    if (error) {
+      console.error('❌ [StripeService] Failed to load bundles:', error)
+      throw error
+    }
+
+    return ((data || []) as BundleRow[]).map(row => ({
+      sku: row.sku,
+      name: row.name,
+      price: row.price_label,
+      description: row.description || '',
+      credits: { light: row.light_credits, medium: row.medium_credits, heavy: row.heavy_credits },
+      features: row.features || [],
+      purchasable: !!row.stripe_price_id
+    }))
+  }
+
   /**
    * Create a checkout session for a one-time token bundle
    */
@@ -202,7 +241,6 @@ export class StripeService {
         },
         body: JSON.stringify({
           mode: 'payment',
-          price_id: bundle.priceId,
           bundle_sku: bundle.sku,
           success_url: `${window.location.origin}/success?session_id={CHECKOUT_SESSION_ID}`,
           cancel_url: `${window.location.origin}/pricing`
@@ -0,0 +1,208 @@
+/**
+ * Structured Output
+ *
+ * `sendStructured` asks a model for a JSON value matching a JSON schema and
+ * resolves with the parsed, validated data. The schema is always part of the
+ * instructions; models with the `structured_outputs` capability also get the
+ * provider's JSON mode (see `structuredOutput` in the Edge Functions' model
+ * table). Answers that do not parse or validate are sent back to the model
+ * with the validation errors, up to `maxRetries` times.
+ *
+ * Validation covers the JSON schema keywords the app uses: `type`,
+ * `properties`, `required`, `additionalProperties: false`, `items`, `enum`,
+ * `minimum` / `maximum`, `minLength` / `maxLength` and `minItems` / `maxItems`.
+ */
+
+import { streamChatMessage, type ChatMessage } from './supabase-chat';
+import { ChatStreamError } from './chat-stream';
+import type { GenerationParameters } from '../types/app';
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface StructuredRequestOptions<T> extends GenerationParameters {
+  /** Schema name sent to providers that want one */
+  name?: string;
+  /** Instructions placed before the schema */
+  systemPrompt?: string;
+  /** Extra attempts after an invalid answer; defaults to 2 */
+  maxRetries?: number;
+  /** Checks the schema cannot express; returned messages count as validation errors */
+  check?: (data: T) => string[];
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+
+/**
+ * Raised when the model still answers with invalid JSON after all retries.
+ * `errors` are the validation errors of the last answer.
+ */
+export class StructuredOutputError extends ChatStreamError {
+  constructor(message: string, public errors: string[], public response: string) {
+    super(message, 'invalid_structured_output');
+    this.name = 'StructuredOutputError';
+  }
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+/**
+ * Validation errors of `value` against `schema`, as `path: problem` lines;
+ * empty when it matches
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) return [`${path}: expected ${allowed.join(' or ')}, got ${actual}`];
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be at most ${schema.maximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+    }
+  }
+
+  if (actual === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJson(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * JSON value in a model answer. Tolerates code fences, `<think>` blocks and
+ * text around a single object or array.
+ */
+export function extractJson(text: string): unknown {
+  const cleaned = text
+    .replace(/<think>[\s\S]*?<\/think>/gi, '')
+    .replace(/```(?:json)?\s*([\s\S]*?)```/i, '$1')
+    .trim();
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    const start = cleaned.search(/[[{]/);
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (start < 0 || end <= start) throw new Error('The answer contains no JSON');
+    return JSON.parse(cleaned.slice(start, end + 1));
+  }
+}
+
+function instructionsFor(schema: JsonSchema, systemPrompt?: string): string {
+  return [
+    systemPrompt,
+    'Reply with JSON only: a single JSON value that matches this JSON schema. No prose, no markdown, no code fences.',
+    JSON.stringify(schema)
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Ask `modelCode` for data matching `schema`. Resolves with the validated
+ * data; rejects with StructuredOutputError when every attempt was invalid,
+ * and with the usual chat errors (e.g. InsufficientCreditsError) otherwise.
+ */
+export async function sendStructured<T>(
+  schema: JsonSchema,
+  messages: ChatMessage[],
+  modelCode: string,
+  options: StructuredRequestOptions<T> = {}
+): Promise<T> {
+  const { name = 'response', systemPrompt, maxRetries = DEFAULT_MAX_RETRIES, check, signal, ...parameters } = options;
+  const conversation = [...messages];
+  let errors: string[] = [];
+  let response = '';
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const result = await streamChatMessage(conversation, modelCode, undefined, undefined, signal, {
+      ...parameters,
+      systemPrompt: instructionsFor(schema, systemPrompt),
+      responseFormat: { name, schema: schema as Record<string, unknown> }
+    });
+    response = result.content;
+
+    let data: unknown;
+    try {
+      data = extractJson(response);
+      errors = validateJson(data, schema);
+    } catch (error) {
+      errors = [`$: not valid JSON (${error instanceof Error ? error.message : String(error)})`];
+    }
+    if (errors.length === 0 && check) errors = check(data as T);
+    if (errors.length === 0) return data as T;
+
+    console.warn(`⚠️ Structured output attempt ${attempt + 1} was invalid:`, errors);
+    conversation.push(
+      { type: 'ai', content: response },
+      {
+        type: 'user',
+        content: `That reply does not match the schema:\n${errors.map(error => `- ${error}`).join('\n')}\n\nReply again with only the corrected JSON.`
+      }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `${modelCode} did not return valid ${name} data after ${maxRetries + 1} attempts`,
+    errors,
+    response
+  );
+}
@@ -7,22 +7,58 @@
 
 import { supabase } from './supabase';
 import { getRuntimeEnv } from './runtime-env';
-import type { ModelInfo } from '../types/app';
-import { AVAILABLE_MODELS, getModelProvider, getModelTier } from '../models/registry';
+import { readChatResponse, ChatAbortedError, ChatStreamError, InsufficientCreditsError, type ChatStreamResult, type ToolStep } from './chat-stream';
+import { chatRequestManager } from './chat-requests';
+import type { GenerationParameters, ModelInfo } from '../types/app';
+import { AVAILABLE_MODELS, getModelProvider } from '../models/registry';
 
 export interface ChatMessage {
   type: 'user' | 'ai';
   content: string;
+  /**
+   * Ids of image attachments on a user message. The Edge Function checks
+   * they belong to the caller and forwards them as image parts; only models
+   * with `supportsImageInput` accept them.
+   */
+  attachments?: string[];
 }
 
-export interface ChatResponse {
-  content: string;
-  type: 'chunk' | 'complete';
-  model?: string;
-  messageCount?: number;
-  messageLimit?: number;
+/**
+ * Per-request instructions and generation parameters, e.g. from the
+ * conversation's persona and parameters panel. The system prompt replaces
+ * the default one for every provider; unset parameters use the provider's
+ * defaults.
+ */
+export interface ChatRequestOptions extends GenerationParameters {
+  systemPrompt?: string;
+  /** Rolling summary of turns left out of `messages` (see context-window.ts) */
+  contextSummary?: string;
+  /** PDF or text attachments to answer from; the reply cites their excerpts */
+  documentIds?: string[];
+  /** Search the web for the prompt and cite the results (search-capable models only, see usesWebSearch) */
+  webSearch?: boolean;
+  /** Let the model call tools (tool-calling models only, see supportsToolCalling) */
+  tools?: boolean;
+  /** Called with the tool steps so far whenever a tool call starts or finishes */
+  onToolSteps?: (steps: ToolStep[]) => void;
+  /** Called with each piece of a thinking model's thought process (see isReasoningModel) */
+  onReasoning?: (chunk: string) => void;
+  /** Ask for a JSON answer matching the schema (see sendStructured in structured-output.ts) */
+  responseFormat?: { name: string; schema: Record<string, unknown> };
+  /** Summary of earlier turns for the context window (see context-window.ts); billed at the light tier */
+  purpose?: 'context_summary';
+  /**
+   * Controller from chatRequestManager.start when the caller registered the
+   * generation itself, e.g. to cover work before the request; the caller then
+   * also finishes it
+   */
+  requestController?: AbortController;
 }
 
+export type { ChatStreamEvent as ChatResponse, ChatStreamResult, ChatUsage, ChatBilling, ChatCitation, ToolStep } from './chat-stream';
+export { ChatAbortedError, InsufficientCreditsError } from './chat-stream';
+export { ConversationBusyError } from './chat-requests';
+
 export interface MessageLimitError {
   error: string;
   limit: number;
@@ -36,9 +72,6 @@ type ModelProvider = 'DeepSeek' | 'Claude' | 'Mistral' | 'Groq' | 'Qwen';
 
 // No timeouts - let AI work without any interruption!
 
-// Simple request lock to prevent concurrent requests
-let isRequestInProgress = false;
-
 // Session cache to avoid repeated auth calls
 let cachedSession: any = null;
 let sessionCacheTime = 0;
@@ -51,30 +84,53 @@ const SESSION_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 /**
  * Send messages to AI via Supabase Edge Function with optimized streaming
+ *
+ * Pass `signal` to make the generation cancellable: aborting stops the
+ * upstream provider and rejects with ChatAbortedError carrying the partial
+ * answer. Requests with a `conversationId` are tracked by chatRequestManager:
+ * they can also be stopped by conversation id, and a second send into the
+ * same conversation rejects with ConversationBusyError.
+ *
+ * Credits are reserved and settled by the Edge Function; when the balance is
+ * empty the request rejects with InsufficientCreditsError.
+ *
+ * `options` (system prompt and generation parameters) are forwarded to the
+ * provider unchanged; fit them to the model first with
+ * resolveGenerationParameters.
  */
 export async function sendChatMessage(
   messages: ChatMessage[],
   modelCode: string,
   onChunk?: (chunk: string) => void,
   conversationId?: string,
-  retryCount: number = 0
+  signal?: AbortSignal,
+  options: ChatRequestOptions = {}
 ): Promise<string> {
-  console.log('🎯 sendChatMessage function called');
+  const result = await streamChatMessage(messages, modelCode, onChunk, conversationId, signal, options);
+  return result.content;
+}
+
+/**
+ * Same as sendChatMessage, but resolves with the full result including the
+ * provider's token usage and the credits charged, for callers that store
+ * them alongside the message.
+ */
+export async function streamChatMessage(
+  messages: ChatMessage[],
+  modelCode: string,
+  onChunk?: (chunk: string) => void,
+  conversationId?: string,
+  signal?: AbortSignal,
+  options: ChatRequestOptions = {},
+  retryCount: number = 0
+): Promise<ChatStreamResult> {
+  console.log('🎯 streamChatMessage function called');
   console.log('📥 Parameters:', { messages, model: modelCode, conversationId, onChunk: !!onChunk, retryCount });
   
-  // Check for concurrent requests
-  if (isRequestInProgress) {
-    console.warn('⚠️ Another request is already in progress, waiting...');
-    // Wait a bit and retry
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    if (isRequestInProgress) {
-      console.error('❌ Request lock stuck, forcing reset');
-      isRequestInProgress = false; // Force reset the lock
-    }
-  }
-  
-  isRequestInProgress = true;
-  console.log('🔒 Request lock acquired');
+  // Only one generation per conversation; other conversations run in parallel
+  const { requestController, ...requestOptions } = options;
+  const tracked = requestController ?? (conversationId ? chatRequestManager.start(conversationId, signal) : null);
+  const requestSignal = tracked?.signal ?? signal;
   
   try {
     console.log('🚀 Starting chat message request:', { messages, model: modelCode, conversationId });
@@ -156,39 +212,15 @@ export async function sendChatMessage(
       authHeaders['apikey'] = VITE_SUPABASE_ANON_KEY as string;
     }
 
-    // If user is logged in, attempt to debit a token up-front
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        const desiredTier = getModelTier(modelCode);
-        const { data: debitedTier, error: debitErr } = await supabase.rpc('debit_token_with_fallback', { p_user_id: user.id, p_desired_tier: desiredTier });
-        if (debitErr) {
-          console.warn('Token debit failed:', debitErr);
-        } else if (!debitedTier) {
-          throw new Error('You are out of credits. Please purchase a bundle on the Pricing page.');
-        }
-      }
-    } catch (debitError) {
-      console.warn('Debit pre-check:', debitError);
-      // If not authenticated, continue; anonymous users can proceed if your policy allows
-    }
-
-    // Choose appropriate edge function
+    // Single chat edge function; it resolves the provider from the model code
     const provider = getModelProvider(modelCode);
     const { VITE_SUPABASE_URL } = getRuntimeEnv();
-    let url = '';
-    if (provider === 'DeepSeek') url = `${VITE_SUPABASE_URL}/functions/v1/deepseek-chat`;
-    else if (provider === 'Claude') url = `${VITE_SUPABASE_URL}/functions/v1/claude-chat`;
-    else if (provider === 'Mistral') url = `${VITE_SUPABASE_URL}/functions/v1/mistral-chat`;
-    else if (provider === 'Qwen') url = `${VITE_SUPABASE_URL}/functions/v1/qwen-chat`;
-    else if (provider === 'Groq') url = `${VITE_SUPABASE_URL}/functions/v1/groq-chat`;
-    console.log('📡 Calling Edge Function:', url);
+    const url = `${VITE_SUPABASE_URL}/functions/v1/chat`;
+    console.log('📡 Calling Edge Function:', url, 'provider:', provider);
     console.log('📡 Request payload:', { messages, model: modelCode, conversationId });
     
+    const { systemPrompt, contextSummary, documentIds, webSearch, tools, onToolSteps, onReasoning, responseFormat, purpose, ...parameters } = requestOptions;
     console.log('🚀 About to make fetch request...');
-    // Read optional web search toggle from localStorage (set by UI)
-    let enableWebSearch = false;
-    try { if (typeof window !== 'undefined') { enableWebSearch = localStorage.getItem('bellosai-web-search') === 'true'; } } catch {}
 
     const response = await fetch(url, {
       method: 'POST',
@@ -202,8 +234,17 @@ export async function sendChatMessage(
         })),
         model: modelCode,
         conversationId,
-        webSearch: enableWebSearch
-      })
+        systemPrompt: systemPrompt || undefined,
+        contextSummary: contextSummary || undefined,
+        documents: documentIds?.length ? documentIds : undefined,
+        options: Object.values(parameters).some(value => value !== undefined) ? parameters : undefined,
+        webSearch: webSearch || undefined,
+        tools: tools || undefined,
+        responseFormat,
+        purpose,
+        stream: true
+      }),
+      signal: requestSignal
     });
     console.log('✅ Fetch request completed, got response');
 
@@ -212,7 +253,7 @@ export async function sendChatMessage(
     console.log('📨 Edge Function response status:', response.status);
 
     if (!response.ok) {
-      const errorData = await response.json();
+      const errorData = await response.json().catch(() => ({}));
       console.error('❌ Edge Function error:', errorData);
       
       // Handle specific error types with English messages
@@ -223,6 +264,18 @@ export async function sendChatMessage(
         // Removed manual refresh that was causing auth state changes and breaking DB connection
       }
       
+      if (response.status === 402) {
+        throw new InsufficientCreditsError(
+          errorData.error || 'You are out of credits. Please purchase a bundle on the Pricing page.',
+          errorData.required_tier
+        );
+      }
+      
+      // Anonymous callers are limited to light models and a daily message count
+      if ((response.status === 401 || response.status === 429) && errorData.sign_in_required && errorData.error) {
+        throw new ChatStreamError(errorData.error, errorData.code);
+      }
+
       if (response.status === 429) {
         throw new Error('Rate limit exceeded. Please wait a moment and try again.');
       }
@@ -239,110 +292,38 @@ export async function sendChatMessage(
         throw new Error('Server error. Please try again later.');
       }
       
+      // Validation errors explain what to change, e.g. images sent to a text-only model
+      if (response.status === 400 && errorData.error) {
+        throw new Error(errorData.error);
+      }
+      
       // Generic error for other status codes
       throw new Error(`Request failed with status ${response.status}. Please try again.`);
     }
 
-    // Optimized streaming for DeepSeek, regular response for Gemini
-    if (provider === 'DeepSeek') {
-      if (!response.body) {
-        console.error('❌ No response body from Edge Function');
-        throw new Error('No response body');
-      }
-      console.log('🌊 Starting optimized streaming response...');
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let fullResponse = '';
-      let hasStartedStreaming = false;
-      
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            console.log('✅ Streaming completed');
-            break;
-          }
-          
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split('\n');
-          
-          for (const line of lines) {
-            if (!line.startsWith('data: ')) continue;
-            try {
-              const jsonStr = line.slice(6);
-              const data: ChatResponse = JSON.parse(jsonStr);
-              
-              if (data.type === 'chunk' && data.content) {
-                hasStartedStreaming = true;
-                
-                // Direct chunk processing - no buffering for immediate display
-                console.log('📦 Direct chunk:', data.content.length, 'chars');
-                fullResponse += data.content;
-                onChunk?.(data.content);
-                
-              } else if (data.type === 'complete') {
-                if (data.content && data.content.trim() !== '') {
-                  fullResponse = data.content;
-                }
-                if (data.messageCount !== undefined && data.messageLimit !== undefined) {
-                  console.log(`📊 Message count: ${data.messageCount}/${data.messageLimit}`);
-                }
-              }
-            } catch (parseError) {
-              console.warn('⚠️ Failed to parse streaming chunk:', parseError, 'Line:', line);
-              continue;
-            }
-          }
-        }
-        
-        // No timeout to clear
-        
-        if (!hasStartedStreaming) {
-          throw new Error('Geen streaming data ontvangen van AI service');
-        }
-        
-        console.log('📝 Final fullResponse length:', fullResponse?.length || 0);
-        if (!fullResponse || fullResponse.trim() === '') {
-          throw new Error('Lege response ontvangen van AI service');
-        }
-        
-        const responseLength = fullResponse.length;
-        if (responseLength > 0 && responseLength < 10) {
-          console.warn('⚠️ Response seems unusually short, but continuing...');
-        }
-        
-        return fullResponse;
-      } finally {
-        // No timeout to clear
-        reader.releaseLock();
-      }
-    } else {
-      // Claude/Mistral/Groq/Qwen: regular JSON response (no streaming)
-      console.log('📦 Processing non-DeepSeek response for provider:', provider);
-      const data = await response.json();
-      console.log('📦 Non-DeepSeek response data:', data);
-      
-      if (data.error) throw new Error(data.error);
-      
-      const responseContent = data.response || '';
-      console.log('📦 Extracted response content length:', responseContent.length);
-      console.log('📦 Response content preview:', responseContent.substring(0, 200) + '...');
-      
-      if (!responseContent || responseContent.trim() === '') {
-        throw new Error('Empty response received from AI service');
-      }
-      
-      // For non-streaming responses, call onChunk with the full content to update UI
-      if (onChunk && responseContent) {
-        console.log('📦 Calling onChunk for non-streaming response');
-        onChunk(responseContent);
-      }
-      
-      return responseContent;
+    // Every provider streams through the same SSE contract
+    console.log('🌊 Reading chat response for provider:', provider);
+    const result = await readChatResponse(response, onChunk, requestSignal, onToolSteps, onReasoning);
+
+    if (!result.content || result.content.trim() === '') {
+      throw new Error('Empty response received from AI service');
+    }
+    if (result.messageCount !== undefined && result.messageLimit !== undefined) {
+      console.log(`📊 Message count: ${result.messageCount}/${result.messageLimit}`);
     }
+    if (result.usage) {
+      console.log('📊 Token usage:', result.usage, 'billing:', result.billing);
+    }
+
+    return result;
 
   } catch (error) {
-    console.error('❌ sendChatMessage error:', error);
+    if (requestSignal?.aborted) {
+      console.log('⏹️ Generation stopped by user');
+      throw error instanceof ChatAbortedError ? error : new ChatAbortedError();
+    }
+
+    console.error('❌ streamChatMessage error:', error);
     
     // Enhanced error handling for better UX
     if (error instanceof Error) {
@@ -353,9 +334,10 @@ export async function sendChatMessage(
     
     throw error;
   } finally {
-    // ALWAYS release the lock no matter what happens
-    isRequestInProgress = false;
-    console.log('🔓 Request lock released');
+    // ALWAYS release the conversation no matter what happens
+    if (conversationId && tracked && !requestController) {
+      chatRequestManager.finish(conversationId, tracked);
+    }
   }
 }
 
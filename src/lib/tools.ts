@@ -0,0 +1,119 @@
+/**
+ * Tools
+ *
+ * Models with tool calling (`supportsToolCalling` in the registry) can call
+ * tools while answering. The chat Edge Function runs the calls and streams
+ * each one with its result, which the chat shows as steps above the answer.
+ * Built-in tools are always available to signed-in users; on top of those,
+ * users can register their own HTTP tools: an https endpoint plus a JSON
+ * schema describing its arguments.
+ */
+
+import { supabase } from './supabase'
+import type { Database } from './supabase'
+
+export type UserTool = Database['public']['Tables']['user_tools']['Row']
+
+export interface UserToolInput {
+  name: string
+  description: string
+  parameters?: Record<string, unknown>
+  url: string
+  method?: 'GET' | 'POST'
+  headers?: Record<string, string>
+  enabled?: boolean
+}
+
+/** Built into the chat function; user tools cannot take these names */
+export const BUILT_IN_TOOLS = [
+  { name: 'calculator', description: 'Evaluates arithmetic expressions' },
+  { name: 'current_time', description: 'Current date and time in any time zone' },
+  { name: 'web_search', description: 'Searches the web' },
+  { name: 'conversation_memory', description: 'Looks up related messages in earlier conversations' }
+]
+
+/** Same limits as the `user_tools` table checks */
+export const TOOL_NAME_PATTERN = /^[a-z][a-z0-9_]{0,39}$/
+export const MAX_TOOL_DESCRIPTION_LENGTH = 1000
+
+function validate(input: Partial<UserToolInput>): void {
+  if (input.name !== undefined) {
+    if (!TOOL_NAME_PATTERN.test(input.name)) {
+      throw new Error('Tool name must start with a letter and use only lowercase letters, digits and underscores (max 40)')
+    }
+    if (BUILT_IN_TOOLS.some(tool => tool.name === input.name)) {
+      throw new Error(`${input.name} is a built-in tool`)
+    }
+  }
+  if (input.description !== undefined && !input.description.trim()) {
+    throw new Error('Tool description is required')
+  }
+  if (input.description !== undefined && input.description.trim().length > MAX_TOOL_DESCRIPTION_LENGTH) {
+    throw new Error(`Tool description is limited to ${MAX_TOOL_DESCRIPTION_LENGTH} characters`)
+  }
+  if (input.url !== undefined && !/^https:\/\/[^\s/]+/.test(input.url)) {
+    throw new Error('Tool URL must start with https://')
+  }
+  if (input.parameters !== undefined && input.parameters.type !== 'object') {
+    throw new Error('Parameters must be a JSON schema of type "object"')
+  }
+  if (input.headers !== undefined && Object.values(input.headers).some(value => typeof value !== 'string')) {
+    throw new Error('Header values must be strings')
+  }
+}
+
+function trimmed(input: Partial<UserToolInput>): Partial<UserToolInput> {
+  return {
+    ...input,
+    ...(input.description !== undefined ? { description: input.description.trim() } : {}),
+    ...(input.url !== undefined ? { url: input.url.trim() } : {})
+  }
+}
+
+class UserToolService {
+  async listTools(): Promise<UserTool[]> {
+    const { data, error } = await supabase
+      .from('user_tools')
+      .select('*')
+      .order('name', { ascending: true })
+
+    if (error) throw error
+    return data || []
+  }
+
+  async createTool(userId: string, input: UserToolInput): Promise<UserTool> {
+    validate(input)
+    const { data, error } = await supabase
+      .from('user_tools')
+      .insert({ ...input, ...trimmed(input), user_id: userId })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async updateTool(id: string, updates: Partial<UserToolInput>): Promise<UserTool> {
+    validate(updates)
+    const { data, error } = await supabase
+      .from('user_tools')
+      .update({ ...trimmed(updates), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+
+  async deleteTool(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('user_tools')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+}
+
+export const userToolService = new UserToolService()
@@ -0,0 +1,71 @@
+/**
+ * Transcription
+ *
+ * Client for the `transcribe` Edge Function, which turns speech into text
+ * with Mistral's Voxtral model. Microphone recordings are sent as form data
+ * and discarded after transcription; uploaded audio attachments are
+ * transcribed in place, and their transcript is kept on the attachment for
+ * semantic search.
+ */
+
+import { supabase } from './supabase'
+import { getRuntimeEnv } from './runtime-env'
+
+export interface Transcription {
+  text: string
+  /** Detected language code, when the model reports it */
+  language: string | null
+  model: string
+}
+
+/** Recordings stop on their own after this long */
+export const MAX_RECORDING_SECONDS = 300
+
+/**
+ * Call the `transcribe` Edge Function as the signed-in user
+ */
+async function callTranscribe(body: FormData | Record<string, unknown>): Promise<Transcription> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.access_token) {
+    throw new Error('Sign in to use voice input')
+  }
+
+  const isForm = body instanceof FormData
+  const { VITE_SUPABASE_URL } = getRuntimeEnv()
+  const response = await fetch(`${VITE_SUPABASE_URL}/functions/v1/transcribe`, {
+    method: 'POST',
+    // The browser sets the multipart boundary itself
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      ...(isForm ? {} : { 'Content-Type': 'application/json' })
+    },
+    body: isForm ? body : JSON.stringify(body)
+  })
+
+  const payload = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(payload.error || `Transcription failed: ${response.status}`)
+  }
+  return payload as Transcription
+}
+
+class TranscriptionService {
+  /**
+   * Transcribe a recording; `language` (e.g. 'en') skips detection
+   */
+  async transcribe(audio: Blob, filename: string = 'recording', language?: string): Promise<Transcription> {
+    const form = new FormData()
+    form.append('file', audio, filename)
+    if (language) form.append('language', language)
+    return callTranscribe(form)
+  }
+
+  /**
+   * Transcribe an uploaded audio attachment and store the transcript on it
+   */
+  async transcribeAttachment(attachmentId: string, language?: string): Promise<Transcription> {
+    return callTranscribe({ attachmentId, language })
+  }
+}
+
+export const transcriptionService = new TranscriptionService()
@@ -0,0 +1,33 @@
+/**
+ * Web Search
+ *
+ * The web search toggle of the chat input. While it is on, requests to
+ * search-capable models (`supportsWebSearch` in the registry) ask the chat
+ * Edge Function to search for the prompt; the results are added as numbered
+ * sources and cited under the answer. The choice is kept in localStorage.
+ */
+
+import { supportsWebSearch } from '../models/registry'
+
+const STORAGE_KEY = 'bellosai-web-search'
+
+export function isWebSearchEnabled(): boolean {
+  try {
+    return typeof window !== 'undefined' && localStorage.getItem(STORAGE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+export function setWebSearchEnabled(enabled: boolean): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, String(enabled))
+  } catch {
+    // Storage unavailable: web search stays off
+  }
+}
+
+/** Whether a request to `modelCode` will get web results */
+export function usesWebSearch(modelCode: string): boolean {
+  return isWebSearchEnabled() && supportsWebSearch(modelCode)
+}
@@ -1,21 +1,25 @@
-import { ModelInfo } from '../types/app';
+import { GenerationParameters, ModelInfo } from '../types/app';
 
 export const AVAILABLE_MODELS: ModelInfo[] = [
   {
     name: 'Claude Haiku 3',
     code: 'claude-3-haiku-20240307',
     provider: 'Claude',
-    capabilities: ['text', 'reasoning'],
+    capabilities: ['text'],
     description: 'Fast, cost-effective Claude 3 Haiku model.',
-    premium: false
+    premium: false,
+    contextWindow: 200000,
+    maxOutputTokens: 4096,
+    maxTemperature: 1
   },
   {
     name: 'DeepSeek V3',
     code: 'DeepSeek-V3',
     provider: 'DeepSeek',
-    capabilities: ['text', 'code', 'reasoning'],
+    capabilities: ['text', 'code', 'structured_outputs'],
     description: 'DeepSeek chat model, strong general AI.',
-    premium: false
+    premium: false,
+    maxOutputTokens: 8192
   },
   {
     name: 'DeepSeek R1',
@@ -23,63 +27,69 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     provider: 'DeepSeek',
     capabilities: ['text', 'code', 'reasoning'],
     description: 'DeepSeek reasoner, optimized for reasoning.',
-    premium: true
+    premium: true,
+    contextWindow: 65536,
+    maxOutputTokens: 32768,
+    supportsSampling: false
   },
   {
     name: 'Mistral Medium 3',
     code: 'mistral-medium-latest',
     provider: 'Mistral',
     source: 'Mistral',
-    capabilities: ['text', 'reasoning', 'multimodal', 'agentic'],
+    capabilities: ['text', 'multimodal', 'agentic', 'structured_outputs'],
     description: 'State-of-the-art performance. Multimodal, coding, function-calling.',
     premium: false,
     forChat: true,
     inputPricePerMTokens: 0.4,
     outputPricePerMTokens: 2,
-    supportsWebSearch: true
+    supportsWebSearch: true,
+    contextWindow: 131072
   },
   {
     name: 'Mistral Small 3.1',
     code: 'mistral-small-latest',
     provider: 'Mistral',
     source: 'Mistral',
-    capabilities: ['text', 'reasoning', 'multimodal', 'lightweight'],
+    capabilities: ['text', 'multimodal', 'lightweight', 'structured_outputs'],
     description: 'SOTA small model. Multimodal. Multilingual. Apache 2.0.',
     premium: false,
     forChat: true,
     inputPricePerMTokens: 0.1,
     outputPricePerMTokens: 0.3,
-    supportsWebSearch: true
+    supportsWebSearch: true,
+    contextWindow: 131072
   },
   {
     name: 'Codestral',
     code: 'codestral-latest',
     provider: 'Mistral',
     source: 'Mistral',
-    capabilities: ['text', 'code', 'agentic'],
+    capabilities: ['text', 'code', 'agentic', 'structured_outputs'],
     description: 'Coding specialist. Fast, proficient in 80+ languages. FIM support.',
     premium: false,
     forChat: true,
     inputPricePerMTokens: 0.2,
     outputPricePerMTokens: 0.6,
-    supportsWebSearch: false
+    supportsWebSearch: false,
+    contextWindow: 262144
   },
   // New Mistral family additions
   { name: 'Magistral Medium', code: 'magistral-medium-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'reasoning', 'agentic'], description: 'Frontier-class reasoning model for enterprise use.', premium: false, forChat: true, inputPricePerMTokens: 2, outputPricePerMTokens: 5, supportsWebSearch: true },
   { name: 'Devstral Medium', code: 'devstral-medium-2507', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'code', 'agentic'], description: 'Advanced coding agents: multi-file edits, tool use.', premium: false, forChat: true, inputPricePerMTokens: 0.4, outputPricePerMTokens: 2 },
-  { name: 'Mistral Large', code: 'mistral-large-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'reasoning', 'multimodal', 'agentic'], description: 'Large model for complex multilingual reasoning.', premium: false, forChat: true, inputPricePerMTokens: 2, outputPricePerMTokens: 6, supportsWebSearch: true },
-  { name: 'Pixtral Large', code: 'pixtral-large-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['multimodal', 'text', 'reasoning'], description: 'Vision-capable large model with frontier reasoning.', premium: false, forChat: true, inputPricePerMTokens: 2, outputPricePerMTokens: 6 },
+  { name: 'Mistral Large', code: 'mistral-large-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'multimodal', 'agentic', 'structured_outputs'], description: 'Large model for complex multilingual reasoning.', premium: false, forChat: true, inputPricePerMTokens: 2, outputPricePerMTokens: 6, supportsWebSearch: true },
+  { name: 'Pixtral Large', code: 'pixtral-large-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['multimodal', 'text'], description: 'Vision-capable large model with frontier reasoning.', premium: false, forChat: true, inputPricePerMTokens: 2, outputPricePerMTokens: 6 },
   { name: 'Pixtral 12B', code: 'pixtral-12b', provider: 'Mistral', source: 'Mistral', capabilities: ['multimodal', 'text', 'lightweight'], description: '12B vision-capable small model.', premium: false, forChat: true, inputPricePerMTokens: 0.15, outputPricePerMTokens: 0.15 },
-  { name: 'Mistral NeMo', code: 'mistral-nemo', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'code', 'lightweight'], description: 'Code-focused open-weight model, strong multilingual.', premium: false, forChat: true, inputPricePerMTokens: 0.15, outputPricePerMTokens: 0.15 },
-  { name: 'Mistral Saba', code: 'mistral-saba-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'reasoning'], description: 'Region-specialized text model (ME/SA languages).', premium: false, forChat: true, inputPricePerMTokens: 0.2, outputPricePerMTokens: 0.6 },
+  { name: 'Mistral NeMo', code: 'mistral-nemo', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'code', 'lightweight', 'structured_outputs'], description: 'Code-focused open-weight model, strong multilingual.', premium: false, forChat: true, inputPricePerMTokens: 0.15, outputPricePerMTokens: 0.15 },
+  { name: 'Mistral Saba', code: 'mistral-saba-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text'], description: 'Region-specialized text model (ME/SA languages).', premium: false, forChat: true, inputPricePerMTokens: 0.2, outputPricePerMTokens: 0.6 },
   { name: 'Open Mistral 7B', code: 'open-mistral-7b', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'lightweight'], description: '7B transformer, fast and customizable.', premium: false, forChat: true, inputPricePerMTokens: 0.25, outputPricePerMTokens: 0.25, free: true },
-  { name: 'Open Mixtral 8x7B', code: 'open-mixtral-8x7b', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'reasoning'], description: 'Sparse MoE, strong general performance.', premium: false, forChat: true, inputPricePerMTokens: 0.7, outputPricePerMTokens: 0.7 },
-  { name: 'Open Mixtral 8x22B', code: 'open-mixtral-8x22b', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'reasoning'], description: 'Most performant open model; strong function calling.', premium: false, forChat: true, inputPricePerMTokens: 2, outputPricePerMTokens: 6 },
-  { name: 'Ministral 8B', code: 'ministral-8b-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'lightweight'], description: 'Edge-focused 8B model.', premium: false, forChat: true },
-  { name: 'Ministral 3B', code: 'ministral-3b-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'lightweight'], description: 'Most efficient edge model.', premium: false, forChat: true },
+  { name: 'Open Mixtral 8x7B', code: 'open-mixtral-8x7b', provider: 'Mistral', source: 'Mistral', capabilities: ['text'], description: 'Sparse MoE, strong general performance.', premium: false, forChat: true, inputPricePerMTokens: 0.7, outputPricePerMTokens: 0.7 },
+  { name: 'Open Mixtral 8x22B', code: 'open-mixtral-8x22b', provider: 'Mistral', source: 'Mistral', capabilities: ['text'], description: 'Most performant open model; strong function calling.', premium: false, forChat: true, inputPricePerMTokens: 2, outputPricePerMTokens: 6 },
+  { name: 'Ministral 8B', code: 'ministral-8b-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'lightweight', 'structured_outputs'], description: 'Edge-focused 8B model.', premium: false, forChat: true },
+  { name: 'Ministral 3B', code: 'ministral-3b-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'lightweight', 'structured_outputs'], description: 'Most efficient edge model.', premium: false, forChat: true },
   { name: 'Magistral Small', code: 'magistral-small-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'reasoning', 'lightweight'], description: 'Small reasoning model, multilingual domain reasoning.', premium: false, forChat: true },
   { name: 'Devstral Small', code: 'devstral-small-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'code', 'agentic', 'lightweight'], description: 'Open coding model for agents; tools and edits.', premium: false, forChat: true },
-  { name: 'Mistral Small 3.2', code: 'mistral-small-2506', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'multimodal', 'lightweight'], description: 'Updated small multimodal model (June 2025).', premium: false, forChat: true, inputPricePerMTokens: 0.1, outputPricePerMTokens: 0.3 },
+  { name: 'Mistral Small 3.2', code: 'mistral-small-2506', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'multimodal', 'lightweight', 'structured_outputs'], description: 'Updated small multimodal model (June 2025).', premium: false, forChat: true, inputPricePerMTokens: 0.1, outputPricePerMTokens: 0.3 },
   { name: 'Mistral Small 3.1', code: 'mistral-small-2503', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'multimodal', 'lightweight'], description: 'Small multimodal model (Mar 2025).', premium: false, forChat: true, free: true },
   { name: 'Mistral Small 3', code: 'mistral-small-2501', provider: 'Mistral', source: 'Mistral', capabilities: ['text', 'lightweight'], description: 'Small model (Jan 2025).', premium: false, forChat: true },
   { name: 'Mistral OCR', code: 'mistral-ocr-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['ocr', 'multimodal', 'text'], description: 'Document understanding OCR API.', premium: false, forChat: false },
@@ -89,30 +99,38 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
   { name: 'Mistral Moderation', code: 'mistral-moderation-latest', provider: 'Mistral', source: 'Mistral', capabilities: ['classifier'], description: 'Text content moderation classifier.', premium: false, forChat: false },
   { name: 'Codestral Embed', code: 'codestral-embed-2505', provider: 'Mistral', source: 'Mistral', capabilities: ['embedding', 'code'], description: 'Embedding model for code.', premium: false, forChat: false },
   { name: 'Mistral Embed', code: 'mistral-embed', provider: 'Mistral', source: 'Mistral', capabilities: ['embedding', 'text'], description: 'Text embedding model.', premium: false, forChat: false },
-  { name: 'Llama 3.1 8B Instant', code: 'llama-3.1-8b-instant', provider: 'Groq', capabilities: ['text', 'reasoning'], description: 'Fast 8B model with 131K context. Great latency.', premium: false, free: true },
+  { name: 'Llama 3.1 8B Instant', code: 'llama-3.1-8b-instant', provider: 'Groq', capabilities: ['text', 'structured_outputs'], description: 'Fast 8B model with 131K context. Great latency.', premium: false, free: true, contextWindow: 131072, maxOutputTokens: 8192 },
   {
     name: 'Llama 3.3 70B Versatile',
     code: 'llama-3.3-70b-versatile',
     provider: 'Groq',
-    capabilities: ['text', 'reasoning', 'code'],
+    capabilities: ['text', 'code', 'structured_outputs'],
     description: 'High-quality 70B model with 131K context, 32K output.',
-    premium: false
+    premium: false,
+    contextWindow: 131072,
+    maxOutputTokens: 32768
   },
   {
     name: 'GPT-OSS 20B',
     code: 'openai/gpt-oss-20b',
     provider: 'Groq',
-    capabilities: ['text', 'reasoning', 'code', 'function_calling'],
+    capabilities: ['text', 'reasoning', 'code', 'function_calling', 'structured_outputs'],
     description: 'Open-weight MoE 20B, fast and cost-efficient with tool use.',
-    premium: false
+    premium: false,
+    contextWindow: 131072,
+    maxOutputTokens: 32768,
+    reasoningControl: 'effort'
   },
   {
     name: 'GPT-OSS 120B',
     code: 'openai/gpt-oss-120b',
     provider: 'Groq',
-    capabilities: ['text', 'reasoning', 'code', 'function_calling'],
+    capabilities: ['text', 'reasoning', 'code', 'function_calling', 'structured_outputs'],
     description: 'Flagship open-weight MoE 120B with strong reasoning and coding.',
-    premium: true
+    premium: true,
+    contextWindow: 131072,
+    maxOutputTokens: 32768,
+    reasoningControl: 'effort'
   }
   ,
   // Qwen (Alibaba Cloud) - best & cheapest latest chat models
@@ -121,7 +139,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     code: 'qwen-max',
     provider: 'Qwen',
     source: 'Alibaba Cloud',
-    capabilities: ['text', 'reasoning', 'agentic'],
+    capabilities: ['text', 'agentic', 'structured_outputs'],
     description: 'Flagship Qwen for complex, multi-step tasks.',
     premium: false,
     forChat: true,
@@ -134,21 +152,24 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     code: 'qwen-plus',
     provider: 'Qwen',
     source: 'Alibaba Cloud',
-    capabilities: ['text', 'reasoning', 'agentic'],
+    capabilities: ['text', 'reasoning', 'agentic', 'structured_outputs'],
     description: 'Balanced performance, speed, and price. Supports thinking and non-thinking modes.',
     premium: false,
     forChat: true,
     inputPricePerMTokens: 0.4,
     outputPricePerMTokens: 1.2,
     pricingNotes: 'Tiered by input length; thinking mode output up to $4/M.',
-    supportsWebSearch: true
+    supportsWebSearch: true,
+    contextWindow: 131072,
+    maxOutputTokens: 16384,
+    reasoningControl: 'toggle'
   },
   {
     name: 'Qwen Flash',
     code: 'qwen-flash',
     provider: 'Qwen',
     source: 'Alibaba Cloud',
-    capabilities: ['text', 'lightweight'],
+    capabilities: ['text', 'reasoning', 'lightweight', 'structured_outputs'],
     description: 'Fastest and most price-efficient for simple jobs.',
     premium: false,
     forChat: true,
@@ -156,21 +177,25 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     inputPricePerMTokens: 0.05,
     outputPricePerMTokens: 0.4,
     pricingNotes: 'Tiered by input length; up to 1M context.',
-    supportsWebSearch: true
+    supportsWebSearch: true,
+    contextWindow: 1000000,
+    reasoningControl: 'toggle'
   },
   {
     name: 'Qwen Turbo',
     code: 'qwen-turbo',
     provider: 'Qwen',
     source: 'Alibaba Cloud',
-    capabilities: ['text', 'lightweight'],
+    capabilities: ['text', 'reasoning', 'lightweight', 'structured_outputs'],
     description: 'Cost-effective general model (superseded by Flash for newest).',
     premium: false,
     forChat: true,
     inputPricePerMTokens: 0.05,
     outputPricePerMTokens: 0.2,
     pricingNotes: 'Thinking mode output around $0.5/M.',
-    supportsWebSearch: true
+    supportsWebSearch: true,
+    contextWindow: 1000000,
+    reasoningControl: 'toggle'
   },
   {
     name: 'QwQ Plus (Reasoning)',
@@ -198,6 +223,29 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     outputPricePerMTokens: 0.63,
     pricingNotes: 'Image/video tokens billed; up to 16k tokens per image.'
   },
+  // Text-to-image for /imagine (generate-image Edge Function)
+  {
+    name: 'Wanx 2.1 Turbo',
+    code: 'wanx2.1-t2i-turbo',
+    provider: 'Qwen',
+    source: 'Alibaba Cloud',
+    capabilities: ['image'],
+    description: 'Fast text-to-image generation.',
+    premium: false,
+    forChat: false,
+    pricingNotes: 'Billed per image; one medium credit.'
+  },
+  {
+    name: 'Wanx 2.1 Plus',
+    code: 'wanx2.1-t2i-plus',
+    provider: 'Qwen',
+    source: 'Alibaba Cloud',
+    capabilities: ['image'],
+    description: 'Detailed text-to-image generation for HD requests.',
+    premium: false,
+    forChat: false,
+    pricingNotes: 'Billed per image; one heavy credit.'
+  },
   // Qwen3 snapshot models (chat)
   {
     name: 'Qwen3 235B Thinking (2507)',
@@ -217,7 +265,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     code: 'qwen3-235b-a22b-instruct-2507',
     provider: 'Qwen',
     source: 'Alibaba Cloud',
-    capabilities: ['text'],
+    capabilities: ['text', 'structured_outputs'],
     description: 'Qwen3 non-thinking snapshot (Jul 2025).',
     premium: false,
     forChat: true,
@@ -243,7 +291,7 @@ export const AVAILABLE_MODELS: ModelInfo[] = [
     code: 'qwen3-30b-a3b-instruct-2507',
     provider: 'Qwen',
     source: 'Alibaba Cloud',
-    capabilities: ['text'],
+    capabilities: ['text', 'structured_outputs'],
     description: 'Qwen3 30B non-thinking snapshot (Jul 2025).',
     premium: false,
     forChat: true,
@@ -287,6 +335,111 @@ export function getModelProvider(modelCode: string): ModelProvider {
   return 'DeepSeek';
 }
 
+export interface ModelParameterLimits {
+  contextWindow: number;
+  maxOutputTokens: number;
+  maxTemperature: number;
+  supportsSampling: boolean;
+  reasoningControl?: 'toggle' | 'effort';
+}
+
+// Provider-wide limits for models that do not declare their own
+const PROVIDER_PARAMETER_LIMITS: Record<ModelProvider, Pick<ModelParameterLimits, 'contextWindow' | 'maxOutputTokens' | 'maxTemperature'>> = {
+  DeepSeek: { contextWindow: 65536, maxOutputTokens: 8192, maxTemperature: 2 },
+  Claude: { contextWindow: 200000, maxOutputTokens: 4096, maxTemperature: 1 },
+  Mistral: { contextWindow: 32768, maxOutputTokens: 8192, maxTemperature: 1.5 },
+  Groq: { contextWindow: 131072, maxOutputTokens: 8192, maxTemperature: 2 },
+  Qwen: { contextWindow: 32768, maxOutputTokens: 8192, maxTemperature: 2 }
+};
+
+export function getModelParameterLimits(modelCode: string): ModelParameterLimits {
+  const model = AVAILABLE_MODELS.find(m => m.code === modelCode);
+  const defaults = PROVIDER_PARAMETER_LIMITS[getModelProvider(modelCode)];
+  return {
+    contextWindow: model?.contextWindow ?? defaults.contextWindow,
+    maxOutputTokens: model?.maxOutputTokens ?? defaults.maxOutputTokens,
+    maxTemperature: model?.maxTemperature ?? defaults.maxTemperature,
+    supportsSampling: model?.supportsSampling ?? true,
+    reasoningControl: model?.reasoningControl
+  };
+}
+
+/**
+ * Whether the model reads images attached to user messages. Keep in sync
+ * with `vision` in the Edge Functions' model table.
+ */
+export function supportsImageInput(modelCode: string): boolean {
+  const model = AVAILABLE_MODELS.find(m => m.code === modelCode);
+  return !!model?.capabilities.includes('multimodal');
+}
+
+/**
+ * Whether the chat Edge Function adds web results for the model when asked.
+ * Keep in sync with `webSearch` in the Edge Functions' model table.
+ */
+export function supportsWebSearch(modelCode: string): boolean {
+  const model = AVAILABLE_MODELS.find(m => m.code === modelCode);
+  return !!model?.supportsWebSearch;
+}
+
+/**
+ * Whether the model thinks before it answers and streams that reasoning
+ * (the `reasoning` capability), shown as the answer's thought process.
+ * Hybrid models (`reasoningControl: 'toggle'`) only think when `thinking` is
+ * switched on in `parameters`; it is off unless set, as in the parameters
+ * panel.
+ */
+export function isReasoningModel(modelCode: string, parameters: GenerationParameters = {}): boolean {
+  const model = AVAILABLE_MODELS.find(m => m.code === modelCode);
+  if (!model?.capabilities.includes('reasoning')) return false;
+  return model.reasoningControl !== 'toggle' || parameters.thinking === true;
+}
+
+/**
+ * Whether the provider constrains the model's answer to JSON when asked.
+ * Keep in sync with `structuredOutput` in the Edge Functions' model table.
+ */
+export function supportsStructuredOutput(modelCode: string): boolean {
+  const model = AVAILABLE_MODELS.find(m => m.code === modelCode);
+  return !!model?.capabilities.includes('structured_outputs');
+}
+
+/**
+ * Whether the model can call tools (calculator, web search, user HTTP
+ * tools...). Keep in sync with `tools` in the Edge Functions' model table.
+ */
+export function supportsToolCalling(modelCode: string): boolean {
+  const model = AVAILABLE_MODELS.find(m => m.code === modelCode);
+  return !!model?.capabilities.some(capability => capability === 'function_calling' || capability === 'agentic');
+}
+
+/**
+ * Fit a conversation's parameters to a model: values are clamped to its
+ * limits and settings it does not support are dropped. Unset fields are
+ * left out entirely, so the result can be spread over other defaults.
+ */
+export function resolveGenerationParameters(parameters: GenerationParameters, modelCode: string): GenerationParameters {
+  const limits = getModelParameterLimits(modelCode);
+  const resolved: GenerationParameters = {};
+
+  if (limits.supportsSampling && parameters.temperature !== undefined) {
+    resolved.temperature = Math.min(Math.max(parameters.temperature, 0), limits.maxTemperature);
+  }
+  if (limits.supportsSampling && parameters.topP !== undefined) {
+    resolved.topP = Math.min(Math.max(parameters.topP, 0), 1);
+  }
+  if (parameters.maxTokens !== undefined) {
+    resolved.maxTokens = Math.min(Math.max(Math.round(parameters.maxTokens), 1), limits.maxOutputTokens);
+  }
+  if (limits.reasoningControl === 'effort' && parameters.reasoningEffort) {
+    resolved.reasoningEffort = parameters.reasoningEffort;
+  }
+  if (limits.reasoningControl === 'toggle' && parameters.thinking !== undefined) {
+    resolved.thinking = parameters.thinking;
+  }
+  return resolved;
+}
+
 export type ModelTier = 'light' | 'medium' | 'heavy';
 
 // Classify models into Light/Medium/Heavy based on price hints and name heuristics.
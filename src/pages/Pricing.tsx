@@ -1,6 +1,6 @@
 import React from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { SUBSCRIPTION_PLANS, StripeService } from '../lib/stripeService';
+import { SUBSCRIPTION_PLANS, StripeService, type TokenBundle } from '../lib/stripeService';
 import { ArrowLeft, Sparkles, ArrowRight, LogIn } from 'lucide-react';
 
 export default function Pricing() {
@@ -8,6 +8,11 @@ export default function Pricing() {
   const prefersLight = typeof window !== 'undefined' && window.matchMedia && window.matchMedia('(prefers-color-scheme: light)').matches;
   const isLight = prefersLight;
   const [actionLoading, setActionLoading] = React.useState<string | null>(null);
+  const [bundles, setBundles] = React.useState<TokenBundle[]>([]);
+
+  React.useEffect(() => {
+    StripeService.getBundles().then(setBundles).catch(() => setBundles([]));
+  }, []);
 
   const handleBackToHome = () => {
     window.location.href = '/';
@@ -98,7 +103,43 @@ export default function Pricing() {
           </div>
         </div>
 
-        {/* Bundles removed — subscription-only */}
+        {/* Credit packs from the bundle catalog */}
+        {bundles.length > 0 && (
+          <div className="mt-16">
+            <h2 className={`text-3xl font-extrabold text-center mb-3 ${isLight ? 'text-gray-900' : ''}`}>Credit Packs</h2>
+            <p className={`${isLight ? 'text-gray-600' : 'text-white/70'} text-center mb-10`}>One-time credit top-ups, no subscription required.</p>
+            <div className="grid md:grid-cols-3 gap-8 max-w-6xl mx-auto">
+              {bundles.map((bundle) => (
+                <div key={bundle.sku} className={`relative rounded-3xl ${isLight ? 'border border-gray-200 bg-white' : 'glass border border-white/10'} shadow-xl hover:shadow-2xl transition-all transform hover:-translate-y-1`}>
+                  <div className="p-8">
+                    <div className="text-center mb-6">
+                      <h3 className="text-2xl font-extrabold">{bundle.name}</h3>
+                      {bundle.price && <div className="mt-3 text-4xl font-extrabold">{bundle.price}</div>}
+                      {bundle.description && <p className={`${isLight ? 'text-gray-600' : 'text-white/70'} mt-3 text-sm`}>{bundle.description}</p>}
+                      <ul className={`${isLight ? 'text-gray-600' : 'text-white/70'} mt-3 text-sm space-y-1`}>
+                        {bundle.credits.light > 0 && <li>• {bundle.credits.light} Light credits</li>}
+                        {bundle.credits.medium > 0 && <li>• {bundle.credits.medium} Medium credits</li>}
+                        {bundle.credits.heavy > 0 && <li>• {bundle.credits.heavy} Heavy credits</li>}
+                        {bundle.features.map(f => (<li key={f}>• {f}</li>))}
+                      </ul>
+                    </div>
+                    <button
+                      onClick={async () => {
+                        if (!user) { alert('Please log in to buy credits.'); return }
+                        setActionLoading(bundle.sku)
+                        try { await StripeService.createBundleCheckout(bundle) } catch(e){ console.error(e); alert('Failed to start checkout. Please try again.'); } finally { setActionLoading(null) }
+                      }}
+                      disabled={actionLoading === bundle.sku || !bundle.purchasable}
+                      className="group w-full py-3 px-6 rounded-xl font-semibold transition-all bg-gradient-to-r from-purple-600 to-indigo-600 text-white hover:shadow-[0_14px_60px_rgba(124,58,237,.55)] disabled:opacity-50 shadow-[0_10px_40px_rgba(124,58,237,.35)]"
+                    >
+                      {actionLoading === bundle.sku ? 'Processing…' : (!bundle.purchasable ? 'Coming Soon' : 'Buy')} <ArrowRight className="inline w-4 h-4 ml-1 translate-x-0 group-hover:translate-x-0.5 transition" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
 
         {/* Selling points below the fold */}
         <div className="mt-12 grid md:grid-cols-3 gap-6 max-w-6xl mx-auto">
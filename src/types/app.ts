@@ -1,9 +1,27 @@
+import type { MessageAttachment } from '../lib/attachments';
+import type { ChatCitation, ToolStep } from '../lib/chat-stream';
+
 export interface Message {
   id: string;
   type: 'user' | 'ai';
   content: string;
   timestamp: Date;
+  /** Files attached to a user message, or the image generated for an `/imagine` prompt */
+  attachments?: MessageAttachment[];
+  /** Document excerpts an answer was given, numbered as cited in its text */
+  citations?: ChatCitation[];
+  /** Tools the model called while answering, with their results */
+  toolSteps?: ToolStep[];
+  /** Thought process of a thinking model, shown collapsed above the answer */
+  reasoning?: string;
+  /** How long the model thought; missing while it is still thinking */
+  reasoningDurationMs?: number;
   model?: string;
+  stopped?: boolean;
+  errorCode?: string;
+  /** Position among sibling branches, for the branch switcher */
+  siblingIndex?: number;
+  siblingCount?: number;
 }
 
 export interface CustomizationSettings {
@@ -63,6 +81,27 @@ export interface ModelInfo {
   pricingNotes?: string;
   supportsWebSearch?: boolean;
   free?: boolean; // free-to-use without tokens (limited messages)
+  /** Context length in tokens (prompt and answer); see getModelParameterLimits for defaults */
+  contextWindow?: number;
+  /** Largest max_tokens the provider accepts; see getModelParameterLimits for defaults */
+  maxOutputTokens?: number;
+  /** Highest accepted temperature */
+  maxTemperature?: number;
+  /** False for reasoning models that ignore temperature and top_p */
+  supportsSampling?: boolean;
+  /** `toggle`: thinking can be switched on/off; `effort`: low/medium/high budget */
+  reasoningControl?: 'toggle' | 'effort';
+}
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+/** Per-conversation generation settings; unset fields use the provider defaults */
+export interface GenerationParameters {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  reasoningEffort?: ReasoningEffort;
+  thinking?: boolean;
 }
 
 export const MODEL_CAPABILITIES: Record<string, ModelCapability> = {
@@ -1,3 +1,5 @@
+import type { ConversationMetadata } from '../lib/conversations'
+
 export type Database = {
   public: {
     Tables: {
@@ -47,6 +49,8 @@ export type Database = {
           model: string
           is_shared: boolean
           share_id: string | null
+          metadata: ConversationMetadata | null
+          persona_id: string | null
           created_at: string
           updated_at: string
         }
@@ -57,6 +61,8 @@ export type Database = {
           model: string
           is_shared?: boolean
           share_id?: string | null
+          metadata?: ConversationMetadata | null
+          persona_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -67,6 +73,8 @@ export type Database = {
           model?: string
           is_shared?: boolean
           share_id?: string | null
+          metadata?: ConversationMetadata | null
+          persona_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -76,36 +84,121 @@ export type Database = {
           id: string
           conversation_id: string
           type: 'user' | 'ai'
+          role: 'user' | 'assistant'
           content: string
           model: string | null
           parent_message_id: string | null
+          branch_id: string | null
           attachments: string[] | null
-          metadata: Record<string, any> | null
+          metadata: Record<string, unknown> | null
           created_at: string
         }
         Insert: {
           id?: string
           conversation_id: string
           type: 'user' | 'ai'
+          role?: 'user' | 'assistant'
           content: string
           model?: string | null
           parent_message_id?: string | null
+          branch_id?: string | null
           attachments?: string[] | null
-          metadata?: Record<string, any> | null
+          metadata?: Record<string, unknown> | null
           created_at?: string
         }
         Update: {
           id?: string
           conversation_id?: string
           type?: 'user' | 'ai'
+          role?: 'user' | 'assistant'
           content?: string
           model?: string | null
           parent_message_id?: string | null
+          branch_id?: string | null
           attachments?: string[] | null
-          metadata?: Record<string, any> | null
+          metadata?: Record<string, unknown> | null
           created_at?: string
         }
       }
+      personas: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          icon: string
+          system_prompt: string
+          default_model: string | null
+          temperature: number | null
+          is_public: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          icon?: string
+          system_prompt: string
+          default_model?: string | null
+          temperature?: number | null
+          is_public?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          icon?: string
+          system_prompt?: string
+          default_model?: string | null
+          temperature?: number | null
+          is_public?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      user_tools: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          description: string
+          parameters: Record<string, unknown>
+          url: string
+          method: 'GET' | 'POST'
+          headers: Record<string, string>
+          enabled: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          description: string
+          parameters?: Record<string, unknown>
+          url: string
+          method?: 'GET' | 'POST'
+          headers?: Record<string, string>
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          description?: string
+          parameters?: Record<string, unknown>
+          url?: string
+          method?: 'GET' | 'POST'
+          headers?: Record<string, string>
+          enabled?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
       user_messages: {
         Row: {
           id: number
@@ -0,0 +1,95 @@
+/**
+ * Image attachments for vision models.
+ *
+ * User messages reference rows of the `attachments` table by id. Before the
+ * provider is called, the ids are checked against the caller's own uploads
+ * and replaced by short-lived signed URLs of the storage objects, which the
+ * provider downloads itself. Anonymous callers cannot upload, so they cannot
+ * send images either.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ChatError, type IncomingMessage } from './chat-types.ts';
+import type { ChatCaller } from './chat-auth.ts';
+
+const ATTACHMENTS_BUCKET = 'attachments';
+
+/** Long enough for the provider to fetch the images of one request */
+const SIGNED_URL_TTL_SECONDS = 600;
+
+/** Images across the whole history; the client drops the oldest beyond this */
+export const MAX_IMAGES_PER_REQUEST = 16;
+
+/**
+ * Validate the `attachments` of every message and return the distinct ids,
+ * oldest first
+ */
+export function readAttachmentIds(messages: IncomingMessage[]): string[] {
+  const ids = new Set<string>();
+  for (const message of messages) {
+    if (message.attachments === undefined) continue;
+    if (!Array.isArray(message.attachments) || message.attachments.some((id) => typeof id !== 'string' || !id)) {
+      throw new ChatError('bad_request', 'attachments must be an array of attachment ids', 400);
+    }
+    const role = message.role ?? (message.type === 'user' ? 'user' : 'assistant');
+    if (role !== 'user' && message.attachments.length > 0) {
+      throw new ChatError('bad_request', 'Only user messages can have attachments', 400);
+    }
+    message.attachments.forEach((id) => ids.add(id));
+  }
+
+  if (ids.size > MAX_IMAGES_PER_REQUEST) {
+    throw new ChatError('bad_request', `A request can include at most ${MAX_IMAGES_PER_REQUEST} images`, 400);
+  }
+  return [...ids];
+}
+
+/**
+ * Signed URL per attachment id. Every id must be an image uploaded by the
+ * caller; unknown and foreign ids are rejected alike.
+ */
+export async function resolveImageUrls(
+  supabaseAdmin: SupabaseClient,
+  caller: ChatCaller,
+  ids: string[],
+): Promise<Map<string, string>> {
+  const urls = new Map<string, string>();
+  if (ids.length === 0) return urls;
+  if (!caller.user) {
+    throw new ChatError('unauthorized', 'Sign in to send images', 401);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('attachments')
+    .select('id, user_id, file_type, storage_path')
+    .in('id', ids);
+
+  if (error) {
+    console.error('❌ Failed to load attachments:', error);
+    throw new ChatError('internal_error', 'Could not load the attached images', 500);
+  }
+
+  const rows = new Map((data ?? []).map((row) => [row.id as string, row]));
+  for (const id of ids) {
+    const row = rows.get(id);
+    if (!row || row.user_id !== caller.user.id) {
+      throw new ChatError('bad_request', `Attachment ${id} not found`, 400);
+    }
+    if (!String(row.file_type).startsWith('image/')) {
+      throw new ChatError('bad_request', `Attachment ${id} is not an image`, 400);
+    }
+  }
+
+  const paths = ids.map((id) => rows.get(id)!.storage_path as string);
+  const { data: signed, error: signError } = await supabaseAdmin.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (signError || !signed || signed.some((entry) => entry.error || !entry.signedUrl)) {
+    console.error('❌ Failed to sign attachment URLs:', signError ?? signed);
+    throw new ChatError('internal_error', 'Could not prepare the attached images', 500);
+  }
+
+  ids.forEach((id, index) => urls.set(id, signed[index].signedUrl));
+  return urls;
+}
@@ -0,0 +1,40 @@
+/**
+ * Bundle catalog lookups shared by the Stripe functions.
+ * The `bundles` table is the single source of per-tier credit amounts.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+export interface Bundle {
+  sku: string;
+  name: string;
+  stripe_price_id: string | null;
+  light_credits: number;
+  medium_credits: number;
+  heavy_credits: number;
+  active: boolean;
+}
+
+/**
+ * Load a bundle by SKU. Checkout passes `activeOnly` so retired bundles can
+ * no longer be bought; fulfillment does not, so purchases made before a
+ * bundle was retired are still credited.
+ */
+export async function getBundle(
+  supabaseAdmin: SupabaseClient,
+  sku: string,
+  { activeOnly = false }: { activeOnly?: boolean } = {},
+): Promise<Bundle | null> {
+  let query = supabaseAdmin
+    .from('bundles')
+    .select('sku, name, stripe_price_id, light_credits, medium_credits, heavy_credits, active')
+    .eq('sku', sku);
+  if (activeOnly) query = query.eq('active', true);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    console.error('Failed to load bundle', sku, error);
+    return null;
+  }
+  return data as Bundle | null;
+}
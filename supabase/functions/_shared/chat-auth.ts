@@ -0,0 +1,148 @@
+/**
+ * Caller authentication shared by the chat Edge Functions.
+ *
+ * Policy:
+ * - A valid user JWT in `Authorization` identifies a signed-in user.
+ * - The project anon key (as `apikey` header or bearer token) marks an
+ *   anonymous caller. Anonymous callers can only use light-tier models and
+ *   get `ANONYMOUS_DAILY_LIMIT` messages per client IP and day (default 3,
+ *   like the client-side counter); see `reserveAnonymousMessage`.
+ * - Anything else is rejected with 401.
+ */
+
+import { createClient, type SupabaseClient, type User } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ChatError, type CreditTier } from './chat-types.ts';
+
+const DEFAULT_ANONYMOUS_DAILY_LIMIT = 3;
+
+export interface UserUsage {
+  message_count: number;
+  message_limit: number;
+  subscription_tier: string;
+}
+
+export interface ChatCaller {
+  isAnonymous: boolean;
+  user: User | null;
+  usage: UserUsage | null;
+}
+
+export function createAdminClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  );
+}
+
+function isAnonKey(value: string | null): boolean {
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  return !!value && !!anonKey && value === anonKey;
+}
+
+export async function authenticateCaller(req: Request, supabaseAdmin: SupabaseClient): Promise<ChatCaller> {
+  const authHeader = req.headers.get('Authorization');
+  const apiKey = req.headers.get('apikey');
+  const token = authHeader?.replace(/^Bearer\s+/i, '') || null;
+
+  if (token && !isAnonKey(token)) {
+    const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+    if (error || !user) {
+      throw new ChatError('unauthorized', 'Invalid or expired token', 401, { reason: error?.message });
+    }
+
+    const { data: usage, error: usageError } = await supabaseAdmin
+      .from('users')
+      .select('message_count, message_limit, subscription_tier')
+      .eq('id', user.id)
+      .single();
+
+    if (usageError) {
+      console.error('❌ Failed to fetch user data:', usageError);
+    }
+
+    return { isAnonymous: false, user, usage: usage ?? null };
+  }
+
+  // SUPABASE_ANON_KEY is injected by the platform; if it is missing locally,
+  // fall back to trusting the gateway's apikey check
+  if (isAnonKey(token) || isAnonKey(apiKey) || (apiKey && !Deno.env.get('SUPABASE_ANON_KEY'))) {
+    return { isAnonymous: true, user: null, usage: null };
+  }
+
+  throw new ChatError('unauthorized', 'Missing authorization header or API key', 401);
+}
+
+export function assertWithinMessageLimit(caller: ChatCaller): void {
+  const usage = caller.usage;
+  if (!usage) return;
+  if (usage.message_count >= usage.message_limit) {
+    throw new ChatError('message_limit_exceeded', 'Message limit exceeded', 429, {
+      limit: usage.message_limit,
+      current: usage.message_count,
+      subscription_tier: usage.subscription_tier,
+    });
+  }
+}
+
+function anonymousDailyLimit(): number {
+  const configured = Number(Deno.env.get('ANONYMOUS_DAILY_LIMIT'));
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_ANONYMOUS_DAILY_LIMIT;
+}
+
+/** SHA-256 of the client IP the gateway reports, so raw addresses are never stored */
+async function hashClientIp(req: Request): Promise<string> {
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || 'unknown';
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ip));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Count a message for an anonymous caller, who has no credits to reserve.
+ * Models above the light tier need an account (401), and each client IP
+ * gets a daily message limit (429). Signed-in callers pass through.
+ */
+export async function reserveAnonymousMessage(
+  supabaseAdmin: SupabaseClient,
+  req: Request,
+  caller: ChatCaller,
+  tier: CreditTier,
+  model: string,
+): Promise<void> {
+  if (caller.user) return;
+
+  if (tier !== 'light') {
+    throw new ChatError('unauthorized', `Sign in to use ${model}`, 401, { sign_in_required: true });
+  }
+
+  const limit = anonymousDailyLimit();
+  const { data, error } = await supabaseAdmin.rpc('record_anonymous_message', {
+    p_ip_hash: await hashClientIp(req),
+    p_daily_limit: limit,
+  });
+
+  if (error) {
+    console.error('❌ Anonymous usage check failed:', error);
+    throw new ChatError('internal_error', 'Could not check your message limit', 500);
+  }
+  if (data === null) {
+    throw new ChatError('message_limit_exceeded', `Anonymous chat is limited to ${limit} messages per day. Sign in to keep chatting.`, 429, {
+      limit,
+      sign_in_required: true,
+    });
+  }
+}
+
+/** Fire-and-forget increment of the per-user message counter */
+export function recordMessageUsage(supabaseAdmin: SupabaseClient, caller: ChatCaller): void {
+  if (!caller.user || !caller.usage) return;
+  supabaseAdmin
+    .from('users')
+    .update({
+      message_count: caller.usage.message_count + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', caller.user.id)
+    .then(({ error }) => {
+      if (error) console.error('Failed to increment message count:', error);
+    });
+}
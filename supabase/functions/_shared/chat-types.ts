@@ -0,0 +1,227 @@
+/**
+ * Shared chat contract for all chat Edge Functions.
+ *
+ * Every provider adapter receives a normalized ChatRequest and yields
+ * ProviderEvents; the shared handler turns those into the SSE events the
+ * browser client consumes (`chunk`, `reasoning`, `tool_call`, `tool_result`,
+ * `complete`, `error`).
+ */
+
+export type ProviderId = 'deepseek' | 'claude' | 'mistral' | 'groq' | 'qwen' | 'gemini';
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  /** Signed URLs of images attached to a user message (vision models only) */
+  images?: string[];
+  /** Tools an assistant turn called; answered by the `tool` messages after it */
+  toolCalls?: ToolCall[];
+  /** Call a `tool` message answers */
+  toolCallId?: string;
+  /** Name of the tool a `tool` message comes from */
+  name?: string;
+}
+
+/** Function call requested by the model */
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON-encoded arguments as produced by the model */
+  arguments: string;
+}
+
+/** Tool offered to the model; `parameters` is the JSON schema of its arguments object */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/** Tool call and its outcome, as shown under the answer */
+export interface ToolStep {
+  id: string;
+  name: string;
+  arguments: string;
+  result?: string;
+  isError?: boolean;
+}
+
+/**
+ * Message shape accepted on the wire. Older clients send `type: 'user' | 'ai'`
+ * instead of `role`, so both are accepted and normalized.
+ */
+export interface IncomingMessage {
+  role?: string;
+  type?: 'user' | 'ai';
+  content: unknown;
+  /** Ids of the caller's `attachments` rows to send as images */
+  attachments?: unknown;
+}
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  /** Add cited web search results to the prompt; ignored for models without `webSearch` */
+  webSearch?: boolean;
+  /** Thinking budget for models that accept one (GPT-OSS on Groq) */
+  reasoningEffort?: ReasoningEffort;
+  /** Switch thinking on or off for hybrid models (Qwen Plus/Flash/Turbo) */
+  thinking?: boolean;
+}
+
+/** Requested shape of the answer: a JSON value matching `schema` */
+export interface ResponseFormat {
+  /** Schema name passed to providers that want one; letters, digits, `_` and `-` */
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ChatRequestBody {
+  messages: IncomingMessage[];
+  model: string;
+  /** Persona instructions; replaces DEFAULT_SYSTEM_PROMPT for every provider */
+  systemPrompt?: string;
+  /** Summary of earlier turns the client left out to fit the context window */
+  contextSummary?: string;
+  /** Ids of the caller's PDF or text attachments to answer from */
+  documents?: unknown;
+  conversationId?: string;
+  stream?: boolean;
+  webSearch?: boolean;
+  /** Offer the tool registry to models with `tools` in the model table */
+  tools?: boolean;
+  /** Ask for JSON; enforced upstream for models with `structuredOutput` in the model table */
+  responseFormat?: ResponseFormat;
+  /** `context_summary`: fold earlier turns into a summary at a light-tier price (see `chat.ts`) */
+  purpose?: 'context_summary';
+  options?: ChatOptions;
+}
+
+/** Normalized request handed to a provider adapter */
+export interface ChatRequest {
+  /** Model code as known to the client registry (e.g. 'DeepSeek-V3') */
+  model: string;
+  /** Model id sent to the upstream provider (e.g. 'deepseek-chat') */
+  upstreamModel: string;
+  messages: ChatMessage[];
+  options: ChatOptions;
+  /** Tools the model may call; only OpenAI-compatible adapters send them */
+  tools?: ToolDefinition[];
+  /** `none` forces a text answer, e.g. once the tool step limit is reached */
+  toolChoice?: 'auto' | 'none';
+  /** JSON mode to request upstream; only OpenAI-compatible adapters send it */
+  responseFormat?: ResponseFormat & { mode: 'json_schema' | 'json_object' };
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type CreditTier = 'light' | 'medium' | 'heavy';
+
+/** Credits charged for an answer; only present for signed-in callers */
+export interface ChatBilling {
+  tier: CreditTier;
+  credits: number;
+  /** Estimated provider cost, null when the model has no list price */
+  costUsd: number | null;
+}
+
+/**
+ * Source the answer can cite as `[index]`: an excerpt of an attached
+ * document, identified by file and page
+ */
+export interface DocumentCitation {
+  index: number;
+  source: 'document';
+  attachmentId: string;
+  filename: string;
+  /** 1-based PDF page; null for text files */
+  page: number | null;
+}
+
+/** Web search result the answer can cite as `[index]` */
+export interface WebCitation {
+  index: number;
+  source: 'web';
+  url: string;
+  title: string;
+}
+
+export type ChatCitation = DocumentCitation | WebCitation;
+
+/**
+ * Events produced by provider adapters. `reasoning` carries the thought
+ * process of thinking models, separate from the answer text. `tool_call` is
+ * emitted once a call has been streamed completely; `tool_result` only comes
+ * from the tool loop (see `tool-loop.ts`), after it ran the call.
+ */
+export type ProviderEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'reasoning'; content: string }
+  | { type: 'usage'; usage: ChatUsage }
+  | { type: 'tool_call'; call: ToolCall }
+  | { type: 'tool_result'; id: string; name: string; result: string; isError: boolean };
+
+/** Events streamed to the browser as `data: <json>` SSE lines */
+export type ChatStreamEvent =
+  | { type: 'chunk'; content: string }
+  | { type: 'reasoning'; content: string }
+  | { type: 'tool_call'; id: string; name: string; arguments: string }
+  | { type: 'tool_result'; id: string; name: string; result: string; isError: boolean }
+  | {
+      type: 'complete';
+      content: string;
+      model: string;
+      usage?: ChatUsage;
+      billing?: ChatBilling;
+      citations?: ChatCitation[];
+      toolSteps?: ToolStep[];
+      /** Full thought process of a thinking model */
+      reasoning?: string;
+      messageCount?: number;
+      messageLimit?: number;
+    }
+  | { type: 'error'; error: string; code: ChatErrorCode };
+
+export interface ProviderAdapter {
+  id: ProviderId;
+  /** Human readable name used in logs and error messages */
+  name: string;
+  stream(request: ChatRequest): AsyncGenerator<ProviderEvent>;
+}
+
+export type ChatErrorCode =
+  | 'bad_request'
+  | 'unauthorized'
+  | 'message_limit_exceeded'
+  | 'insufficient_credits'
+  | 'unknown_model'
+  | 'provider_not_configured'
+  | 'provider_error'
+  | 'empty_response'
+  | 'internal_error';
+
+/**
+ * Error type used across the chat functions. The shared handler maps it to a
+ * JSON error response (before streaming starts) or an SSE `error` event.
+ */
+export class ChatError extends Error {
+  constructor(
+    public code: ChatErrorCode,
+    message: string,
+    public status: number = 500,
+    public details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = 'ChatError';
+  }
+}
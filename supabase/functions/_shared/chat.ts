@@ -0,0 +1,593 @@
+/**
+ * Shared chat request handler.
+ *
+ * Every chat Edge Function delegates here: the handler authenticates the
+ * caller, validates and normalizes the request, resolves the provider for
+ * the requested model, runs the provider adapter and re-encodes its output
+ * as the SSE contract the browser expects:
+ *
+ *   data: {"type":"chunk","content":"..."}
+ *   data: {"type":"complete","content":"<full text>","model":"...","usage":{...}}
+ *   data: {"type":"error","error":"...","code":"..."}
+ *
+ * Errors raised before the first token are returned as JSON with a proper
+ * HTTP status (`{ error, code, ...details }`); errors after streaming has
+ * started are delivered as an `error` event.
+ *
+ * When the client disconnects or cancels the stream, the upstream provider
+ * request is aborted. A stopped generation counts towards the message limit
+ * only if some text was already streamed.
+ *
+ * Signed-in callers pay one credit per answer; see `credits.ts` for when the
+ * reservation is settled or refunded. Anonymous callers are limited to
+ * light-tier models and a daily message count per IP (see `chat-auth.ts`). They can also attach images to user
+ * messages for vision models (see `attachments.ts`) and PDF or text
+ * documents, whose most relevant excerpts are added as context and returned
+ * as `citations` on the `complete` event (see `documents.ts`). Models with
+ * `webSearch` in the model table get web results for the last prompt when
+ * a signed-in client asks for them; they are cited the same way (see
+ * `web-search.ts`).
+ *
+ * Models with `tools` in the model table can call the tool registry when the
+ * client sets `tools: true` (see `tools.ts`). The calls are run here, in a
+ * loop with a step limit (see `tool-loop.ts`), and streamed as
+ *
+ *   data: {"type":"tool_call","id":"...","name":"...","arguments":"{...}"}
+ *   data: {"type":"tool_result","id":"...","name":"...","result":"...","isError":false}
+ *
+ * The `complete` event repeats them as `toolSteps`.
+ *
+ * Thinking models stream their thought process separately from the answer,
+ * as `data: {"type":"reasoning","content":"..."}`; the `complete` event
+ * repeats it in full as `reasoning`.
+ *
+ * A `responseFormat` (`{ name, schema }`) asks for a JSON answer. Models with
+ * `structuredOutput` in the model table get the provider's JSON mode; the
+ * client validates the answer against the schema either way.
+ *
+ * Requests with `purpose: 'context_summary'` fold earlier turns into the
+ * rolling summary the client sends as `contextSummary`. They run with fixed
+ * instructions and a short answer and take a single user message and
+ * nothing else. They are billed one light-tier credit (metered like any
+ * answer) but not counted towards the message limit, which the answer they
+ * are made for already is.
+ */
+
+import { corsHeaders } from './cors.ts';
+import {
+  ChatError,
+  type ChatCitation,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatRequest,
+  type ChatRequestBody,
+  type ChatUsage,
+  type CreditTier,
+  type IncomingMessage,
+  type ProviderEvent,
+  type ProviderId,
+  type ResponseFormat,
+  type ToolStep,
+} from './chat-types.ts';
+import {
+  assertWithinMessageLimit,
+  authenticateCaller,
+  createAdminClient,
+  recordMessageUsage,
+  reserveAnonymousMessage,
+  type ChatCaller,
+} from './chat-auth.ts';
+import { readAttachmentIds, resolveImageUrls } from './attachments.ts';
+import { readDocumentIds, resolveDocumentContext } from './documents.ts';
+import { resolveWebContext } from './web-search.ts';
+import { loadTools, type ChatTool } from './tools.ts';
+import { runToolLoop } from './tool-loop.ts';
+import { refundCredit, reserveCredit, settleCredit, type CreditReservation } from './credits.ts';
+import { resolveModel } from './models.ts';
+import { PROVIDER_ADAPTERS } from './providers/index.ts';
+import { encodeEvent, jsonResponse, sseHeaders } from './sse.ts';
+
+export const DEFAULT_SYSTEM_PROMPT =
+  'You are a helpful AI assistant. Provide clear, accurate, and helpful responses. When showing code, use proper markdown code fences with language tags.';
+
+/** Same limit as `personas.system_prompt` */
+const MAX_SYSTEM_PROMPT_LENGTH = 8000;
+const MAX_CONTEXT_SUMMARY_LENGTH = 16000;
+
+/** Upper bound for `options.maxTokens`; per-model limits are enforced by the client */
+const MAX_OUTPUT_TOKENS = 131072;
+
+const REASONING_EFFORTS = ['low', 'medium', 'high'];
+
+/** OpenAI-style schema names */
+const RESPONSE_FORMAT_NAME = /^[a-zA-Z0-9_-]{1,64}$/;
+const MAX_RESPONSE_SCHEMA_CHARS = 16000;
+
+const CONTEXT_SUMMARY_INSTRUCTIONS = 'You maintain a running summary of a chat between a user and an AI assistant. ' +
+  'Merge the previous summary (if any) with the new turns into one concise summary of at most 300 words. ' +
+  'Keep facts, decisions, names, numbers, code identifiers and open questions; drop pleasantries. ' +
+  'Reply with the summary only.';
+const CONTEXT_SUMMARY_MAX_TOKENS = 1024;
+const CONTEXT_SUMMARY_TIER: CreditTier = 'light';
+
+export interface ChatHandlerOptions {
+  /**
+   * Pin the function to one provider. Legacy per-provider endpoints use this
+   * so unknown model codes are still forwarded to that provider as-is.
+   */
+  provider?: ProviderId;
+}
+
+/**
+ * Strip control characters that break JSON encoding upstream while keeping
+ * newlines and tabs, which matter for code blocks in history.
+ */
+function sanitizeContent(content: unknown): string {
+  const text = typeof content === 'string' ? content : String(content ?? '');
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F-\u009F]/g, '')
+    .replace(/\uFEFF/g, '')
+    .trim();
+}
+
+export interface NormalizeOptions {
+  systemPrompt?: string;
+  contextSummary?: string;
+  /** Signed URL per attachment id */
+  imageUrls?: Map<string, string>;
+  /** Numbered document excerpts */
+  documentContext?: string;
+  /** Numbered web search results */
+  webContext?: string;
+}
+
+/**
+ * Normalize roles and content, and make sure the conversation starts with
+ * exactly one system prompt: the caller's `systemPrompt` when given,
+ * otherwise a system message already in the history or the default. A
+ * `contextSummary` and `documentContext` follow as further system messages.
+ * Attachment ids are replaced by their URL in `imageUrls`.
+ */
+export function normalizeMessages(
+  messages: IncomingMessage[],
+  { systemPrompt, contextSummary, imageUrls = new Map(), documentContext, webContext }: NormalizeOptions = {},
+): ChatMessage[] {
+  const normalized: ChatMessage[] = messages.map((msg) => {
+    const role = msg.role ?? (msg.type === 'user' ? 'user' : 'assistant');
+    const images = Array.isArray(msg.attachments)
+      ? msg.attachments.map((id) => imageUrls.get(id)).filter((url): url is string => !!url)
+      : [];
+    return {
+      role: role === 'system' || role === 'user' ? role : 'assistant',
+      content: sanitizeContent(msg.content),
+      ...(images.length > 0 ? { images } : {}),
+    };
+  });
+
+  const instructions = systemPrompt ? sanitizeContent(systemPrompt) : '';
+  const withPrompt: ChatMessage[] = instructions
+    ? [{ role: 'system', content: instructions }, ...normalized.filter((m) => m.role !== 'system')]
+    : normalized.some((m) => m.role === 'system')
+      ? normalized
+      : [{ role: 'system', content: DEFAULT_SYSTEM_PROMPT }, ...normalized];
+
+  const summary = contextSummary ? sanitizeContent(contextSummary) : '';
+  const extra: ChatMessage[] = [
+    ...(summary
+      ? [{ role: 'system' as const, content: `Summary of the earlier conversation, which is no longer included verbatim:\n${summary}` }]
+      : []),
+    ...(documentContext ? [{ role: 'system' as const, content: sanitizeContent(documentContext) }] : []),
+    ...(webContext ? [{ role: 'system' as const, content: sanitizeContent(webContext) }] : []),
+  ];
+  if (extra.length === 0) return withPrompt;
+
+  const firstTurn = withPrompt.findIndex((m) => m.role !== 'system');
+  const at = firstTurn < 0 ? withPrompt.length : firstTurn;
+  return [...withPrompt.slice(0, at), ...extra, ...withPrompt.slice(at)];
+}
+
+/** Text of the newest user message, which document excerpts and web searches are matched against */
+function lastUserPrompt(messages: IncomingMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const role = messages[i].role ?? (messages[i].type === 'user' ? 'user' : 'assistant');
+    if (role === 'user') return sanitizeContent(messages[i].content);
+  }
+  return '';
+}
+
+function assertRange(name: string, value: unknown, min: number, max: number): void {
+  if (value === undefined) return;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    throw new ChatError('bad_request', `options.${name} must be a number between ${min} and ${max}`, 400);
+  }
+}
+
+/**
+ * Reject generation parameters no provider accepts, so a bad value surfaces
+ * as a 400 instead of an upstream error halfway through the request
+ */
+function validateOptions(options: ChatOptions | undefined): void {
+  if (options === undefined) return;
+  if (typeof options !== 'object' || options === null) {
+    throw new ChatError('bad_request', 'options must be an object', 400);
+  }
+
+  assertRange('temperature', options.temperature, 0, 2);
+  assertRange('topP', options.topP, 0, 1);
+  assertRange('maxTokens', options.maxTokens, 1, MAX_OUTPUT_TOKENS);
+  if (options.maxTokens !== undefined && !Number.isInteger(options.maxTokens)) {
+    throw new ChatError('bad_request', 'options.maxTokens must be an integer', 400);
+  }
+  if (options.reasoningEffort !== undefined && !REASONING_EFFORTS.includes(options.reasoningEffort)) {
+    throw new ChatError('bad_request', `options.reasoningEffort must be one of ${REASONING_EFFORTS.join(', ')}`, 400);
+  }
+  if (options.thinking !== undefined && typeof options.thinking !== 'boolean') {
+    throw new ChatError('bad_request', 'options.thinking must be a boolean', 400);
+  }
+  if (options.webSearch !== undefined && typeof options.webSearch !== 'boolean') {
+    throw new ChatError('bad_request', 'options.webSearch must be a boolean', 400);
+  }
+}
+
+/**
+ * Summary requests are billed at the light tier, so they may not carry
+ * anything that makes them useful as regular chat requests
+ */
+function validateContextSummaryRequest(body: ChatRequestBody): void {
+  const message = body.messages[0];
+  const role = message?.role ?? (message?.type === 'user' ? 'user' : 'assistant');
+  const extras = body.systemPrompt !== undefined || body.contextSummary !== undefined ||
+    body.documents !== undefined || body.tools || body.webSearch || body.options?.webSearch ||
+    body.responseFormat !== undefined || readAttachmentIds(body.messages).length > 0;
+  if (body.messages.length !== 1 || role !== 'user' || extras) {
+    throw new ChatError(
+      'bad_request',
+      'context_summary requests take a single user message without attachments, documents, tools, web search or instructions',
+      400,
+    );
+  }
+}
+
+function validateResponseFormat(format: ResponseFormat | undefined): void {
+  if (format === undefined) return;
+  if (typeof format !== 'object' || format === null) {
+    throw new ChatError('bad_request', 'responseFormat must be an object', 400);
+  }
+  if (typeof format.name !== 'string' || !RESPONSE_FORMAT_NAME.test(format.name)) {
+    throw new ChatError('bad_request', 'responseFormat.name must be 1-64 letters, digits, underscores or dashes', 400);
+  }
+  if (typeof format.schema !== 'object' || format.schema === null || Array.isArray(format.schema)) {
+    throw new ChatError('bad_request', 'responseFormat.schema must be a JSON schema object', 400);
+  }
+  if (JSON.stringify(format.schema).length > MAX_RESPONSE_SCHEMA_CHARS) {
+    throw new ChatError('bad_request', `responseFormat.schema is limited to ${MAX_RESPONSE_SCHEMA_CHARS} characters`, 400);
+  }
+}
+
+/**
+ * Add a provider event to the tool steps of an answer. Results are matched
+ * to their call by id.
+ */
+function recordToolStep(steps: ToolStep[], event: ProviderEvent): void {
+  if (event.type === 'tool_call') {
+    steps.push({ id: event.call.id, name: event.call.name, arguments: event.call.arguments });
+  } else if (event.type === 'tool_result') {
+    const step = steps.find((candidate) => candidate.id === event.id);
+    if (step) Object.assign(step, { result: event.result, isError: event.isError });
+  }
+}
+
+/** Context summaries are part of the answer they are made for */
+function countsAsMessage(body: ChatRequestBody): boolean {
+  return body.purpose !== 'context_summary';
+}
+
+function errorResponse(error: ChatError): Response {
+  return jsonResponse({ error: error.message, code: error.code, ...error.details }, error.status);
+}
+
+function toChatError(error: unknown): ChatError {
+  if (error instanceof ChatError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return new ChatError('internal_error', message, 500);
+}
+
+async function parseRequest(
+  req: Request,
+  options: ChatHandlerOptions,
+  signal: AbortSignal,
+  supabaseAdmin: ReturnType<typeof createAdminClient>,
+  caller: ChatCaller,
+): Promise<{ body: ChatRequestBody; request: ChatRequest; citations: ChatCitation[]; tools: ChatTool[] }> {
+  let body: ChatRequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ChatError('bad_request', 'Request body must be valid JSON', 400);
+  }
+
+  if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+    throw new ChatError('bad_request', 'Messages array is required', 400);
+  }
+  if (typeof body.model !== 'string' || !body.model) {
+    throw new ChatError('bad_request', 'Model is required', 400);
+  }
+  if (body.systemPrompt !== undefined && typeof body.systemPrompt !== 'string') {
+    throw new ChatError('bad_request', 'systemPrompt must be a string', 400);
+  }
+  if ((body.systemPrompt?.length ?? 0) > MAX_SYSTEM_PROMPT_LENGTH) {
+    throw new ChatError('bad_request', `systemPrompt is limited to ${MAX_SYSTEM_PROMPT_LENGTH} characters`, 400);
+  }
+  if (body.tools !== undefined && typeof body.tools !== 'boolean') {
+    throw new ChatError('bad_request', 'tools must be a boolean', 400);
+  }
+  if (body.contextSummary !== undefined && typeof body.contextSummary !== 'string') {
+    throw new ChatError('bad_request', 'contextSummary must be a string', 400);
+  }
+  if ((body.contextSummary?.length ?? 0) > MAX_CONTEXT_SUMMARY_LENGTH) {
+    throw new ChatError('bad_request', `contextSummary is limited to ${MAX_CONTEXT_SUMMARY_LENGTH} characters`, 400);
+  }
+  if (body.purpose !== undefined && body.purpose !== 'context_summary') {
+    throw new ChatError('bad_request', 'purpose must be "context_summary"', 400);
+  }
+  validateOptions(body.options);
+  validateResponseFormat(body.responseFormat);
+  const summarizing = body.purpose === 'context_summary';
+  if (summarizing) validateContextSummaryRequest(body);
+
+  const resolved = resolveModel(body.model);
+  if (!resolved && !options.provider) {
+    throw new ChatError('unknown_model', `Unknown model: ${body.model}`, 400);
+  }
+  if (resolved && options.provider && resolved.provider !== options.provider) {
+    throw new ChatError('unknown_model', `Model ${body.model} is not served by this endpoint`, 400);
+  }
+
+  const attachmentIds = readAttachmentIds(body.messages);
+  if (attachmentIds.length > 0 && !resolved?.vision) {
+    throw new ChatError('bad_request', `Model ${body.model} does not accept images`, 400);
+  }
+  const imageUrls = await resolveImageUrls(supabaseAdmin, caller, attachmentIds);
+  const prompt = lastUserPrompt(body.messages);
+  const documentContext = await resolveDocumentContext(
+    supabaseAdmin,
+    caller,
+    readDocumentIds(body.documents),
+    prompt,
+  );
+  // Web results are numbered after the document excerpts. Searches are paid,
+  // so like the search function they need a signed-in caller.
+  const webSearch = !!caller.user && (body.options?.webSearch ?? !!body.webSearch);
+  const webContext = webSearch && resolved?.webSearch
+    ? await resolveWebContext(prompt, (documentContext?.citations.length ?? 0) + 1)
+    : null;
+  const tools = body.tools && resolved?.tools ? await loadTools(supabaseAdmin, caller) : [];
+
+  return {
+    body,
+    tools,
+    citations: [...(documentContext?.citations ?? []), ...(webContext?.citations ?? [])],
+    request: {
+      model: body.model,
+      upstreamModel: resolved?.upstreamModel ?? body.model,
+      messages: normalizeMessages(body.messages, {
+        systemPrompt: summarizing ? CONTEXT_SUMMARY_INSTRUCTIONS : body.systemPrompt,
+        contextSummary: body.contextSummary,
+        imageUrls,
+        documentContext: documentContext?.context,
+        webContext: webContext?.context,
+      }),
+      options: {
+        ...body.options,
+        webSearch,
+        ...(summarizing
+          ? { maxTokens: Math.min(body.options?.maxTokens ?? CONTEXT_SUMMARY_MAX_TOKENS, CONTEXT_SUMMARY_MAX_TOKENS) }
+          : {}),
+      },
+      ...(body.responseFormat && resolved?.structuredOutput
+        ? { responseFormat: { ...body.responseFormat, mode: resolved.structuredOutput } }
+        : {}),
+      signal,
+    },
+  };
+}
+
+function completionMeta(caller: ChatCaller): { messageCount?: number; messageLimit?: number } {
+  if (!caller.usage) return {};
+  return {
+    messageCount: caller.usage.message_count + 1,
+    messageLimit: caller.usage.message_limit,
+  };
+}
+
+export async function handleChatRequest(req: Request, options: ChatHandlerOptions = {}): Promise<Response> {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(new ChatError('bad_request', 'Method not allowed', 405));
+  }
+
+  const supabaseAdmin = createAdminClient();
+
+  // Aborted when the client goes away or cancels the response stream
+  const upstream = new AbortController();
+  req.signal.addEventListener('abort', () => upstream.abort(), { once: true });
+
+  let caller: ChatCaller;
+  let body: ChatRequestBody;
+  let request: ChatRequest;
+  let citations: ChatCitation[];
+  let tools: ChatTool[];
+  let reservation: CreditReservation | null;
+  try {
+    caller = await authenticateCaller(req, supabaseAdmin);
+    assertWithinMessageLimit(caller);
+    ({ body, request, citations, tools } = await parseRequest(req, options, upstream.signal, supabaseAdmin, caller));
+    const tier = resolveModel(request.model)?.tier ?? 'light';
+    await reserveAnonymousMessage(supabaseAdmin, req, caller, tier, request.model);
+    const billedTier = body.purpose === 'context_summary' ? CONTEXT_SUMMARY_TIER : tier;
+    reservation = await reserveCredit(supabaseAdmin, caller, billedTier, request.model, body.conversationId);
+  } catch (error) {
+    return errorResponse(toChatError(error));
+  }
+
+  const provider = options.provider ?? resolveModel(request.model)!.provider;
+  const adapter = PROVIDER_ADAPTERS[provider];
+  console.log(`🚀 ${adapter.name} chat request:`, {
+    model: request.model,
+    upstreamModel: request.upstreamModel,
+    messageCount: request.messages.length,
+    anonymous: caller.isAnonymous,
+    tools: tools.length,
+  });
+
+  const events = tools.length > 0
+    ? runToolLoop(adapter, request, tools, { supabaseAdmin, caller, signal: upstream.signal })
+    : adapter.stream(request);
+
+  // Wait for the first event so upstream failures surface as HTTP errors
+  let first: IteratorResult<ProviderEvent>;
+  try {
+    first = await events.next();
+  } catch (error) {
+    const chatError = toChatError(error);
+    await refundCredit(supabaseAdmin, reservation, upstream.signal.aborted ? 'stopped' : chatError.code);
+    return errorResponse(chatError);
+  }
+
+  if (body.stream === false) {
+    return collectResponse(first, events, body, request, citations, caller, supabaseAdmin, reservation, upstream.signal);
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let fullResponse = '';
+      let reasoning = '';
+      let usage: ChatUsage | undefined;
+      const toolSteps: ToolStep[] = [];
+
+      const handle = (event: ProviderEvent) => {
+        if (event.type === 'delta') {
+          fullResponse += event.content;
+          controller.enqueue(encodeEvent({ type: 'chunk', content: event.content }));
+        } else if (event.type === 'reasoning') {
+          reasoning += event.content;
+          controller.enqueue(encodeEvent(event));
+        } else if (event.type === 'usage') {
+          usage = event.usage;
+        } else {
+          recordToolStep(toolSteps, event);
+          controller.enqueue(encodeEvent(event.type === 'tool_call'
+            ? { type: 'tool_call', id: event.call.id, name: event.call.name, arguments: event.call.arguments }
+            : event));
+        }
+      };
+
+      try {
+        if (!first.done) handle(first.value);
+        for await (const event of events) handle(event);
+
+        if (upstream.signal.aborted) {
+          throw new DOMException('Client cancelled the stream', 'AbortError');
+        }
+
+        if (!fullResponse.trim()) {
+          throw new ChatError('empty_response', `Empty response received from ${adapter.name}`, 502);
+        }
+
+        const billing = await settleCredit(supabaseAdmin, reservation, request.model, usage);
+        controller.enqueue(encodeEvent({
+          type: 'complete',
+          content: fullResponse,
+          model: request.model,
+          usage,
+          billing,
+          ...(citations.length > 0 ? { citations } : {}),
+          ...(toolSteps.length > 0 ? { toolSteps } : {}),
+          ...(reasoning.trim() ? { reasoning } : {}),
+          ...completionMeta(caller),
+        }));
+        if (countsAsMessage(body)) recordMessageUsage(supabaseAdmin, caller);
+      } catch (error) {
+        if (upstream.signal.aborted) {
+          console.log(`⏹️ ${adapter.name} generation stopped by client after ${fullResponse.length} chars`);
+          if (fullResponse.trim()) {
+            if (countsAsMessage(body)) recordMessageUsage(supabaseAdmin, caller);
+            await settleCredit(supabaseAdmin, reservation, request.model, usage);
+          } else {
+            await refundCredit(supabaseAdmin, reservation, 'stopped');
+          }
+          return;
+        }
+        const chatError = toChatError(error);
+        console.error(`❌ ${adapter.name} stream error:`, chatError.message);
+        await refundCredit(supabaseAdmin, reservation, chatError.code);
+        controller.enqueue(encodeEvent({ type: 'error', error: chatError.message, code: chatError.code }));
+      } finally {
+        if (!upstream.signal.aborted) controller.close();
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(stream, { headers: sseHeaders });
+}
+
+async function collectResponse(
+  first: IteratorResult<ProviderEvent>,
+  events: AsyncGenerator<ProviderEvent>,
+  body: ChatRequestBody,
+  request: ChatRequest,
+  citations: ChatCitation[],
+  caller: ChatCaller,
+  supabaseAdmin: ReturnType<typeof createAdminClient>,
+  reservation: CreditReservation | null,
+  signal: AbortSignal,
+): Promise<Response> {
+  let content = '';
+  let reasoning = '';
+  let usage: ChatUsage | undefined;
+  const toolSteps: ToolStep[] = [];
+
+  try {
+    let current = first;
+    while (!current.done) {
+      if (current.value.type === 'delta') content += current.value.content;
+      else if (current.value.type === 'reasoning') reasoning += current.value.content;
+      else if (current.value.type === 'usage') usage = current.value.usage;
+      else recordToolStep(toolSteps, current.value);
+      current = await events.next();
+    }
+  } catch (error) {
+    const chatError = toChatError(error);
+    await refundCredit(supabaseAdmin, reservation, signal.aborted ? 'stopped' : chatError.code);
+    return errorResponse(chatError);
+  }
+
+  if (!content.trim()) {
+    await refundCredit(supabaseAdmin, reservation, 'empty_response');
+    return errorResponse(new ChatError('empty_response', 'Empty response received from provider', 502));
+  }
+
+  if (countsAsMessage(body)) recordMessageUsage(supabaseAdmin, caller);
+  const billing = await settleCredit(supabaseAdmin, reservation, request.model, usage);
+  return jsonResponse({
+    response: content,
+    model: request.model,
+    usage,
+    billing,
+    ...(citations.length > 0 ? { citations } : {}),
+    ...(toolSteps.length > 0 ? { toolSteps } : {}),
+    ...(reasoning.trim() ? { reasoning } : {}),
+    ...completionMeta(caller),
+  });
+}
+
+/** Start a chat Edge Function backed by the shared handler */
+export function serveChat(options: ChatHandlerOptions = {}): void {
+  Deno.serve((req) => handleChatRequest(req, options));
+}
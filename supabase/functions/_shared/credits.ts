@@ -0,0 +1,138 @@
+/**
+ * Credit reservation for the chat Edge Functions.
+ *
+ * Signed-in callers reserve one credit (with tier fallback) before the
+ * provider is called. Once the response is finished the reservation is:
+ * - settled when the answer completed, or when the user stopped it after
+ *   some text had already streamed;
+ * - refunded when the provider failed, returned nothing, or the request was
+ *   stopped before the first token.
+ *
+ * Anonymous callers are not billed; their limits are enforced in
+ * `reserveAnonymousMessage` (see `chat-auth.ts`).
+ *
+ * Settlement records the provider's token counts and estimated USD cost on
+ * the reservation. With `CHAT_USAGE_METERING=true` the charge also scales with
+ * that cost: one credit per `CREDIT_VALUE_USD_<TIER>` spent, minimum one.
+ * Models without list prices are always billed one credit.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { ChatError, type ChatBilling, type ChatUsage, type CreditTier } from './chat-types.ts';
+import type { ChatCaller } from './chat-auth.ts';
+import { resolveModel } from './models.ts';
+
+/** Default USD value of one credit per tier when metering is enabled */
+const DEFAULT_CREDIT_VALUE_USD: Record<CreditTier, number> = {
+  light: 0.0005,
+  medium: 0.002,
+  heavy: 0.01,
+};
+
+export interface CreditReservation {
+  id: string;
+  /** Tier the credit was actually taken from (may be higher than desired) */
+  tier: CreditTier;
+  desiredTier: CreditTier;
+}
+
+/**
+ * Reserve a credit for the caller, or throw a 402 `insufficient_credits`
+ * error when no eligible tier has credits left.
+ */
+export async function reserveCredit(
+  supabaseAdmin: SupabaseClient,
+  caller: ChatCaller,
+  desiredTier: CreditTier,
+  model: string,
+  conversationId?: string,
+): Promise<CreditReservation | null> {
+  if (!caller.user) return null;
+
+  const { data, error } = await supabaseAdmin.rpc('reserve_credit', {
+    p_user_id: caller.user.id,
+    p_desired_tier: desiredTier,
+    p_model: model,
+    p_conversation_id: conversationId ?? null,
+  });
+
+  if (error) {
+    console.error('❌ Credit reservation failed:', error);
+    throw new ChatError('internal_error', 'Could not check your credit balance', 500);
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+  if (!row?.reservation_id) {
+    throw new ChatError('insufficient_credits', 'You are out of credits. Please purchase a bundle on the Pricing page.', 402, {
+      required_tier: desiredTier,
+      model,
+    });
+  }
+
+  console.log(`💳 Reserved 1 ${row.reserved_tier} credit (${row.reservation_id})`);
+  return { id: row.reservation_id, tier: row.reserved_tier, desiredTier };
+}
+
+function creditValueUsd(tier: CreditTier): number {
+  const configured = Number(Deno.env.get(`CREDIT_VALUE_USD_${tier.toUpperCase()}`));
+  return configured > 0 ? configured : DEFAULT_CREDIT_VALUE_USD[tier];
+}
+
+/** Estimated provider cost in USD, or null when the model has no list price */
+export function estimateCostUsd(model: string, usage: ChatUsage | undefined): number | null {
+  const info = resolveModel(model);
+  if (!usage || info?.inputPricePerMTokens === undefined || info.outputPricePerMTokens === undefined) {
+    return null;
+  }
+  return (usage.promptTokens * info.inputPricePerMTokens + usage.completionTokens * info.outputPricePerMTokens) / 1_000_000;
+}
+
+function creditsForCost(tier: CreditTier, costUsd: number | null): number {
+  if (costUsd === null || Deno.env.get('CHAT_USAGE_METERING') !== 'true') return 1;
+  return Math.max(1, Math.ceil(costUsd / creditValueUsd(tier)));
+}
+
+/**
+ * Settle a reservation with the measured usage. Returns the charge actually
+ * applied (extra credits are capped at the remaining balance).
+ */
+export async function settleCredit(
+  supabaseAdmin: SupabaseClient,
+  reservation: CreditReservation | null,
+  model: string,
+  usage: ChatUsage | undefined,
+): Promise<ChatBilling | undefined> {
+  if (!reservation) return undefined;
+
+  const costUsd = estimateCostUsd(model, usage);
+  const { data, error } = await supabaseAdmin.rpc('settle_credit_reservation', {
+    p_reservation_id: reservation.id,
+    p_prompt_tokens: usage?.promptTokens ?? null,
+    p_completion_tokens: usage?.completionTokens ?? null,
+    p_cost_usd: costUsd,
+    p_credits: creditsForCost(reservation.tier, costUsd),
+  });
+
+  if (error) {
+    console.error('❌ Failed to settle credit reservation:', reservation.id, error);
+    return { tier: reservation.tier, credits: 1, costUsd };
+  }
+
+  const credits = typeof data === 'number' ? data : 1;
+  console.log(`💳 Settled ${credits} ${reservation.tier} credit(s)`, { usage, costUsd });
+  return { tier: reservation.tier, credits, costUsd };
+}
+
+export async function refundCredit(
+  supabaseAdmin: SupabaseClient,
+  reservation: CreditReservation | null,
+  reason: string,
+): Promise<void> {
+  if (!reservation) return;
+  const { error } = await supabaseAdmin.rpc('refund_credit_reservation', { p_reservation_id: reservation.id });
+  if (error) {
+    console.error('❌ Failed to refund credit reservation:', reservation.id, error);
+  } else {
+    console.log(`↩️ Refunded 1 ${reservation.tier} credit (${reason})`);
+  }
+}
@@ -0,0 +1,453 @@
+/**
+ * Document understanding.
+ *
+ * PDF, Markdown, text and JSON attachments become chat context in three
+ * steps, run once per document by `ingestDocument`:
+ *
+ *   1. extract  text files are read as they are; PDFs go through unpdf, and
+ *               pages without a text layer (scans) are sent to Mistral OCR
+ *   2. chunk    overlapping slices of about CHUNK_CHARS, never across pages
+ *   3. embed    one vector per chunk in `document_chunks`
+ *
+ * For every question the chat handler embeds the prompt, picks the closest
+ * chunks of the attached documents and hands them to the model as numbered
+ * excerpts. The numbers come back to the client as citations (file and
+ * page). Progress and failures are recorded on the attachment as
+ * `metadata.extraction`; the full text goes to `metadata.extracted_text`,
+ * which semantic recall indexes as well.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { extractText, getDocumentProxy } from 'https://esm.sh/unpdf@0.12.1';
+import { ChatError, type DocumentCitation } from './chat-types.ts';
+import type { ChatCaller } from './chat-auth.ts';
+import { getEmbeddingProvider, MAX_EMBEDDING_CHARS, type EmbeddingProvider } from './embeddings.ts';
+import { readApiKey, upstreamError } from './providers/utils.ts';
+
+const ATTACHMENTS_BUCKET = 'attachments';
+
+export const DOCUMENT_TYPES = ['application/pdf', 'text/plain', 'text/markdown', 'application/json'];
+
+/** Documents a single chat request can search */
+export const MAX_DOCUMENTS_PER_REQUEST = 8;
+
+const CHUNK_CHARS = 1500;
+const CHUNK_OVERLAP = 200;
+/** Bounds embedding cost; text beyond this many chunks is not searchable */
+const MAX_CHUNKS = 400;
+/** Chunks embedded per upstream call */
+const EMBED_BATCH_SIZE = 32;
+/** PDF pages with less text than this are treated as scanned */
+const MIN_PAGE_CHARS = 40;
+const MAX_EXTRACTED_TEXT_CHARS = 200000;
+
+/** Registry code of the OCR model (`forChat: false` in `src/models/registry.ts`) */
+const OCR_MODEL = 'mistral-ocr-latest';
+/** Long enough for the OCR service to download the file */
+const SIGNED_URL_TTL_SECONDS = 600;
+
+/** Excerpts per answer and their combined size */
+const MAX_EXCERPTS = 8;
+const MAX_CONTEXT_CHARS = 9000;
+
+export type ExtractionMethod = 'text' | 'pdf' | 'ocr' | 'pdf+ocr';
+
+/** Stored as `attachments.metadata.extraction` */
+export interface DocumentExtraction {
+  status: 'ready' | 'failed';
+  method?: ExtractionMethod;
+  /** PDF page count */
+  pages?: number;
+  chunks?: number;
+  /** Embedding model of the stored chunks */
+  model?: string;
+  /** The document had more than MAX_CHUNKS chunks; the rest is not searchable */
+  truncated?: boolean;
+  error?: string;
+  updated_at: string;
+}
+
+export interface DocumentRow {
+  id: string;
+  user_id: string;
+  filename: string;
+  file_type: string;
+  storage_path: string;
+  metadata: Record<string, unknown> | null;
+}
+
+interface ExtractedText {
+  /** One entry per PDF page, or a single entry for text files */
+  pages: string[];
+  paged: boolean;
+  method: ExtractionMethod;
+}
+
+interface DocumentChunk {
+  page: number | null;
+  content: string;
+}
+
+interface MistralOcrResponse {
+  pages?: Array<{ index: number; markdown: string }>;
+}
+
+export interface DocumentContext {
+  /** System message with the numbered excerpts */
+  context: string;
+  citations: DocumentCitation[];
+}
+
+export function isDocumentType(fileType: string): boolean {
+  return DOCUMENT_TYPES.includes(fileType);
+}
+
+/** Validate the `documents` of a chat request and return the distinct ids */
+export function readDocumentIds(value: unknown): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((id) => typeof id !== 'string' || !id)) {
+    throw new ChatError('bad_request', 'documents must be an array of attachment ids', 400);
+  }
+  const ids = [...new Set(value as string[])];
+  if (ids.length > MAX_DOCUMENTS_PER_REQUEST) {
+    throw new ChatError('bad_request', `A request can include at most ${MAX_DOCUMENTS_PER_REQUEST} documents`, 400);
+  }
+  return ids;
+}
+
+/**
+ * The caller's document attachments, in the order of `ids`. Unknown and
+ * foreign ids are rejected alike.
+ */
+export async function loadDocuments(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  ids: string[],
+): Promise<DocumentRow[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('attachments')
+    .select('id, user_id, filename, file_type, storage_path, metadata')
+    .in('id', ids);
+
+  if (error) {
+    console.error('❌ Failed to load documents:', error);
+    throw new ChatError('internal_error', 'Could not load the attached documents', 500);
+  }
+
+  const rows = new Map((data ?? []).map((row) => [row.id as string, row as DocumentRow]));
+  return ids.map((id) => {
+    const row = rows.get(id);
+    if (!row || row.user_id !== userId) {
+      throw new ChatError('bad_request', `Attachment ${id} not found`, 400);
+    }
+    if (!isDocumentType(row.file_type)) {
+      throw new ChatError('bad_request', `Attachment ${id} is not a PDF or text document`, 400);
+    }
+    return row;
+  });
+}
+
+export function readExtraction(document: DocumentRow): DocumentExtraction | null {
+  const extraction = document.metadata?.extraction;
+  return extraction && typeof extraction === 'object' ? extraction as DocumentExtraction : null;
+}
+
+/** Chunks exist for `model`, so the document can be searched */
+export function isIngested(document: DocumentRow, model: string): boolean {
+  const extraction = readExtraction(document);
+  return extraction?.status === 'ready' && extraction.model === model;
+}
+
+/** OCR markdown references extracted images that are not kept */
+function stripImageLinks(markdown: string): string {
+  return markdown.replace(/!\[[^\]]*\]\([^)]*\)/g, '').trim();
+}
+
+/**
+ * Markdown per page index (0-based) from Mistral OCR; `pages` limits the
+ * request to those pages
+ */
+async function ocrDocument(documentUrl: string, pages?: number[]): Promise<Map<number, string>> {
+  const apiKey = readApiKey(['MISTRAL_API_KEY']);
+  if (!apiKey) {
+    throw new ChatError('provider_not_configured', 'Mistral API key is not configured', 500);
+  }
+
+  const response = await fetch('https://api.mistral.ai/v1/ocr', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      model: OCR_MODEL,
+      document: { type: 'document_url', document_url: documentUrl },
+      ...(pages ? { pages } : {}),
+    }),
+  });
+
+  if (!response.ok) throw await upstreamError('Mistral OCR', response);
+
+  const data = await response.json() as MistralOcrResponse;
+  return new Map((data.pages ?? []).map((page) => [page.index, stripImageLinks(page.markdown ?? '')]));
+}
+
+async function signedUrl(supabaseAdmin: SupabaseClient, document: DocumentRow): Promise<string> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(document.storage_path, SIGNED_URL_TTL_SECONDS);
+  if (error || !data?.signedUrl) {
+    throw new ChatError('internal_error', `Could not prepare ${document.filename} for OCR`, 500);
+  }
+  return data.signedUrl;
+}
+
+/**
+ * Text per page. Unreadable PDFs are OCR'd as a whole; otherwise only the
+ * pages without enough text are, so mixed documents keep their text layer.
+ */
+async function extractPdf(supabaseAdmin: SupabaseClient, document: DocumentRow, file: Blob): Promise<ExtractedText> {
+  let pages: string[] | null = null;
+  try {
+    const pdf = await getDocumentProxy(new Uint8Array(await file.arrayBuffer()));
+    ({ text: pages } = await extractText(pdf, { mergePages: false }));
+  } catch (error) {
+    console.warn(`⚠️ No text layer in ${document.filename}, using OCR:`, error instanceof Error ? error.message : error);
+  }
+
+  if (!pages) {
+    const ocr = await ocrDocument(await signedUrl(supabaseAdmin, document));
+    const count = ocr.size > 0 ? Math.max(...ocr.keys()) + 1 : 0;
+    return { pages: Array.from({ length: count }, (_, i) => ocr.get(i) ?? ''), paged: true, method: 'ocr' };
+  }
+
+  const scanned = pages.flatMap((text, i) => (text.replace(/\s/g, '').length < MIN_PAGE_CHARS ? [i] : []));
+  if (scanned.length === 0) return { pages, paged: true, method: 'pdf' };
+
+  const ocr = await ocrDocument(await signedUrl(supabaseAdmin, document), scanned);
+  return {
+    pages: pages.map((text, i) => ocr.get(i) || text),
+    paged: true,
+    method: scanned.length === pages.length ? 'ocr' : 'pdf+ocr',
+  };
+}
+
+async function extractDocument(supabaseAdmin: SupabaseClient, document: DocumentRow): Promise<ExtractedText> {
+  const { data, error } = await supabaseAdmin.storage.from(ATTACHMENTS_BUCKET).download(document.storage_path);
+  if (error || !data) {
+    throw new ChatError('internal_error', `Could not read ${document.filename}: ${error?.message ?? 'not found'}`, 500);
+  }
+
+  if (document.file_type === 'application/pdf') {
+    return extractPdf(supabaseAdmin, document, data);
+  }
+  return { pages: [await data.text()], paged: false, method: 'text' };
+}
+
+/**
+ * Overlapping chunks of about CHUNK_CHARS, cut at a paragraph, line or
+ * sentence end where possible. Chunks never span pages, so every chunk
+ * cites exactly one.
+ */
+function chunkPages(pages: string[], paged: boolean): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const minCut = Math.floor(CHUNK_CHARS * 0.6);
+
+  pages.forEach((raw, pageIndex) => {
+    const text = raw.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    let start = 0;
+    while (start < text.length) {
+      let end = Math.min(text.length, start + CHUNK_CHARS);
+      if (end < text.length) {
+        const tail = text.slice(start + minCut, end);
+        const cut = Math.max(tail.lastIndexOf('\n\n'), tail.lastIndexOf('\n'), tail.lastIndexOf('. '));
+        if (cut >= 0) end = start + minCut + cut + 1;
+      }
+
+      const content = text.slice(start, end).trim();
+      if (content) chunks.push({ page: paged ? pageIndex + 1 : null, content });
+      if (end >= text.length) break;
+      start = end - CHUNK_OVERLAP;
+    }
+  });
+
+  return chunks;
+}
+
+async function saveExtraction(
+  supabaseAdmin: SupabaseClient,
+  document: DocumentRow,
+  extraction: DocumentExtraction,
+  extractedText?: string,
+): Promise<void> {
+  const metadata = {
+    ...(document.metadata ?? {}),
+    extraction,
+    ...(extractedText !== undefined ? { extracted_text: extractedText } : {}),
+  };
+  const { error } = await supabaseAdmin.from('attachments').update({ metadata }).eq('id', document.id);
+  if (error) {
+    throw new ChatError('internal_error', `Failed to store extraction status: ${error.message}`, 500);
+  }
+  document.metadata = metadata;
+}
+
+/**
+ * Extract, chunk and embed a document, replacing earlier chunks of the same
+ * embedding model. A failure is recorded on the attachment and rethrown.
+ */
+export async function ingestDocument(
+  supabaseAdmin: SupabaseClient,
+  provider: EmbeddingProvider,
+  document: DocumentRow,
+): Promise<DocumentExtraction> {
+  try {
+    const { pages, paged, method } = await extractDocument(supabaseAdmin, document);
+    const allChunks = chunkPages(pages, paged);
+    if (allChunks.length === 0) {
+      throw new ChatError('bad_request', `${document.filename} contains no readable text`, 422);
+    }
+
+    const chunks = allChunks.slice(0, MAX_CHUNKS);
+    const vectors: number[][] = [];
+    for (let i = 0; i < chunks.length; i += EMBED_BATCH_SIZE) {
+      vectors.push(...await provider.embed(chunks.slice(i, i + EMBED_BATCH_SIZE).map((chunk) => chunk.content)));
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from('document_chunks')
+      .delete()
+      .eq('attachment_id', document.id)
+      .eq('model', provider.model);
+    if (deleteError) throw new ChatError('internal_error', `Failed to replace document chunks: ${deleteError.message}`, 500);
+
+    const { error: insertError } = await supabaseAdmin
+      .from('document_chunks')
+      .insert(chunks.map((chunk, i) => ({
+        user_id: document.user_id,
+        attachment_id: document.id,
+        chunk_index: i,
+        page: chunk.page,
+        content: chunk.content,
+        model: provider.model,
+        embedding: vectors[i],
+      })));
+    if (insertError) throw new ChatError('internal_error', `Failed to store document chunks: ${insertError.message}`, 500);
+
+    const extraction: DocumentExtraction = {
+      status: 'ready',
+      method,
+      ...(paged ? { pages: pages.length } : {}),
+      chunks: chunks.length,
+      model: provider.model,
+      ...(allChunks.length > MAX_CHUNKS ? { truncated: true } : {}),
+      updated_at: new Date().toISOString(),
+    };
+    await saveExtraction(supabaseAdmin, document, extraction, pages.join('\n\n').slice(0, MAX_EXTRACTED_TEXT_CHARS));
+    console.log(`📄 Ingested ${document.filename}: ${chunks.length} chunks (${method})`);
+    return extraction;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`❌ Failed to ingest ${document.filename}:`, message);
+    await saveExtraction(supabaseAdmin, document, {
+      status: 'failed',
+      error: message,
+      updated_at: new Date().toISOString(),
+    }).catch((saveError) => console.warn('⚠️ Could not record extraction failure:', saveError));
+    throw error;
+  }
+}
+
+function citationLabel(citation: DocumentCitation): string {
+  return citation.page !== null ? `${citation.filename}, page ${citation.page}` : citation.filename;
+}
+
+/**
+ * Numbered excerpts of `documents` that best match `query`. Documents that
+ * were not ingested for the provider's model yet are ingested first; those
+ * that fail are left out. Excerpts from the same page share one number.
+ */
+export async function retrieveDocumentContext(
+  supabaseAdmin: SupabaseClient,
+  provider: EmbeddingProvider,
+  documents: DocumentRow[],
+  query: string,
+): Promise<DocumentContext | null> {
+  const searchable: DocumentRow[] = [];
+  for (const document of documents) {
+    if (!isIngested(document, provider.model)) {
+      try {
+        await ingestDocument(supabaseAdmin, provider, document);
+      } catch {
+        continue;
+      }
+    }
+    searchable.push(document);
+  }
+  if (searchable.length === 0) return null;
+
+  // An image-only or empty prompt still searches, by file name
+  const text = query.trim() || searchable.map((document) => document.filename).join('\n');
+  const [vector] = await provider.embed([text.slice(0, MAX_EMBEDDING_CHARS)]);
+  const { data, error } = await supabaseAdmin.rpc('match_document_chunks', {
+    p_user_id: searchable[0].user_id,
+    p_attachment_ids: searchable.map((document) => document.id),
+    p_query: vector,
+    p_model: provider.model,
+    p_limit: MAX_EXCERPTS,
+  });
+  if (error) throw new ChatError('internal_error', `Document search failed: ${error.message}`, 500);
+
+  const byId = new Map(searchable.map((document) => [document.id, document]));
+  const citations: DocumentCitation[] = [];
+  const sections: string[] = [];
+  let used = 0;
+
+  for (const match of (data ?? []) as Array<{ attachment_id: string; page: number | null; content: string }>) {
+    if (used + match.content.length > MAX_CONTEXT_CHARS && sections.length > 0) break;
+    used += match.content.length;
+
+    let citation = citations.find((c) => c.attachmentId === match.attachment_id && c.page === match.page);
+    if (!citation) {
+      citation = {
+        index: citations.length + 1,
+        source: 'document',
+        attachmentId: match.attachment_id,
+        filename: byId.get(match.attachment_id)?.filename ?? 'document',
+        page: match.page,
+      };
+      citations.push(citation);
+    }
+    sections.push(`[${citation.index}] ${citationLabel(citation)}\n${match.content}`);
+  }
+  if (sections.length === 0) return null;
+
+  return {
+    context: 'The user attached documents. The excerpts below are the parts most relevant to their last message, ' +
+      'each labelled with a source number. Base your answer on them and cite the sources you use inline as [1], [2] and so on. ' +
+      'If the excerpts do not answer the question, say so rather than guessing.\n\n' +
+      sections.join('\n\n'),
+    citations,
+  };
+}
+
+/**
+ * Document context for a chat request: checks that the caller owns the
+ * documents, then retrieves the excerpts matching `query`
+ */
+export async function resolveDocumentContext(
+  supabaseAdmin: SupabaseClient,
+  caller: ChatCaller,
+  ids: string[],
+  query: string,
+): Promise<DocumentContext | null> {
+  if (ids.length === 0) return null;
+  if (!caller.user) {
+    throw new ChatError('unauthorized', 'Sign in to ask about documents', 401);
+  }
+
+  const documents = await loadDocuments(supabaseAdmin, caller.user.id, ids);
+  return retrieveDocumentContext(supabaseAdmin, getEmbeddingProvider(), documents, query);
+}
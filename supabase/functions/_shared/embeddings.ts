@@ -0,0 +1,121 @@
+/**
+ * Embedding providers for semantic recall.
+ *
+ * The `embeddings` function only talks to the EmbeddingProvider interface.
+ * `EMBEDDING_PROVIDER=local` swaps the Mistral API for a deterministic,
+ * offline hashing embedder (useful for local development and tests); its
+ * vectors only make sense compared with each other, so rows are stored per
+ * provider model and never mixed.
+ */
+
+import { ChatError } from './chat-types.ts';
+import { readApiKey, upstreamError } from './providers/utils.ts';
+
+/** Must match the `vector(...)` column in the `embeddings` table */
+export const EMBEDDING_DIMENSIONS = 1024;
+
+/** Rough character budget per input, well below the 8k token model limit */
+export const MAX_EMBEDDING_CHARS = 12000;
+
+export interface EmbeddingProvider {
+  /** Stored with every vector; only vectors of the same model are compared */
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/** Registry embedding models (`forChat: false` in `src/models/registry.ts`) */
+const MISTRAL_EMBEDDING_MODELS: Record<string, { outputDimension?: number }> = {
+  'mistral-embed': {},
+  // Defaults to 1536 dimensions; asked for the table's size instead
+  'codestral-embed-2505': { outputDimension: EMBEDDING_DIMENSIONS },
+};
+
+interface MistralEmbeddingResponse {
+  data?: Array<{ index: number; embedding: number[] }>;
+}
+
+export function createMistralEmbedder(model: string = 'mistral-embed'): EmbeddingProvider {
+  const config = MISTRAL_EMBEDDING_MODELS[model];
+  if (!config) {
+    throw new ChatError('unknown_model', `Unknown embedding model: ${model}`, 500);
+  }
+
+  return {
+    model,
+    async embed(texts: string[]): Promise<number[][]> {
+      if (texts.length === 0) return [];
+
+      const apiKey = readApiKey(['MISTRAL_API_KEY']);
+      if (!apiKey) {
+        throw new ChatError('provider_not_configured', 'Mistral API key is not configured', 500);
+      }
+
+      const response = await fetch('https://api.mistral.ai/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          input: texts,
+          ...(config.outputDimension ? { output_dimension: config.outputDimension } : {}),
+        }),
+      });
+
+      if (!response.ok) throw await upstreamError('Mistral', response);
+
+      const data = await response.json() as MistralEmbeddingResponse;
+      const vectors = [...(data.data ?? [])].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+      if (vectors.length !== texts.length || vectors.some((v) => v.length !== EMBEDDING_DIMENSIONS)) {
+        throw new ChatError('provider_error', 'Mistral returned unexpected embeddings', 502);
+      }
+      return vectors;
+    },
+  };
+}
+
+/** FNV-1a, enough to spread tokens over the vector */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedder: every lower-cased word (and word
+ * pair) adds ±1 to a hashed dimension, then the vector is L2-normalized.
+ * Texts sharing vocabulary end up close; no network or key needed.
+ */
+export function createLocalEmbedder(): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+    for (const feature of features) {
+      const hash = hashToken(feature);
+      vector[hash % EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  };
+
+  return {
+    model: 'local-hash',
+    embed: (texts: string[]) => Promise.resolve(texts.map(embedOne)),
+  };
+}
+
+/**
+ * Provider configured for this deployment: `EMBEDDING_PROVIDER` (`mistral`
+ * or `local`) and `EMBEDDING_MODEL` (a Mistral embedding model code)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (Deno.env.get('EMBEDDING_PROVIDER') === 'local') return createLocalEmbedder();
+  return createMistralEmbedder(Deno.env.get('EMBEDDING_MODEL') || 'mistral-embed');
+}
@@ -0,0 +1,219 @@
+/**
+ * Image generation providers for the `generate-image` function.
+ *
+ * The function only talks to the ImageGenerationProvider interface.
+ * `IMAGE_PROVIDER` picks the backend: `qwen` (default, Wanx text-to-image on
+ * DashScope) or `gemini` (Imagen). Both take the same request as the client's
+ * ImageGenerationRequest; sizes are mapped to the closest shape each model
+ * supports, styles are expressed as a prompt suffix, and `quality: 'hd'`
+ * switches to the provider's slower, better model.
+ */
+
+import { ChatError, type CreditTier } from './chat-types.ts';
+import { readApiKey, upstreamError } from './providers/utils.ts';
+
+export const IMAGE_STYLES = ['realistic', 'artistic', 'cartoon', 'abstract'] as const;
+export const IMAGE_SIZES = ['512x512', '1024x1024', '1024x1792', '1792x1024'] as const;
+export const IMAGE_QUALITIES = ['standard', 'hd'] as const;
+
+export type ImageStyle = typeof IMAGE_STYLES[number];
+export type ImageSize = typeof IMAGE_SIZES[number];
+export type ImageQuality = typeof IMAGE_QUALITIES[number];
+
+export const MAX_IMAGE_PROMPT_CHARS = 2000;
+
+export interface ImageGenerationRequest {
+  prompt: string;
+  style?: ImageStyle;
+  size: ImageSize;
+  quality: ImageQuality;
+}
+
+export interface GeneratedImage {
+  /** Base64 encoded image bytes */
+  data: string;
+  mimeType: string;
+  model: string;
+  /** Prompt the provider actually used, when it rewrote ours */
+  revisedPrompt?: string;
+}
+
+export interface ImageGenerationProvider {
+  id: string;
+  /** Model used for a request of this quality; also recorded on the credit reservation */
+  modelFor(quality: ImageQuality): string;
+  generate(request: ImageGenerationRequest): Promise<GeneratedImage>;
+}
+
+/** HD images take the more expensive model, so they are billed a tier higher */
+export function imageCreditTier(quality: ImageQuality): CreditTier {
+  return quality === 'hd' ? 'heavy' : 'medium';
+}
+
+const STYLE_SUFFIXES: Record<ImageStyle, string> = {
+  realistic: 'photorealistic, natural lighting, high detail',
+  artistic: 'painterly illustration, expressive brushwork',
+  cartoon: 'cartoon style, bold outlines, flat colors',
+  abstract: 'abstract art, bold shapes and colors',
+};
+
+function styledPrompt({ prompt, style }: ImageGenerationRequest): string {
+  return style ? `${prompt}\n\nStyle: ${STYLE_SUFFIXES[style]}` : prompt;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked so large images do not overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// ---------------------------------------------------------------------------
+// Qwen (Wanx on DashScope)
+// ---------------------------------------------------------------------------
+
+const DASHSCOPE_BASE_URL = 'https://dashscope-intl.aliyuncs.com/api/v1';
+
+/** Wanx sides are limited to 512–1440px, so the tall and wide sizes keep their ratio at a smaller scale */
+const WANX_SIZES: Record<ImageSize, string> = {
+  '512x512': '512*512',
+  '1024x1024': '1024*1024',
+  '1024x1792': '768*1344',
+  '1792x1024': '1344*768',
+};
+
+const WANX_POLL_INTERVAL_MS = 2000;
+const WANX_TIMEOUT_MS = 90_000;
+
+interface WanxTaskResponse {
+  output?: {
+    task_id?: string;
+    task_status?: 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELED' | 'UNKNOWN';
+    results?: Array<{ url?: string; actual_prompt?: string; code?: string; message?: string }>;
+    code?: string;
+    message?: string;
+  };
+}
+
+export function createQwenImageProvider(): ImageGenerationProvider {
+  const modelFor = (quality: ImageQuality) => quality === 'hd' ? 'wanx2.1-t2i-plus' : 'wanx2.1-t2i-turbo';
+
+  return {
+    id: 'qwen',
+    modelFor,
+    async generate(request: ImageGenerationRequest): Promise<GeneratedImage> {
+      const apiKey = readApiKey(['QWEN_API_KEY', 'DASHSCOPE_API_KEY']);
+      if (!apiKey) {
+        throw new ChatError('provider_not_configured', 'Qwen API key is not configured', 500);
+      }
+      const model = modelFor(request.quality);
+
+      // Text-to-image only runs as an async task: submit, then poll until it settles
+      const submit = await fetch(`${DASHSCOPE_BASE_URL}/services/aigc/text2image/image-synthesis`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'X-DashScope-Async': 'enable',
+        },
+        body: JSON.stringify({
+          model,
+          input: { prompt: styledPrompt(request) },
+          parameters: { size: WANX_SIZES[request.size], n: 1 },
+        }),
+      });
+      if (!submit.ok) throw await upstreamError('Qwen', submit);
+
+      const taskId = (await submit.json() as WanxTaskResponse).output?.task_id;
+      if (!taskId) throw new ChatError('provider_error', 'Qwen did not start the image task', 502);
+
+      const deadline = Date.now() + WANX_TIMEOUT_MS;
+      let task: WanxTaskResponse['output'];
+      do {
+        await new Promise((resolve) => setTimeout(resolve, WANX_POLL_INTERVAL_MS));
+        const poll = await fetch(`${DASHSCOPE_BASE_URL}/tasks/${taskId}`, {
+          headers: { 'Authorization': `Bearer ${apiKey}` },
+        });
+        if (!poll.ok) throw await upstreamError('Qwen', poll);
+        task = (await poll.json() as WanxTaskResponse).output;
+      } while ((task?.task_status === 'PENDING' || task?.task_status === 'RUNNING') && Date.now() < deadline);
+
+      const result = task?.results?.find((item) => item.url);
+      if (task?.task_status !== 'SUCCEEDED' || !result?.url) {
+        const reason = task?.message ?? task?.results?.[0]?.message ?? task?.task_status ?? 'no result';
+        console.error('❌ Qwen image task did not succeed:', taskId, task);
+        throw new ChatError('provider_error', `Image generation failed: ${reason}`, 502);
+      }
+
+      // Result URLs expire after a day, so the image itself is returned
+      const image = await fetch(result.url);
+      if (!image.ok) throw await upstreamError('Qwen', image);
+      return {
+        data: toBase64(new Uint8Array(await image.arrayBuffer())),
+        mimeType: image.headers.get('content-type')?.split(';')[0] || 'image/png',
+        model,
+        ...(result.actual_prompt ? { revisedPrompt: result.actual_prompt } : {}),
+      };
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Gemini (Imagen)
+// ---------------------------------------------------------------------------
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+const IMAGEN_ASPECT_RATIOS: Record<ImageSize, string> = {
+  '512x512': '1:1',
+  '1024x1024': '1:1',
+  '1024x1792': '9:16',
+  '1792x1024': '16:9',
+};
+
+interface ImagenResponse {
+  predictions?: Array<{ bytesBase64Encoded?: string; mimeType?: string }>;
+}
+
+export function createGeminiImageProvider(): ImageGenerationProvider {
+  const modelFor = (quality: ImageQuality) => quality === 'hd' ? 'imagen-3.0-generate-002' : 'imagen-3.0-fast-generate-001';
+
+  return {
+    id: 'gemini',
+    modelFor,
+    async generate(request: ImageGenerationRequest): Promise<GeneratedImage> {
+      const apiKey = readApiKey(['GEMINI_API_KEY']);
+      if (!apiKey) {
+        throw new ChatError('provider_not_configured', 'Gemini API key is not configured', 500);
+      }
+      const model = modelFor(request.quality);
+
+      const response = await fetch(`${GEMINI_BASE_URL}/${model}:predict?key=${apiKey}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          instances: [{ prompt: styledPrompt(request) }],
+          parameters: { sampleCount: 1, aspectRatio: IMAGEN_ASPECT_RATIOS[request.size] },
+        }),
+      });
+      if (!response.ok) throw await upstreamError('Gemini', response);
+
+      const prediction = (await response.json() as ImagenResponse).predictions?.[0];
+      if (!prediction?.bytesBase64Encoded) {
+        // Imagen drops images that trip its safety filters instead of failing
+        throw new ChatError('empty_response', 'No image was generated; try rephrasing the prompt', 502);
+      }
+      return { data: prediction.bytesBase64Encoded, mimeType: prediction.mimeType || 'image/png', model };
+    },
+  };
+}
+
+/** Provider configured for this deployment: `IMAGE_PROVIDER` (`qwen` or `gemini`) */
+export function getImageProvider(): ImageGenerationProvider {
+  const id = Deno.env.get('IMAGE_PROVIDER') || 'qwen';
+  if (id === 'qwen') return createQwenImageProvider();
+  if (id === 'gemini') return createGeminiImageProvider();
+  throw new ChatError('provider_not_configured', `Unknown image provider: ${id}`, 500);
+}
@@ -0,0 +1,94 @@
+/**
+ * Server-side view of the model registry.
+ *
+ * Edge Functions cannot import `src/models/registry.ts`, so this module keeps
+ * the pieces the chat functions need: which provider serves a model code,
+ * which upstream model id to send, which credit tier it is billed at and its
+ * list price for usage metering. Keep it in sync with the client registry
+ * (`getModelTier`, `inputPricePerMTokens` / `outputPricePerMTokens`).
+ */
+
+import type { CreditTier, ProviderId } from './chat-types.ts';
+
+export interface ServerModelInfo {
+  provider: ProviderId;
+  /** Upstream model id when it differs from the registry code */
+  upstreamModel?: string;
+  tier: CreditTier;
+  /** USD per million tokens; models without prices are billed flat */
+  inputPricePerMTokens?: number;
+  outputPricePerMTokens?: number;
+  /** Accepts image parts in user messages */
+  vision?: boolean;
+  /** Gets web search results when the client asks for them (`supportsWebSearch` in the client registry) */
+  webSearch?: boolean;
+  /**
+   * Can call tools from the tool registry (`supportsToolCalling` in the client
+   * registry); only honoured for OpenAI-compatible providers
+   */
+  tools?: boolean;
+  /**
+   * JSON mode sent for `responseFormat` requests: `json_schema` constrains the
+   * answer to the schema, `json_object` only to valid JSON. Models without it
+   * get the schema in the prompt only (`structured_outputs` capability in the
+   * client registry).
+   */
+  structuredOutput?: 'json_schema' | 'json_object';
+}
+
+export const SERVER_MODELS: Record<string, ServerModelInfo> = {
+  'claude-3-haiku-20240307': { provider: 'claude', tier: 'light' },
+  'DeepSeek-V3': { provider: 'deepseek', upstreamModel: 'deepseek-chat', tier: 'light', structuredOutput: 'json_object' },
+  'DeepSeek-R1': { provider: 'deepseek', upstreamModel: 'deepseek-reasoner', tier: 'heavy' },
+
+  'mistral-medium-latest': { provider: 'mistral', tier: 'heavy', inputPricePerMTokens: 0.4, outputPricePerMTokens: 2, vision: true, webSearch: true, tools: true, structuredOutput: 'json_schema' },
+  'mistral-small-latest': { provider: 'mistral', tier: 'medium', inputPricePerMTokens: 0.1, outputPricePerMTokens: 0.3, vision: true, webSearch: true, structuredOutput: 'json_schema' },
+  'codestral-latest': { provider: 'mistral', tier: 'medium', inputPricePerMTokens: 0.2, outputPricePerMTokens: 0.6, tools: true, structuredOutput: 'json_schema' },
+  'magistral-medium-latest': { provider: 'mistral', tier: 'heavy', inputPricePerMTokens: 2, outputPricePerMTokens: 5, webSearch: true, tools: true },
+  'devstral-medium-2507': { provider: 'mistral', tier: 'heavy', inputPricePerMTokens: 0.4, outputPricePerMTokens: 2, tools: true },
+  'mistral-large-latest': { provider: 'mistral', tier: 'heavy', inputPricePerMTokens: 2, outputPricePerMTokens: 6, vision: true, webSearch: true, tools: true, structuredOutput: 'json_schema' },
+  'pixtral-large-latest': { provider: 'mistral', tier: 'heavy', inputPricePerMTokens: 2, outputPricePerMTokens: 6, vision: true },
+  'pixtral-12b': { provider: 'mistral', tier: 'medium', inputPricePerMTokens: 0.15, outputPricePerMTokens: 0.15, vision: true },
+  'mistral-nemo': { provider: 'mistral', tier: 'medium', inputPricePerMTokens: 0.15, outputPricePerMTokens: 0.15, structuredOutput: 'json_schema' },
+  'mistral-saba-latest': { provider: 'mistral', tier: 'medium', inputPricePerMTokens: 0.2, outputPricePerMTokens: 0.6 },
+  'open-mistral-7b': { provider: 'mistral', tier: 'medium', inputPricePerMTokens: 0.25, outputPricePerMTokens: 0.25 },
+  'open-mixtral-8x7b': { provider: 'mistral', tier: 'medium', inputPricePerMTokens: 0.7, outputPricePerMTokens: 0.7 },
+  'open-mixtral-8x22b': { provider: 'mistral', tier: 'heavy', inputPricePerMTokens: 2, outputPricePerMTokens: 6 },
+  'ministral-8b-latest': { provider: 'mistral', tier: 'light', structuredOutput: 'json_schema' },
+  'ministral-3b-latest': { provider: 'mistral', tier: 'light', structuredOutput: 'json_schema' },
+  'magistral-small-latest': { provider: 'mistral', tier: 'light' },
+  'devstral-small-latest': { provider: 'mistral', tier: 'medium', tools: true },
+  'mistral-small-2506': { provider: 'mistral', tier: 'medium', inputPricePerMTokens: 0.1, outputPricePerMTokens: 0.3, vision: true, structuredOutput: 'json_schema' },
+  'mistral-small-2503': { provider: 'mistral', tier: 'light', vision: true },
+  'mistral-small-2501': { provider: 'mistral', tier: 'light' },
+
+  'llama-3.1-8b-instant': { provider: 'groq', tier: 'light', structuredOutput: 'json_object' },
+  'llama-3.3-70b-versatile': { provider: 'groq', tier: 'light', structuredOutput: 'json_object' },
+  'openai/gpt-oss-20b': { provider: 'groq', tier: 'light', tools: true, structuredOutput: 'json_schema' },
+  'openai/gpt-oss-120b': { provider: 'groq', tier: 'heavy', tools: true, structuredOutput: 'json_schema' },
+
+  'qwen-max': { provider: 'qwen', tier: 'heavy', inputPricePerMTokens: 1.6, outputPricePerMTokens: 6.4, webSearch: true, tools: true, structuredOutput: 'json_object' },
+  'qwen-plus': { provider: 'qwen', tier: 'medium', inputPricePerMTokens: 0.4, outputPricePerMTokens: 1.2, webSearch: true, tools: true, structuredOutput: 'json_object' },
+  'qwen-flash': { provider: 'qwen', tier: 'medium', inputPricePerMTokens: 0.05, outputPricePerMTokens: 0.4, webSearch: true, structuredOutput: 'json_object' },
+  'qwen-turbo': { provider: 'qwen', tier: 'medium', inputPricePerMTokens: 0.05, outputPricePerMTokens: 0.2, webSearch: true, structuredOutput: 'json_object' },
+  'qwq-plus': { provider: 'qwen', tier: 'heavy', inputPricePerMTokens: 0.8, outputPricePerMTokens: 2.4, webSearch: true },
+  'qwen-vl-plus': { provider: 'qwen', tier: 'medium', inputPricePerMTokens: 0.21, outputPricePerMTokens: 0.63, vision: true },
+  'qwen3-235b-a22b-thinking-2507': { provider: 'qwen', tier: 'heavy', inputPricePerMTokens: 0.7, outputPricePerMTokens: 8.4, webSearch: true, tools: true },
+  'qwen3-235b-a22b-instruct-2507': { provider: 'qwen', tier: 'heavy', inputPricePerMTokens: 0.7, outputPricePerMTokens: 2.8, webSearch: true, structuredOutput: 'json_object' },
+  'qwen3-30b-a3b-thinking-2507': { provider: 'qwen', tier: 'heavy', inputPricePerMTokens: 0.2, outputPricePerMTokens: 2.4, webSearch: true },
+  'qwen3-30b-a3b-instruct-2507': { provider: 'qwen', tier: 'light', webSearch: true, structuredOutput: 'json_object' },
+  'qwen3-coder-plus': { provider: 'qwen', tier: 'light', webSearch: true, tools: true },
+  'qwen3-coder-flash': { provider: 'qwen', tier: 'light', webSearch: true },
+};
+
+/**
+ * Resolve a model code to its provider. Gemini models are not in the chat
+ * registry but are still served for callers that address them directly.
+ */
+export function resolveModel(modelCode: string): ServerModelInfo | null {
+  const known = SERVER_MODELS[modelCode];
+  if (known) return known;
+  const bare = modelCode.replace(/^models\//, '');
+  if (bare.startsWith('gemini-')) return { provider: 'gemini', upstreamModel: bare, tier: 'light' };
+  return null;
+}
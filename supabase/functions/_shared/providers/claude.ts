@@ -0,0 +1,106 @@
+/**
+ * Anthropic Messages API adapter.
+ */
+
+import {
+  ChatError,
+  type ChatRequest,
+  type ProviderAdapter,
+  type ProviderEvent,
+} from '../chat-types.ts';
+import { readSSEData } from '../sse.ts';
+import { readApiKey, upstreamError } from './utils.ts';
+
+const CLAUDE_ENDPOINT = 'https://api.anthropic.com/v1/messages';
+
+/** Anthropic accepts temperatures up to 1, other providers up to 2 */
+const MAX_TEMPERATURE = 1;
+
+interface ClaudeStreamEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+}
+
+export const claudeAdapter: ProviderAdapter = {
+  id: 'claude',
+  name: 'Claude',
+
+  async *stream(request: ChatRequest): AsyncGenerator<ProviderEvent> {
+    const apiKey = readApiKey(['CLAUDE_API_KEY', 'ANTHROPIC_API_KEY']);
+    if (!apiKey) {
+      throw new ChatError('provider_not_configured', 'Claude API key is not configured', 500);
+    }
+
+    // Claude takes the system prompt as a top-level field, not as a message
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role, content: [{ type: 'text', text: m.content }] }));
+
+    let response: Response;
+    try {
+      response = await fetch(CLAUDE_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: request.upstreamModel,
+          max_tokens: request.options.maxTokens ?? 4096,
+          temperature: Math.min(request.options.temperature ?? 0.7, MAX_TEMPERATURE),
+          ...(request.options.topP !== undefined ? { top_p: request.options.topP } : {}),
+          ...(system ? { system } : {}),
+          messages,
+          stream: true,
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new ChatError('provider_error', 'Could not connect to Claude API', 502);
+    }
+
+    if (!response.ok) {
+      throw await upstreamError('Claude', response);
+    }
+    if (!response.body) {
+      throw new ChatError('provider_error', 'Claude API returned no body', 502);
+    }
+
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const payload of readSSEData(response.body)) {
+      let event: ClaudeStreamEvent;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        console.warn('⚠️ Failed to parse Claude stream event');
+        continue;
+      }
+
+      if (event.type === 'message_start') {
+        promptTokens = event.message?.usage?.input_tokens ?? 0;
+        completionTokens = event.message?.usage?.output_tokens ?? 0;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield { type: 'delta', content: event.delta.text };
+      } else if (event.type === 'message_delta' && event.usage?.output_tokens !== undefined) {
+        completionTokens = event.usage.output_tokens;
+      } else if (event.type === 'error') {
+        throw new ChatError('provider_error', 'Claude API reported a stream error', 502);
+      }
+    }
+
+    yield {
+      type: 'usage',
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  },
+};
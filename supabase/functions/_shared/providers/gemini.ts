@@ -0,0 +1,100 @@
+/**
+ * Google Gemini (generativelanguage v1beta) adapter.
+ */
+
+import {
+  ChatError,
+  type ChatRequest,
+  type ProviderAdapter,
+  type ProviderEvent,
+} from '../chat-types.ts';
+import { readSSEData } from '../sse.ts';
+import { readApiKey, upstreamError } from './utils.ts';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+interface GeminiStreamChunk {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  id: 'gemini',
+  name: 'Gemini',
+
+  async *stream(request: ChatRequest): AsyncGenerator<ProviderEvent> {
+    const apiKey = readApiKey(['GEMINI_API_KEY']);
+    if (!apiKey) {
+      throw new ChatError('provider_not_configured', 'Gemini API key is not configured', 500);
+    }
+
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+    const contents = request.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role === 'user' ? 'user' : 'model', parts: [{ text: m.content }] }));
+
+    const endpoint = `${GEMINI_BASE_URL}/${request.upstreamModel}:streamGenerateContent?alt=sse&key=${apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents,
+          ...(system ? { systemInstruction: { parts: [{ text: system }] } } : {}),
+          generationConfig: {
+            temperature: request.options.temperature ?? 0.7,
+            topP: request.options.topP ?? 0.95,
+            maxOutputTokens: request.options.maxTokens ?? 4096,
+          },
+        }),
+        signal: request.signal,
+      });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new ChatError('provider_error', 'Could not connect to Gemini API', 502);
+    }
+
+    if (!response.ok) {
+      throw await upstreamError('Gemini', response);
+    }
+    if (!response.body) {
+      throw new ChatError('provider_error', 'Gemini API returned no body', 502);
+    }
+
+    for await (const payload of readSSEData(response.body)) {
+      let data: GeminiStreamChunk;
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        console.warn('⚠️ Failed to parse Gemini stream chunk');
+        continue;
+      }
+
+      const text = data.candidates?.[0]?.content?.parts?.map((p) => p.text ?? '').join('');
+      if (text) yield { type: 'delta', content: text };
+
+      // usageMetadata is cumulative; the last chunk carries the final totals
+      if (data.usageMetadata) {
+        const promptTokens = data.usageMetadata.promptTokenCount ?? 0;
+        const completionTokens = data.usageMetadata.candidatesTokenCount ?? 0;
+        yield {
+          type: 'usage',
+          usage: {
+            promptTokens,
+            completionTokens,
+            totalTokens: data.usageMetadata.totalTokenCount ?? promptTokens + completionTokens,
+          },
+        };
+      }
+    }
+  },
+};
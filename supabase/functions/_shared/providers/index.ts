@@ -0,0 +1,54 @@
+/**
+ * Provider adapter registry. Each adapter only knows how to talk to its
+ * upstream API; auth, validation and SSE re-encoding live in `../chat.ts`.
+ */
+
+import type { ProviderAdapter, ProviderId } from '../chat-types.ts';
+import { createOpenAICompatibleAdapter, openAIImagePart } from './openai-compatible.ts';
+import { claudeAdapter } from './claude.ts';
+import { geminiAdapter } from './gemini.ts';
+
+export const deepseekAdapter = createOpenAICompatibleAdapter({
+  id: 'deepseek',
+  name: 'DeepSeek',
+  endpoint: 'https://api.deepseek.com/chat/completions',
+  apiKeyEnv: ['DEEPSEEK_API_KEY'],
+  supportsUsageStreamOption: true,
+});
+
+export const mistralAdapter = createOpenAICompatibleAdapter({
+  id: 'mistral',
+  name: 'Mistral',
+  endpoint: 'https://api.mistral.ai/v1/chat/completions',
+  apiKeyEnv: ['MISTRAL_API_KEY'],
+  // Mistral takes the URL itself as `image_url`, not wrapped in an object
+  imagePart: (url) => ({ type: 'image_url', image_url: url }),
+});
+
+export const groqAdapter = createOpenAICompatibleAdapter({
+  id: 'groq',
+  name: 'Groq',
+  endpoint: 'https://api.groq.com/openai/v1/chat/completions',
+  apiKeyEnv: ['GROQ_API_KEY'],
+  extraBody: (request) => (request.options.reasoningEffort ? { reasoning_effort: request.options.reasoningEffort } : {}),
+});
+
+export const qwenAdapter = createOpenAICompatibleAdapter({
+  id: 'qwen',
+  name: 'Qwen',
+  endpoint: 'https://dashscope-intl.aliyuncs.com/compatible-mode/v1/chat/completions',
+  apiKeyEnv: ['QWEN_API_KEY', 'DASHSCOPE_API_KEY'],
+  supportsUsageStreamOption: true,
+  imagePart: openAIImagePart,
+  // Web search is not delegated to `enable_search`: the chat pipeline adds its own cited results
+  extraBody: (request) => (request.options.thinking !== undefined ? { enable_thinking: request.options.thinking } : {}),
+});
+
+export const PROVIDER_ADAPTERS: Record<ProviderId, ProviderAdapter> = {
+  deepseek: deepseekAdapter,
+  claude: claudeAdapter,
+  mistral: mistralAdapter,
+  groq: groqAdapter,
+  qwen: qwenAdapter,
+  gemini: geminiAdapter,
+};
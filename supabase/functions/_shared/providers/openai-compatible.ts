@@ -0,0 +1,283 @@
+/**
+ * Adapter factory for providers exposing an OpenAI-compatible
+ * `/chat/completions` endpoint (DeepSeek, Mistral, Groq, Qwen/DashScope).
+ * These adapters also send `tools` and stream back the model's tool calls,
+ * and map `responseFormat` to the provider's JSON mode. Reasoning comes back
+ * as `reasoning` events, whether the provider sends it in its own delta field
+ * (`reasoning_content` on DeepSeek and Qwen, `reasoning` on Groq) or inline
+ * as a leading `<think>` block.
+ */
+
+import {
+  ChatError,
+  type ChatMessage,
+  type ChatRequest,
+  type ChatUsage,
+  type ProviderAdapter,
+  type ProviderEvent,
+  type ProviderId,
+  type ToolCall,
+} from '../chat-types.ts';
+import { readSSEData } from '../sse.ts';
+import { readApiKey, upstreamError } from './utils.ts';
+
+interface OpenAICompatibleConfig {
+  id: ProviderId;
+  name: string;
+  endpoint: string;
+  /** Environment variables checked in order for the API key */
+  apiKeyEnv: string[];
+  /** Whether the provider understands `stream_options.include_usage` */
+  supportsUsageStreamOption?: boolean;
+  /** Provider-specific body fields merged into every request */
+  extraBody?: (request: ChatRequest) => Record<string, unknown>;
+  /**
+   * Content part for an image URL in a user message. Providers without one
+   * reject images.
+   */
+  imagePart?: (url: string) => Record<string, unknown>;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface OpenAIToolCallDelta {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      reasoning_content?: string | null;
+      reasoning?: string | null;
+      tool_calls?: OpenAIToolCallDelta[] | null;
+    };
+  }>;
+  usage?: OpenAIUsage | null;
+  x_groq?: { usage?: OpenAIUsage };
+}
+
+export function toChatUsage(usage: OpenAIUsage): ChatUsage {
+  const promptTokens = usage.prompt_tokens ?? 0;
+  const completionTokens = usage.completion_tokens ?? 0;
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+  };
+}
+
+/** OpenAI-style image part, as accepted by DashScope and most compatible APIs */
+export const openAIImagePart = (url: string): Record<string, unknown> => ({ type: 'image_url', image_url: { url } });
+
+/**
+ * Plain text stays a string; messages with images become a content array of
+ * one text part followed by the image parts
+ */
+function toProviderMessage(message: ChatMessage, config: OpenAICompatibleConfig): Record<string, unknown> {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, name: message.name, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+  if (!message.images?.length) return { role: message.role, content: message.content };
+  if (!config.imagePart) {
+    throw new ChatError('bad_request', `${config.name} does not accept images`, 400);
+  }
+  return {
+    role: message.role,
+    content: [
+      ...(message.content ? [{ type: 'text', text: message.content }] : []),
+      ...message.images.map(config.imagePart),
+    ],
+  };
+}
+
+/**
+ * Split content deltas into answer text and the `<think>` block some models
+ * (Magistral, Qwen3 on Groq) open their answer with. A tag cut across deltas
+ * is held back until the next one; once answer text has started, later
+ * `<think>` tags are left in the text.
+ */
+function createThinkTagSplitter() {
+  let inThink = false;
+  let sawText = false;
+  let pending = '';
+
+  const toEvents = (text: string, events: ProviderEvent[]) => {
+    if (inThink) {
+      if (text) events.push({ type: 'reasoning', content: text });
+      return;
+    }
+    const content = sawText ? text : text.trimStart();
+    if (!content) return;
+    sawText = true;
+    events.push({ type: 'delta', content });
+  };
+
+  return {
+    split(text: string): ProviderEvent[] {
+      const events: ProviderEvent[] = [];
+      let rest = pending + text;
+      pending = '';
+
+      while (rest) {
+        if (sawText && !inThink) {
+          toEvents(rest, events);
+          break;
+        }
+        const tag = inThink ? '</think>' : '<think>';
+        const at = rest.indexOf(tag);
+        if (at >= 0 && !inThink && rest.slice(0, at).trim()) {
+          toEvents(rest, events);
+          break;
+        }
+        if (at >= 0) {
+          toEvents(rest.slice(0, at), events);
+          inThink = !inThink;
+          rest = rest.slice(at + tag.length);
+          continue;
+        }
+        let keep = 0;
+        for (let n = Math.min(tag.length - 1, rest.length); n > 0; n--) {
+          if (tag.startsWith(rest.slice(-n))) {
+            keep = n;
+            break;
+          }
+        }
+        toEvents(rest.slice(0, rest.length - keep), events);
+        pending = rest.slice(rest.length - keep);
+        break;
+      }
+      return events;
+    },
+    flush(): ProviderEvent[] {
+      const events: ProviderEvent[] = [];
+      toEvents(pending, events);
+      pending = '';
+      return events;
+    },
+  };
+}
+
+export function createOpenAICompatibleAdapter(config: OpenAICompatibleConfig): ProviderAdapter {
+  return {
+    id: config.id,
+    name: config.name,
+
+    async *stream(request: ChatRequest): AsyncGenerator<ProviderEvent> {
+      const apiKey = readApiKey(config.apiKeyEnv);
+      if (!apiKey) {
+        throw new ChatError('provider_not_configured', `${config.name} API key is not configured`, 500);
+      }
+
+      const body: Record<string, unknown> = {
+        model: request.upstreamModel,
+        messages: request.messages.map((message) => toProviderMessage(message, config)),
+        stream: true,
+        temperature: request.options.temperature ?? 0.7,
+        max_tokens: request.options.maxTokens ?? 4096,
+        ...(request.options.topP !== undefined ? { top_p: request.options.topP } : {}),
+        ...(config.supportsUsageStreamOption ? { stream_options: { include_usage: true } } : {}),
+        ...(request.tools?.length
+          ? {
+            tools: request.tools.map((tool) => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+            })),
+            tool_choice: request.toolChoice ?? 'auto',
+          }
+          : {}),
+        ...(request.responseFormat
+          ? {
+            response_format: request.responseFormat.mode === 'json_schema'
+              ? {
+                type: 'json_schema',
+                // Not strict: strict mode rejects schemas with optional properties on some providers
+                json_schema: { name: request.responseFormat.name, schema: request.responseFormat.schema },
+              }
+              : { type: 'json_object' },
+          }
+          : {}),
+        ...(config.extraBody?.(request) ?? {}),
+      };
+
+      let response: Response;
+      try {
+        response = await fetch(config.endpoint, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+          signal: request.signal,
+        });
+      } catch (error) {
+        if (request.signal?.aborted) throw error;
+        throw new ChatError('provider_error', `Could not connect to ${config.name} API`, 502);
+      }
+
+      if (!response.ok) {
+        throw await upstreamError(config.name, response);
+      }
+      if (!response.body) {
+        throw new ChatError('provider_error', `${config.name} API returned no body`, 502);
+      }
+
+      // Tool calls arrive in fragments keyed by index; they are emitted once the stream ends
+      const toolCalls = new Map<number, ToolCall>();
+      const thinkTags = createThinkTagSplitter();
+
+      for await (const payload of readSSEData(response.body)) {
+        let data: OpenAIStreamChunk;
+        try {
+          data = JSON.parse(payload);
+        } catch {
+          console.warn(`⚠️ Failed to parse ${config.name} stream chunk`);
+          continue;
+        }
+
+        const reasoning = data.choices?.[0]?.delta?.reasoning_content ?? data.choices?.[0]?.delta?.reasoning;
+        if (reasoning) yield { type: 'reasoning', content: reasoning };
+
+        const delta = data.choices?.[0]?.delta?.content;
+        if (delta) yield* thinkTags.split(delta);
+
+        for (const fragment of data.choices?.[0]?.delta?.tool_calls ?? []) {
+          const index = fragment.index ?? toolCalls.size;
+          const call = toolCalls.get(index) ?? { id: '', name: '', arguments: '' };
+          if (fragment.id) call.id = fragment.id;
+          if (fragment.function?.name) call.name += fragment.function.name;
+          if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+          toolCalls.set(index, call);
+        }
+
+        const usage = data.usage ?? data.x_groq?.usage;
+        if (usage) yield { type: 'usage', usage: toChatUsage(usage) };
+      }
+
+      yield* thinkTags.flush();
+
+      for (const [index, call] of toolCalls) {
+        if (!call.name) continue;
+        yield { type: 'tool_call', call: { ...call, id: call.id || `call_${index}` } };
+      }
+    },
+  };
+}
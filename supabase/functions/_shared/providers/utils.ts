@@ -0,0 +1,26 @@
+import { ChatError } from '../chat-types.ts';
+
+export function readApiKey(envNames: string[]): string {
+  for (const name of envNames) {
+    const value = Deno.env.get(name);
+    if (value) return value;
+  }
+  return '';
+}
+
+/**
+ * Turn a non-2xx upstream response into a ChatError. Upstream 4xx/5xx are
+ * reported as 502 so the client does not confuse them with its own auth or
+ * rate-limit failures; upstream 429 is kept so retries can back off.
+ */
+export async function upstreamError(providerName: string, response: Response): Promise<ChatError> {
+  const details = await response.text().catch(() => '');
+  console.error(`❌ ${providerName} API error:`, response.status, details);
+  const status = response.status === 429 ? 429 : 502;
+  return new ChatError(
+    'provider_error',
+    `${providerName} API error: ${response.status}`,
+    status,
+    { upstreamStatus: response.status, upstreamBody: details.slice(0, 500) },
+  );
+}
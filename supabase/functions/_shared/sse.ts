@@ -0,0 +1,67 @@
+/**
+ * Server-Sent Events helpers shared by the chat Edge Functions.
+ */
+
+import { corsHeaders } from './cors.ts';
+import type { ChatStreamEvent } from './chat-types.ts';
+
+const encoder = new TextEncoder();
+
+/**
+ * Read an upstream SSE body and yield the payload of every `data:` line.
+ * Lines split across network reads are buffered until complete, and the
+ * OpenAI-style `[DONE]` sentinel is swallowed.
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const payload = parseDataLine(line);
+        if (payload !== null) yield payload;
+      }
+    }
+
+    buffer += decoder.decode();
+    const payload = parseDataLine(buffer);
+    if (payload !== null) yield payload;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseDataLine(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return null;
+  const payload = trimmed.slice(5).trim();
+  if (!payload || payload === '[DONE]') return null;
+  return payload;
+}
+
+export function encodeEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+export const sseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  'Connection': 'keep-alive',
+};
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Server-side tool execution loop.
+ *
+ * Wraps a provider adapter for tool-calling models: each step streams one
+ * model turn; when the turn ends in tool calls, the calls are run (see
+ * `tools.ts`), their results are appended to the conversation and the model
+ * is asked again. After MAX_TOOL_STEPS turns the model has to answer
+ * without tools. The loop yields the same ProviderEvents as an adapter,
+ * plus `tool_call` / `tool_result` for every call, and a single `usage`
+ * event summing all steps at the end.
+ */
+
+import type { ChatMessage, ChatRequest, ChatUsage, ProviderAdapter, ProviderEvent, ToolCall } from './chat-types.ts';
+import {
+  executeToolCall,
+  MAX_TOOL_CALLS_PER_STEP,
+  MAX_TOOL_STEPS,
+  type ChatTool,
+  type ToolContext,
+  type ToolOutcome,
+} from './tools.ts';
+
+function addUsage(total: ChatUsage | undefined, usage: ChatUsage): ChatUsage {
+  if (!total) return usage;
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+export async function* runToolLoop(
+  adapter: ProviderAdapter,
+  request: ChatRequest,
+  tools: ChatTool[],
+  context: ToolContext,
+): AsyncGenerator<ProviderEvent> {
+  const definitions = tools.map(({ name, description, parameters }) => ({ name, description, parameters }));
+  const messages: ChatMessage[] = [...request.messages];
+  let usage: ChatUsage | undefined;
+  // Keeps text from one step from running into the next
+  let separator = '';
+
+  for (let step = 1; step <= MAX_TOOL_STEPS; step++) {
+    const lastStep = step === MAX_TOOL_STEPS;
+    const calls: ToolCall[] = [];
+    let content = '';
+
+    const events = adapter.stream({
+      ...request,
+      messages,
+      tools: definitions,
+      toolChoice: lastStep ? 'none' : 'auto',
+    });
+    for await (const event of events) {
+      if (event.type === 'delta') {
+        yield { type: 'delta', content: content ? event.content : separator + event.content };
+        content += event.content;
+      } else if (event.type === 'reasoning') {
+        yield event;
+      } else if (event.type === 'usage') {
+        usage = addUsage(usage, event.usage);
+      } else if (event.type === 'tool_call') {
+        calls.push(event.call);
+      }
+    }
+
+    if (calls.length === 0 || lastStep) break;
+    if (content.trim()) separator = '\n\n';
+
+    console.log(`🔧 Tool step ${step}: ${calls.map((call) => call.name).join(', ')}`);
+    messages.push({ role: 'assistant', content, toolCalls: calls });
+    for (const [i, call] of calls.entries()) {
+      yield { type: 'tool_call', call };
+      const outcome: ToolOutcome = i < MAX_TOOL_CALLS_PER_STEP
+        ? await executeToolCall(tools, call, context)
+        : { result: `Only ${MAX_TOOL_CALLS_PER_STEP} tool calls are run per turn`, isError: true };
+      yield { type: 'tool_result', id: call.id, name: call.name, ...outcome };
+      messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content: outcome.result });
+    }
+  }
+
+  if (usage) yield { type: 'usage', usage };
+}
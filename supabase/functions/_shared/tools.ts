@@ -0,0 +1,458 @@
+/**
+ * Tool registry for tool-calling models.
+ *
+ * Built-in tools (calculator, current time, web search, conversation memory)
+ * are available to every signed-in caller; users can add their own HTTP
+ * tools in the `user_tools` table. Every tool carries a JSON-schema
+ * definition that is sent to the model, and an `execute` function the tool
+ * loop (see `tool-loop.ts`) runs for each call the model makes.
+ *
+ * Tools never throw at the model: bad arguments, timeouts and upstream
+ * failures come back as an error result the model can read and react to.
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import type { ToolCall, ToolDefinition } from './chat-types.ts';
+import type { ChatCaller } from './chat-auth.ts';
+import { getEmbeddingProvider, MAX_EMBEDDING_CHARS } from './embeddings.ts';
+import { getWebSearchBackend, toSearchQuery, DEFAULT_SEARCH_RESULTS } from './web-search.ts';
+
+/** Model round trips per answer; the last one is asked to answer without tools */
+export const MAX_TOOL_STEPS = 5;
+/** Calls run per round trip; further calls in the same turn get an error result */
+export const MAX_TOOL_CALLS_PER_STEP = 4;
+export const TOOL_TIMEOUT_MS = 15000;
+/** Longer results are cut off before they are handed back to the model */
+export const MAX_TOOL_RESULT_CHARS = 4000;
+
+/** Same pattern as the `user_tools.name` check constraint */
+const TOOL_NAME_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+const MAX_USER_TOOLS = 20;
+const MAX_EXPRESSION_CHARS = 500;
+
+export interface ToolContext {
+  supabaseAdmin: SupabaseClient;
+  caller: ChatCaller;
+  signal: AbortSignal;
+}
+
+export interface ChatTool extends ToolDefinition {
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+}
+
+export interface ToolOutcome {
+  result: string;
+  isError: boolean;
+}
+
+/** Thrown by tools for problems the model should see as an error result */
+class ToolError extends Error {}
+
+function readString(args: Record<string, unknown>, name: string, required = true): string | undefined {
+  const value = args[name];
+  if (value === undefined || value === null || value === '') {
+    if (required) throw new ToolError(`${name} is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string') throw new ToolError(`${name} must be a string`);
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Calculator
+// ---------------------------------------------------------------------------
+
+const MATH_FUNCTIONS: Record<string, (...values: number[]) => number> = {
+  abs: Math.abs,
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluate an arithmetic expression without `eval`: numbers, + - * / % ^,
+ * parentheses, the functions above and the constants `pi` and `e`
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z_][a-z0-9_]*|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const take = (expected?: string) => {
+    const token = tokens[position];
+    if (expected !== undefined && token !== expected) {
+      throw new ToolError(token === undefined ? `Expected "${expected}" at the end` : `Expected "${expected}" but found "${token}"`);
+    }
+    position++;
+    return token;
+  };
+
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      take();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      take();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // Right-associative, and binds tighter than a leading minus: -2^2 = -4
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^' || peek() === '**') {
+      take();
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+
+  const parsePrimary = (): number => {
+    const token = take();
+    if (token === undefined) throw new ToolError('Unexpected end of expression');
+    if (token === '(') {
+      const value = parseExpression();
+      take(')');
+      return value;
+    }
+    if (/^(\d|\.\d)/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    if (name in MATH_CONSTANTS) return MATH_CONSTANTS[name];
+    const fn = MATH_FUNCTIONS[name];
+    if (!fn) throw new ToolError(`Unknown name "${token}"`);
+
+    take('(');
+    const args: number[] = [];
+    if (peek() !== ')') {
+      args.push(parseExpression());
+      while (peek() === ',') {
+        take();
+        args.push(parseExpression());
+      }
+    }
+    take(')');
+    return fn(...args);
+  };
+
+  const value = parseExpression();
+  if (position < tokens.length) throw new ToolError(`Unexpected "${tokens[position]}"`);
+  return value;
+}
+
+const calculatorTool: ChatTool = {
+  name: 'calculator',
+  description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, ' +
+    'sqrt, cbrt, abs, exp, ln, log (base 10), log2, sin, cos, tan, asin, acos, atan, round, floor, ceil, min, max, pow and the constants pi and e.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'Expression to evaluate, e.g. "sqrt(2) * (3 + 4)^2"' },
+    },
+    required: ['expression'],
+  },
+  execute(args) {
+    const expression = readString(args, 'expression')!;
+    if (expression.length > MAX_EXPRESSION_CHARS) {
+      throw new ToolError(`expression is limited to ${MAX_EXPRESSION_CHARS} characters`);
+    }
+    const value = evaluateExpression(expression);
+    if (!Number.isFinite(value)) throw new ToolError('The result is not a finite number');
+    return Promise.resolve(String(Number(value.toPrecision(15))));
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Current time
+// ---------------------------------------------------------------------------
+
+const currentTimeTool: ChatTool = {
+  name: 'current_time',
+  description: 'Get the current date and time, in UTC or in a given IANA time zone.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timezone: { type: 'string', description: 'IANA time zone such as "Europe/Amsterdam"; defaults to UTC' },
+    },
+  },
+  execute(args) {
+    const timeZone = readString(args, 'timezone', false) ?? 'UTC';
+    const now = new Date();
+    let local: string;
+    try {
+      local = new Intl.DateTimeFormat('en-GB', {
+        timeZone,
+        dateStyle: 'full',
+        timeStyle: 'long',
+      }).format(now);
+    } catch {
+      throw new ToolError(`Unknown time zone: ${timeZone}`);
+    }
+    return Promise.resolve(JSON.stringify({ timezone: timeZone, local, iso: now.toISOString() }));
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Web search
+// ---------------------------------------------------------------------------
+
+const webSearchTool: ChatTool = {
+  name: 'web_search',
+  description: 'Search the web for current information. Returns titles, URLs and snippets; cite the URLs you use.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Search query' },
+    },
+    required: ['query'],
+  },
+  async execute(args) {
+    const query = toSearchQuery(readString(args, 'query')!);
+    if (!query) throw new ToolError('query is required');
+    const results = await getWebSearchBackend().search(query, DEFAULT_SEARCH_RESULTS);
+    if (results.length === 0) return 'No results found.';
+    return JSON.stringify(results.map(({ title, url, snippet }) => ({ title, url, snippet })));
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Conversation memory
+// ---------------------------------------------------------------------------
+
+interface MessageMatch {
+  conversation_title: string;
+  role: string;
+  created_at: string;
+  similarity: number;
+  snippet: string;
+}
+
+const conversationMemoryTool: ChatTool = {
+  name: 'conversation_memory',
+  description: "Search the user's earlier conversations for messages about a topic. " +
+    'Use it when the user refers to something discussed before.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to look for' },
+      limit: { type: 'integer', minimum: 1, maximum: 10, description: 'Number of messages to return, default 5' },
+    },
+    required: ['query'],
+  },
+  async execute(args, { supabaseAdmin, caller }) {
+    const query = readString(args, 'query')!.trim();
+    const limit = typeof args.limit === 'number' ? Math.min(Math.max(Math.round(args.limit), 1), 10) : 5;
+
+    const provider = getEmbeddingProvider();
+    const [vector] = await provider.embed([query.slice(0, MAX_EMBEDDING_CHARS)]);
+    const { data, error } = await supabaseAdmin.rpc('match_messages', {
+      p_user_id: caller.user!.id,
+      p_query: vector,
+      p_model: provider.model,
+      p_models: null,
+      p_from: null,
+      p_to: null,
+      p_role: null,
+      p_limit: limit,
+    });
+    if (error) throw new Error(`Memory lookup failed: ${error.message}`);
+
+    const matches = (data ?? []) as MessageMatch[];
+    if (matches.length === 0) return 'No related messages found in earlier conversations.';
+    return JSON.stringify(matches.map((match) => ({
+      conversation: match.conversation_title,
+      role: match.role,
+      date: match.created_at,
+      similarity: Number(match.similarity.toFixed(3)),
+      text: match.snippet,
+    })));
+  },
+};
+
+export const BUILT_IN_TOOLS: ChatTool[] = [calculatorTool, currentTimeTool, webSearchTool, conversationMemoryTool];
+
+// ---------------------------------------------------------------------------
+// User-defined HTTP tools
+// ---------------------------------------------------------------------------
+
+/** Row of the `user_tools` table */
+export interface UserToolRow {
+  id: string;
+  name: string;
+  description: string;
+  parameters: Record<string, unknown> | null;
+  url: string;
+  method: 'GET' | 'POST';
+  headers: Record<string, string> | null;
+}
+
+/**
+ * Only public https endpoints may be called: loopback, private and
+ * link-local addresses (including the metadata service) are refused. Host
+ * names are not resolved, so this stops typed-in addresses, not DNS tricks.
+ */
+export function assertPublicUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new ToolError('The tool URL is not valid');
+  }
+  if (url.protocol !== 'https:') throw new ToolError('Tools can only call https URLs');
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const privateHost = host === 'localhost' ||
+    /\.(localhost|local|internal|lan|home)$/.test(host) ||
+    /^(0|10|127)\./.test(host) ||
+    /^169\.254\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./.test(host) ||
+    host === '::' || host === '::1' ||
+    /^(fc|fd|fe80)/.test(host) ||
+    host.startsWith('::ffff:');
+  if (privateHost) throw new ToolError('Tools cannot call local or private addresses');
+  return url;
+}
+
+function createHttpTool(row: UserToolRow): ChatTool {
+  return {
+    name: row.name,
+    description: row.description,
+    parameters: row.parameters ?? { type: 'object', properties: {} },
+    async execute(args, { signal }) {
+      const url = assertPublicUrl(row.url);
+      const init: RequestInit = {
+        method: row.method,
+        headers: { 'Accept': 'application/json, text/plain;q=0.9, */*;q=0.5', ...(row.headers ?? {}) },
+        // A redirect could lead to an address assertPublicUrl would refuse
+        redirect: 'error',
+        signal,
+      };
+      if (row.method === 'GET') {
+        for (const [key, value] of Object.entries(args)) {
+          url.searchParams.set(key, typeof value === 'string' ? value : JSON.stringify(value));
+        }
+      } else {
+        init.headers = { ...init.headers, 'Content-Type': 'application/json' };
+        init.body = JSON.stringify(args);
+      }
+
+      const response = await fetch(url, init);
+      const text = await response.text();
+      if (!response.ok) throw new ToolError(`HTTP ${response.status}: ${text.slice(0, 500)}`);
+      return text || `HTTP ${response.status} with an empty body`;
+    },
+  };
+}
+
+/**
+ * Tools offered to the caller's model: the built-ins plus their enabled
+ * HTTP tools. Built-in names win over user tools with the same name.
+ * Anonymous callers get no tools.
+ */
+export async function loadTools(supabaseAdmin: SupabaseClient, caller: ChatCaller): Promise<ChatTool[]> {
+  if (!caller.user) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('user_tools')
+    .select('id, name, description, parameters, url, method, headers')
+    .eq('user_id', caller.user.id)
+    .eq('enabled', true)
+    .order('created_at', { ascending: true })
+    .limit(MAX_USER_TOOLS);
+  if (error) {
+    console.warn('⚠️ Could not load user tools, offering built-ins only:', error.message);
+    return BUILT_IN_TOOLS;
+  }
+
+  const builtInNames = new Set(BUILT_IN_TOOLS.map((tool) => tool.name));
+  const userTools = ((data ?? []) as UserToolRow[])
+    .filter((row) => TOOL_NAME_PATTERN.test(row.name) && !builtInNames.has(row.name))
+    .map(createHttpTool);
+  return [...BUILT_IN_TOOLS, ...userTools];
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TOOL_RESULT_CHARS
+    ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}\n[truncated ${text.length - MAX_TOOL_RESULT_CHARS} characters]`
+    : text;
+}
+
+/**
+ * Run one call. The tool gets TOOL_TIMEOUT_MS and is cancelled with the
+ * request; whatever goes wrong is returned as an error result.
+ */
+export async function executeToolCall(tools: ChatTool[], call: ToolCall, context: ToolContext): Promise<ToolOutcome> {
+  const tool = tools.find((candidate) => candidate.name === call.name);
+  if (!tool) return { result: `Unknown tool: ${call.name}`, isError: true };
+
+  let args: Record<string, unknown>;
+  try {
+    const parsed = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error();
+    args = parsed;
+  } catch {
+    return { result: 'Arguments must be a JSON object', isError: true };
+  }
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  context.signal.addEventListener('abort', abort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ToolError(`Timed out after ${TOOL_TIMEOUT_MS / 1000} seconds`));
+    }, TOOL_TIMEOUT_MS);
+  });
+
+  try {
+    const result = await Promise.race([tool.execute(args, { ...context, signal: controller.signal }), timeout]);
+    return { result: truncate(result), isError: false };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!(error instanceof ToolError)) console.warn(`⚠️ Tool ${call.name} failed:`, message);
+    return { result: truncate(message), isError: true };
+  } finally {
+    clearTimeout(timer);
+    context.signal.removeEventListener('abort', abort);
+  }
+}
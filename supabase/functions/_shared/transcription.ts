@@ -0,0 +1,84 @@
+/**
+ * Speech to text with Mistral's Voxtral transcription model.
+ *
+ * Used by the `transcribe` function for microphone recordings and uploaded
+ * audio attachments. Audio is forwarded as multipart form data to
+ * `/v1/audio/transcriptions`; the language is detected unless given.
+ */
+
+import { ChatError } from './chat-types.ts';
+import { readApiKey, upstreamError } from './providers/utils.ts';
+
+/** Registry code of the transcription model (`forChat: false` in `src/models/registry.ts`) */
+export const TRANSCRIPTION_MODEL = 'voxtral-mini-2507';
+
+/** Same limit as attachment uploads */
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+/** Formats MediaRecorder produces in current browsers, plus common audio files */
+export const AUDIO_TYPES = [
+  'audio/webm',
+  'audio/ogg',
+  'audio/mp4',
+  'audio/mpeg',
+  'audio/wav',
+  'audio/x-wav',
+  'audio/flac',
+  'audio/aac',
+  'audio/x-m4a',
+];
+
+export interface Transcription {
+  text: string;
+  /** Detected or requested language code, when the API reports it */
+  language: string | null;
+  model: string;
+}
+
+interface MistralTranscriptionResponse {
+  text?: string;
+  language?: string | null;
+}
+
+/** MIME type without parameters, e.g. `audio/webm;codecs=opus` → `audio/webm` */
+export function baseAudioType(type: string): string {
+  return type.split(';')[0].trim().toLowerCase();
+}
+
+export function isAudioType(type: string): boolean {
+  return AUDIO_TYPES.includes(baseAudioType(type));
+}
+
+export async function transcribeAudio(audio: Blob, filename: string, language?: string): Promise<Transcription> {
+  if (audio.size === 0) {
+    throw new ChatError('bad_request', 'The recording is empty', 400);
+  }
+  if (audio.size > MAX_AUDIO_BYTES) {
+    throw new ChatError('bad_request', `Audio is limited to ${MAX_AUDIO_BYTES / 1024 / 1024}MB`, 413);
+  }
+
+  const apiKey = readApiKey(['MISTRAL_API_KEY']);
+  if (!apiKey) {
+    throw new ChatError('provider_not_configured', 'Mistral API key is not configured', 500);
+  }
+
+  const form = new FormData();
+  form.append('model', TRANSCRIPTION_MODEL);
+  form.append('file', audio, filename);
+  if (language) form.append('language', language);
+
+  const response = await fetch('https://api.mistral.ai/v1/audio/transcriptions', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${apiKey}` },
+    body: form,
+  });
+
+  if (!response.ok) throw await upstreamError('Mistral', response);
+
+  const data = await response.json() as MistralTranscriptionResponse;
+  return {
+    text: (data.text ?? '').trim(),
+    language: data.language ?? language ?? null,
+    model: TRANSCRIPTION_MODEL,
+  };
+}
@@ -0,0 +1,223 @@
+/**
+ * Web search for search-capable chat models.
+ *
+ * The `search` function and the chat pipeline only talk to the
+ * WebSearchBackend interface. `WEB_SEARCH_PROVIDER` picks the backend:
+ * `brave` (default, Brave Search API) or `local`, an offline fixture backend
+ * for development and tests that ranks a fixed set of pages by shared words.
+ * `WEB_SEARCH_FIXTURES` (a JSON array of results) replaces its built-in
+ * pages.
+ *
+ * When the client asks for web search and the model supports it, the chat
+ * function searches for the last user message and adds the results as
+ * numbered sources, continuing the numbering of any document excerpts.
+ */
+
+import { ChatError, type ChatCitation } from './chat-types.ts';
+import { readApiKey, upstreamError } from './providers/utils.ts';
+
+export const DEFAULT_SEARCH_RESULTS = 5;
+export const MAX_SEARCH_RESULTS = 10;
+/** Brave rejects longer queries; prompts are cut down to this */
+export const MAX_SEARCH_QUERY_CHARS = 400;
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  /** Host name, e.g. `en.wikipedia.org` */
+  source: string;
+}
+
+export interface WebSearchBackend {
+  id: string;
+  search(query: string, maxResults: number): Promise<WebSearchResult[]>;
+}
+
+export interface WebContext {
+  /** System message with the numbered results */
+  context: string;
+  citations: ChatCitation[];
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return url;
+  }
+}
+
+/** Brave snippets carry `<strong>` highlights and HTML entities */
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Brave Search
+// ---------------------------------------------------------------------------
+
+interface BraveSearchResponse {
+  web?: {
+    results?: Array<{ title?: string; url?: string; description?: string; extra_snippets?: string[] }>;
+  };
+}
+
+export function createBraveBackend(): WebSearchBackend {
+  return {
+    id: 'brave',
+    async search(query: string, maxResults: number): Promise<WebSearchResult[]> {
+      const apiKey = readApiKey(['BRAVE_SEARCH_API_KEY']);
+      if (!apiKey) {
+        throw new ChatError('provider_not_configured', 'Brave Search API key is not configured', 500);
+      }
+
+      const params = new URLSearchParams({ q: query, count: String(maxResults), text_decorations: 'false' });
+      const response = await fetch(`https://api.search.brave.com/res/v1/web/search?${params}`, {
+        headers: {
+          'Accept': 'application/json',
+          'X-Subscription-Token': apiKey,
+        },
+      });
+      if (!response.ok) throw await upstreamError('Brave Search', response);
+
+      const data = await response.json() as BraveSearchResponse;
+      return (data.web?.results ?? [])
+        .filter((result) => result.url && result.title)
+        .slice(0, maxResults)
+        .map((result) => ({
+          title: stripMarkup(result.title!),
+          url: result.url!,
+          snippet: stripMarkup([result.description, ...(result.extra_snippets ?? [])].filter(Boolean).join(' ')),
+          source: hostOf(result.url!),
+        }));
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Local fixtures
+// ---------------------------------------------------------------------------
+
+const DEFAULT_FIXTURES: Array<Omit<WebSearchResult, 'source'>> = [
+  {
+    title: 'Supabase Edge Functions',
+    url: 'https://supabase.com/docs/guides/functions',
+    snippet: 'Edge Functions are server-side TypeScript functions, distributed globally at the edge and run on Deno.',
+  },
+  {
+    title: 'pgvector: vector similarity search for Postgres',
+    url: 'https://github.com/pgvector/pgvector',
+    snippet: 'Store embeddings with the rest of your data and query them with exact or approximate nearest neighbour search.',
+  },
+  {
+    title: 'React – A JavaScript library for building user interfaces',
+    url: 'https://react.dev/',
+    snippet: 'React lets you build user interfaces out of individual pieces called components written in JavaScript.',
+  },
+  {
+    title: 'Server-sent events - Web APIs | MDN',
+    url: 'https://developer.mozilla.org/en-US/docs/Web/API/Server-sent_events',
+    snippet: 'With server-sent events, a server can send new data to a web page at any time by pushing messages to it.',
+  },
+  {
+    title: 'Mistral AI documentation',
+    url: 'https://docs.mistral.ai/',
+    snippet: 'Mistral AI models for chat, code, embeddings, OCR and speech, available through the La Plateforme API.',
+  },
+];
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+}
+
+function readFixtures(): Array<Omit<WebSearchResult, 'source'>> {
+  const configured = Deno.env.get('WEB_SEARCH_FIXTURES');
+  if (!configured) return DEFAULT_FIXTURES;
+  try {
+    const parsed = JSON.parse(configured);
+    if (Array.isArray(parsed)) return parsed;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new ChatError('provider_not_configured', 'WEB_SEARCH_FIXTURES must be a JSON array of results', 500);
+}
+
+/**
+ * Deterministic offline backend: pages sharing the most words with the
+ * query come first, pages sharing none are left out
+ */
+export function createLocalBackend(fixtures = readFixtures()): WebSearchBackend {
+  return {
+    id: 'local',
+    search(query: string, maxResults: number): Promise<WebSearchResult[]> {
+      const terms = words(query);
+      const ranked = fixtures
+        .map((fixture) => {
+          const pageWords = words(`${fixture.title} ${fixture.snippet}`);
+          return { fixture, score: [...terms].filter((term) => pageWords.has(term)).length };
+        })
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxResults)
+        .map(({ fixture }) => ({ ...fixture, source: hostOf(fixture.url) }));
+      return Promise.resolve(ranked);
+    },
+  };
+}
+
+/** Backend configured for this deployment: `WEB_SEARCH_PROVIDER` (`brave` or `local`) */
+export function getWebSearchBackend(): WebSearchBackend {
+  const id = Deno.env.get('WEB_SEARCH_PROVIDER') || 'brave';
+  if (id === 'brave') return createBraveBackend();
+  if (id === 'local') return createLocalBackend();
+  throw new ChatError('provider_not_configured', `Unknown web search provider: ${id}`, 500);
+}
+
+/** Search query for a chat prompt: whitespace collapsed and cut to the backend limit */
+export function toSearchQuery(prompt: string): string {
+  return prompt.replace(/\s+/g, ' ').trim().slice(0, MAX_SEARCH_QUERY_CHARS);
+}
+
+/**
+ * Search the web for `query` and number the results from `firstIndex`, so
+ * they can follow document excerpts in the same answer. Search failures are
+ * logged and the question is answered without results.
+ */
+export async function resolveWebContext(query: string, firstIndex: number = 1): Promise<WebContext | null> {
+  const searchQuery = toSearchQuery(query);
+  if (!searchQuery) return null;
+
+  let results: WebSearchResult[];
+  try {
+    results = await getWebSearchBackend().search(searchQuery, DEFAULT_SEARCH_RESULTS);
+  } catch (error) {
+    console.warn('⚠️ Web search failed, answering without it:', error instanceof Error ? error.message : error);
+    return null;
+  }
+  if (results.length === 0) return null;
+
+  const citations: ChatCitation[] = results.map((result, i) => ({
+    index: firstIndex + i,
+    source: 'web',
+    url: result.url,
+    title: result.title,
+  }));
+  const sections = results.map((result, i) => `[${firstIndex + i}] ${result.title} (${result.url})\n${result.snippet}`);
+
+  console.log(`🔎 Added ${results.length} web results for the prompt`);
+  return {
+    context: 'Web search results for the user\'s last message follow, each labelled with a source number. ' +
+      'Use them for current or factual information and cite the sources you use inline as ' +
+      `[${firstIndex}], [${firstIndex + 1}] and so on. If they do not answer the question, say so and answer from your own knowledge.\n\n` +
+      sections.join('\n\n'),
+    citations,
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Chat Edge Function
+ *
+ * Single entry point for AI chat. Resolves the provider from the requested
+ * model code (see `_shared/models.ts`) and streams the response back using
+ * the shared SSE contract (`chunk` / `complete` / `error` events).
+ */
+
+import { serveChat } from '../_shared/chat.ts';
+
+serveChat();
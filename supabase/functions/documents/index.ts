@@ -0,0 +1,78 @@
+/**
+ * Documents Edge Function
+ *
+ * Prepares PDF, Markdown, text and JSON attachments for questions in chat:
+ * extracts their text (OCR for scanned pages), chunks and embeds it. The
+ * client calls it right after uploading a document; the chat function
+ * ingests documents on demand as well, so this only moves the wait to the
+ * upload.
+ *
+ *   { action: 'ingest', attachmentId, force? }   → { extraction }
+ *
+ * An already ingested document is not processed again unless `force` is set.
+ * Only signed-in users can call it. Errors use the chat JSON error shape
+ * (`{ error, code }`).
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+import { ChatError } from '../_shared/chat-types.ts';
+import { authenticateCaller, createAdminClient } from '../_shared/chat-auth.ts';
+import { ingestDocument, isIngested, loadDocuments, readExtraction } from '../_shared/documents.ts';
+import { getEmbeddingProvider } from '../_shared/embeddings.ts';
+import { jsonResponse } from '../_shared/sse.ts';
+
+interface DocumentsRequestBody {
+  action?: 'ingest';
+  attachmentId?: string;
+  force?: boolean;
+}
+
+function errorResponse(error: unknown): Response {
+  const chatError = error instanceof ChatError
+    ? error
+    : new ChatError('internal_error', error instanceof Error ? error.message : String(error), 500);
+  return jsonResponse({ error: chatError.message, code: chatError.code, ...chatError.details }, chatError.status);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(new ChatError('bad_request', 'Method not allowed', 405));
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const caller = await authenticateCaller(req, supabaseAdmin);
+    if (!caller.user) {
+      throw new ChatError('unauthorized', 'Sign in to attach documents', 401);
+    }
+
+    let body: DocumentsRequestBody;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ChatError('bad_request', 'Request body must be valid JSON', 400);
+    }
+
+    const action = body.action ?? 'ingest';
+    if (action !== 'ingest') {
+      throw new ChatError('bad_request', `Unknown action: ${action}`, 400);
+    }
+    if (typeof body.attachmentId !== 'string' || !body.attachmentId) {
+      throw new ChatError('bad_request', 'attachmentId is required', 400);
+    }
+
+    const provider = getEmbeddingProvider();
+    const [document] = await loadDocuments(supabaseAdmin, caller.user.id, [body.attachmentId]);
+    if (!body.force && isIngested(document, provider.model)) {
+      return jsonResponse({ extraction: readExtraction(document) });
+    }
+
+    return jsonResponse({ extraction: await ingestDocument(supabaseAdmin, provider, document) });
+  } catch (error) {
+    console.error('❌ Documents request failed:', error);
+    return errorResponse(error);
+  }
+});
@@ -0,0 +1,198 @@
+/**
+ * Embeddings Edge Function
+ *
+ * Semantic recall over the caller's messages and attachments. Every request
+ * first embeds a bounded number of sources that have no up-to-date vector
+ * (see `pending_embedding_sources`), so the index catches up as it is used.
+ *
+ *   { action: 'index' }                                  → { indexed, remaining }
+ *   { action: 'search', query, filters?, limit? }        → { results, indexed, remaining }
+ *   { action: 'similar', conversationId, limit? }        → { results, indexed, remaining }
+ *
+ * Only signed-in users can call it. Errors use the chat JSON error shape
+ * (`{ error, code }`).
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { ChatError } from '../_shared/chat-types.ts';
+import { authenticateCaller, createAdminClient } from '../_shared/chat-auth.ts';
+import { getEmbeddingProvider, MAX_EMBEDDING_CHARS, type EmbeddingProvider } from '../_shared/embeddings.ts';
+import { jsonResponse } from '../_shared/sse.ts';
+
+/** Sources embedded per upstream call */
+const INDEX_BATCH_SIZE = 32;
+/** Sources embedded per request, so a large backlog does not time out */
+const MAX_INDEX_PER_REQUEST = 128;
+
+const TEXT_FILE_TYPES = ['text/plain', 'text/markdown', 'application/json'];
+
+interface SearchFilters {
+  models?: string[];
+  role?: 'user' | 'assistant';
+  from?: string;
+  to?: string;
+}
+
+interface EmbeddingsRequestBody {
+  action?: 'index' | 'search' | 'similar';
+  query?: string;
+  filters?: SearchFilters;
+  conversationId?: string;
+  limit?: number;
+}
+
+interface PendingSource {
+  source_type: 'message' | 'attachment';
+  source_id: string;
+  conversation_id: string | null;
+  content: string | null;
+  content_hash: string;
+  file_type: string | null;
+  storage_path: string | null;
+  filename: string | null;
+}
+
+function errorResponse(error: unknown): Response {
+  const chatError = error instanceof ChatError
+    ? error
+    : new ChatError('internal_error', error instanceof Error ? error.message : String(error), 500);
+  return jsonResponse({ error: chatError.message, code: chatError.code, ...chatError.details }, chatError.status);
+}
+
+/** Text to embed for a source; attachments fall back to their file name */
+async function sourceText(supabaseAdmin: SupabaseClient, source: PendingSource): Promise<string> {
+  if (source.source_type === 'message' || source.content) {
+    return (source.content ?? '').slice(0, MAX_EMBEDDING_CHARS);
+  }
+
+  const filename = source.filename ?? 'attachment';
+  if (source.storage_path && source.file_type && TEXT_FILE_TYPES.includes(source.file_type)) {
+    const { data, error } = await supabaseAdmin.storage.from('attachments').download(source.storage_path);
+    if (!error && data) {
+      return `${filename}\n\n${await data.text()}`.slice(0, MAX_EMBEDDING_CHARS);
+    }
+    console.warn('⚠️ Could not read attachment for embedding:', source.source_id, error?.message);
+  }
+  return filename;
+}
+
+async function indexPending(
+  supabaseAdmin: SupabaseClient,
+  provider: EmbeddingProvider,
+  userId: string,
+): Promise<{ indexed: number; remaining: number }> {
+  let indexed = 0;
+
+  while (indexed < MAX_INDEX_PER_REQUEST) {
+    const { data, error } = await supabaseAdmin.rpc('pending_embedding_sources', {
+      p_user_id: userId,
+      p_model: provider.model,
+      p_limit: Math.min(INDEX_BATCH_SIZE, MAX_INDEX_PER_REQUEST - indexed),
+    });
+    if (error) throw new ChatError('internal_error', `Failed to load pending sources: ${error.message}`, 500);
+
+    const sources = (data ?? []) as PendingSource[];
+    if (sources.length === 0) break;
+
+    const texts = await Promise.all(sources.map((source) => sourceText(supabaseAdmin, source)));
+    const vectors = await provider.embed(texts);
+
+    const { error: upsertError } = await supabaseAdmin
+      .from('embeddings')
+      .upsert(sources.map((source, i) => ({
+        user_id: userId,
+        conversation_id: source.conversation_id,
+        source_type: source.source_type,
+        source_id: source.source_id,
+        model: provider.model,
+        content_hash: source.content_hash,
+        embedding: vectors[i],
+      })), { onConflict: 'source_type,source_id,model' });
+    if (upsertError) throw new ChatError('internal_error', `Failed to store embeddings: ${upsertError.message}`, 500);
+
+    indexed += sources.length;
+    if (sources.length < INDEX_BATCH_SIZE) break;
+  }
+
+  const { data: remaining, error } = await supabaseAdmin.rpc('count_pending_embeddings', {
+    p_user_id: userId,
+    p_model: provider.model,
+  });
+  if (error) console.warn('⚠️ Could not count pending embeddings:', error.message);
+
+  if (indexed > 0) console.log(`🧭 Embedded ${indexed} sources with ${provider.model}`);
+  return { indexed, remaining: (remaining as number | null) ?? 0 };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(new ChatError('bad_request', 'Method not allowed', 405));
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const caller = await authenticateCaller(req, supabaseAdmin);
+    if (!caller.user) {
+      throw new ChatError('unauthorized', 'Sign in to use semantic search', 401);
+    }
+
+    let body: EmbeddingsRequestBody;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ChatError('bad_request', 'Request body must be valid JSON', 400);
+    }
+
+    const provider = getEmbeddingProvider();
+    const action = body.action ?? 'index';
+    if (action === 'search' && !body.query?.trim()) {
+      throw new ChatError('bad_request', 'Query is required', 400);
+    }
+    if (action === 'similar' && !body.conversationId) {
+      throw new ChatError('bad_request', 'conversationId is required', 400);
+    }
+
+    const progress = await indexPending(supabaseAdmin, provider, caller.user.id);
+
+    if (action === 'index') {
+      return jsonResponse(progress);
+    }
+
+    if (action === 'search') {
+      const [queryVector] = await provider.embed([body.query!.trim().slice(0, MAX_EMBEDDING_CHARS)]);
+      const filters = body.filters ?? {};
+      const { data, error } = await supabaseAdmin.rpc('match_messages', {
+        p_user_id: caller.user.id,
+        p_query: queryVector,
+        p_model: provider.model,
+        p_models: filters.models?.length ? filters.models : null,
+        p_from: filters.from ?? null,
+        p_to: filters.to ?? null,
+        p_role: filters.role ?? null,
+        p_limit: body.limit ?? 20,
+      });
+      if (error) throw new ChatError('internal_error', `Semantic search failed: ${error.message}`, 500);
+      return jsonResponse({ results: data ?? [], ...progress });
+    }
+
+    if (action === 'similar') {
+      const { data, error } = await supabaseAdmin.rpc('similar_conversations', {
+        p_user_id: caller.user.id,
+        p_conversation_id: body.conversationId,
+        p_model: provider.model,
+        p_limit: body.limit ?? 10,
+      });
+      if (error) throw new ChatError('internal_error', `Similar conversation lookup failed: ${error.message}`, 500);
+      return jsonResponse({ results: data ?? [], ...progress });
+    }
+
+    throw new ChatError('bad_request', `Unknown action: ${action}`, 400);
+  } catch (error) {
+    console.error('❌ Embeddings request failed:', error);
+    return errorResponse(error);
+  }
+});
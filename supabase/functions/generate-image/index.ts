@@ -0,0 +1,119 @@
+/**
+ * Generate Image Edge Function
+ *
+ * Text-to-image for the `/imagine` chat command (see
+ * `_shared/image-generation.ts` for the providers):
+ *
+ *   { prompt, style?, size?, quality?, conversationId? }
+ *     → { imageUrl, mimeType, model, revisedPrompt?, billing? }
+ *
+ * `imageUrl` is a base64 data URL; the client stores it as an attachment
+ * with the prompt in its metadata. One credit is reserved before the
+ * provider is called (medium tier, heavy for `quality: 'hd'`), settled when
+ * an image came back and refunded otherwise.
+ *
+ * Only signed-in users can call it. Errors use the chat JSON error shape
+ * (`{ error, code }`).
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+import { ChatError } from '../_shared/chat-types.ts';
+import { authenticateCaller, createAdminClient } from '../_shared/chat-auth.ts';
+import { refundCredit, reserveCredit, settleCredit, type CreditReservation } from '../_shared/credits.ts';
+import {
+  getImageProvider,
+  imageCreditTier,
+  IMAGE_QUALITIES,
+  IMAGE_SIZES,
+  IMAGE_STYLES,
+  MAX_IMAGE_PROMPT_CHARS,
+  type ImageGenerationRequest,
+} from '../_shared/image-generation.ts';
+import { jsonResponse } from '../_shared/sse.ts';
+
+interface GenerateImageRequestBody {
+  prompt?: unknown;
+  style?: unknown;
+  size?: unknown;
+  quality?: unknown;
+  conversationId?: unknown;
+}
+
+function errorResponse(error: unknown): Response {
+  const chatError = error instanceof ChatError
+    ? error
+    : new ChatError('internal_error', error instanceof Error ? error.message : String(error), 500);
+  return jsonResponse({ error: chatError.message, code: chatError.code, ...chatError.details }, chatError.status);
+}
+
+function readOption<T extends string>(value: unknown, allowed: readonly T[], name: string): T | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new ChatError('bad_request', `${name} must be one of: ${allowed.join(', ')}`, 400);
+  }
+  return value as T;
+}
+
+function parseBody(body: GenerateImageRequestBody): ImageGenerationRequest {
+  const prompt = typeof body.prompt === 'string' ? body.prompt.trim() : '';
+  if (!prompt) {
+    throw new ChatError('bad_request', 'prompt is required', 400);
+  }
+  if (prompt.length > MAX_IMAGE_PROMPT_CHARS) {
+    throw new ChatError('bad_request', `prompt is limited to ${MAX_IMAGE_PROMPT_CHARS} characters`, 400);
+  }
+  return {
+    prompt,
+    style: readOption(body.style, IMAGE_STYLES, 'style'),
+    size: readOption(body.size, IMAGE_SIZES, 'size') ?? '1024x1024',
+    quality: readOption(body.quality, IMAGE_QUALITIES, 'quality') ?? 'standard',
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(new ChatError('bad_request', 'Method not allowed', 405));
+  }
+
+  const supabaseAdmin = createAdminClient();
+  let reservation: CreditReservation | null = null;
+  try {
+    const caller = await authenticateCaller(req, supabaseAdmin);
+    if (!caller.user) {
+      throw new ChatError('unauthorized', 'Sign in to generate images', 401);
+    }
+
+    let body: GenerateImageRequestBody;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ChatError('bad_request', 'Request body must be valid JSON', 400);
+    }
+    const request = parseBody(body);
+    const conversationId = typeof body.conversationId === 'string' && body.conversationId ? body.conversationId : undefined;
+
+    const provider = getImageProvider();
+    const model = provider.modelFor(request.quality);
+    reservation = await reserveCredit(supabaseAdmin, caller, imageCreditTier(request.quality), model, conversationId);
+
+    const image = await provider.generate(request);
+    const billing = await settleCredit(supabaseAdmin, reservation, model, undefined);
+    reservation = null;
+
+    console.log(`🎨 Generated ${request.size} image with ${image.model}`);
+    return jsonResponse({
+      imageUrl: `data:${image.mimeType};base64,${image.data}`,
+      mimeType: image.mimeType,
+      model: image.model,
+      ...(image.revisedPrompt ? { revisedPrompt: image.revisedPrompt } : {}),
+      ...(billing ? { billing } : {}),
+    });
+  } catch (error) {
+    console.error('❌ Image generation failed:', error);
+    await refundCredit(supabaseAdmin, reservation, error instanceof ChatError ? error.code : 'internal_error');
+    return errorResponse(error);
+  }
+});
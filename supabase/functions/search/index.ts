@@ -0,0 +1,82 @@
+/**
+ * Search Edge Function
+ *
+ * Web search through the configured backend (see `_shared/web-search.ts`):
+ *
+ *   { query, maxResults? }  → { results: [{ title, url, snippet, source }] }
+ *
+ * The chat function searches on its own for search-capable models; this
+ * endpoint serves `chatFeaturesService.performWebSearch` and tests of the
+ * backends. Only signed-in users can call it. Errors use the chat JSON
+ * error shape (`{ error, code }`).
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+import { ChatError } from '../_shared/chat-types.ts';
+import { authenticateCaller, createAdminClient } from '../_shared/chat-auth.ts';
+import {
+  DEFAULT_SEARCH_RESULTS,
+  getWebSearchBackend,
+  MAX_SEARCH_QUERY_CHARS,
+  MAX_SEARCH_RESULTS,
+  toSearchQuery,
+} from '../_shared/web-search.ts';
+import { jsonResponse } from '../_shared/sse.ts';
+
+interface SearchRequestBody {
+  query?: unknown;
+  maxResults?: unknown;
+}
+
+function errorResponse(error: unknown): Response {
+  const chatError = error instanceof ChatError
+    ? error
+    : new ChatError('internal_error', error instanceof Error ? error.message : String(error), 500);
+  return jsonResponse({ error: chatError.message, code: chatError.code, ...chatError.details }, chatError.status);
+}
+
+function readMaxResults(value: unknown): number {
+  if (value === undefined || value === null) return DEFAULT_SEARCH_RESULTS;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_SEARCH_RESULTS) {
+    throw new ChatError('bad_request', `maxResults must be an integer between 1 and ${MAX_SEARCH_RESULTS}`, 400);
+  }
+  return value;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(new ChatError('bad_request', 'Method not allowed', 405));
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const caller = await authenticateCaller(req, supabaseAdmin);
+    if (!caller.user) {
+      throw new ChatError('unauthorized', 'Sign in to search the web', 401);
+    }
+
+    let body: SearchRequestBody;
+    try {
+      body = await req.json();
+    } catch {
+      throw new ChatError('bad_request', 'Request body must be valid JSON', 400);
+    }
+    if (typeof body.query !== 'string' || !body.query.trim()) {
+      throw new ChatError('bad_request', 'query is required', 400);
+    }
+    if (body.query.length > MAX_SEARCH_QUERY_CHARS) {
+      throw new ChatError('bad_request', `query is limited to ${MAX_SEARCH_QUERY_CHARS} characters`, 400);
+    }
+
+    const backend = getWebSearchBackend();
+    const results = await backend.search(toSearchQuery(body.query), readMaxResults(body.maxResults));
+    console.log(`🔎 ${backend.id} search returned ${results.length} results`);
+    return jsonResponse({ results });
+  } catch (error) {
+    console.error('❌ Web search failed:', error);
+    return errorResponse(error);
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import Stripe from 'https://esm.sh/stripe@14.19.0'
+import { getBundle } from '../_shared/bundles.ts'
 
 const STRIPE_SECRET_KEY = Deno.env.get('STRIPE_SECRET_KEY') || ''
 if (!STRIPE_SECRET_KEY) {
@@ -22,7 +23,7 @@ interface CheckoutRequest {
   success_url: string
   cancel_url: string
   mode?: 'subscription' | 'payment'
-  bundle_sku?: 'LIGHT' | 'MEDIUM' | 'HEAVY'
+  bundle_sku?: string
 }
 
 async function getOrCreateCustomer(user: any): Promise<string> {
@@ -131,9 +132,12 @@ serve(async (req) => {
       params.line_items = [{ price: price_id, quantity: 1 }]
       params.subscription_data = { metadata: { supabase_user_id: user.id } }
     } else {
-      // One-time bundles use preconfigured Prices in Stripe; front-end will send a price_id per SKU
-      if (!price_id || !bundle_sku) return new Response('Missing price_id or bundle_sku for payment', { status: 400 })
-      params.line_items = [{ price: price_id, quantity: 1 }]
+      // One-time bundles: the Stripe Price comes from the bundles catalog, not the client
+      if (!bundle_sku) return new Response('Missing bundle_sku for payment', { status: 400 })
+      const bundle = await getBundle(supabaseAdmin, bundle_sku, { activeOnly: true })
+      if (!bundle) return new Response('Unknown or inactive bundle', { status: 400 })
+      if (!bundle.stripe_price_id) return new Response('Bundle is not available for purchase yet', { status: 400 })
+      params.line_items = [{ price: bundle.stripe_price_id, quantity: 1 }]
     }
 
     const session = await stripe.checkout.sessions.create(params)
@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import Stripe from 'https://esm.sh/stripe@14.19.0'
+import { getBundle } from '../_shared/bundles.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
   apiVersion: '2023-10-16',
@@ -58,7 +59,7 @@ serve(async (req) => {
     }
 
     const supabaseUserId = (session.metadata?.supabase_user_id || '') as string
-    const bundleSku = (session.metadata?.bundle_sku || '') as 'LIGHT' | 'MEDIUM' | 'HEAVY' | ''
+    const bundleSku = (session.metadata?.bundle_sku || '') as string
     if (!supabaseUserId || !bundleSku) {
       return new Response('Missing metadata for fulfillment', { status: 400, headers: { 'Access-Control-Allow-Origin': '*' } })
     }
@@ -93,15 +94,11 @@ serve(async (req) => {
       didInsertOrder = true
     }
 
-    // Map bundle SKU -> credits
-    let light = 0, medium = 0, heavy = 0
-    if (bundleSku === 'LIGHT') {
-      light = 300
-    } else if (bundleSku === 'MEDIUM') {
-      light = 300; medium = 200
-    } else if (bundleSku === 'HEAVY') {
-      light = 500; medium = 300; heavy = 150
-    }
+    // Credits per tier come from the bundles catalog
+    const bundle = await getBundle(supabaseAdmin, bundleSku)
+    const light = bundle?.light_credits ?? 0
+    const medium = bundle?.medium_credits ?? 0
+    const heavy = bundle?.heavy_credits ?? 0
 
     if (light + medium + heavy === 0) {
       return new Response('Unknown bundle SKU', { status: 400, headers: { 'Access-Control-Allow-Origin': '*' } })
@@ -114,6 +111,9 @@ serve(async (req) => {
         p_light: light,
         p_medium: medium,
         p_heavy: heavy,
+        p_kind: 'purchase',
+        p_reference: session.id,
+        p_note: `${bundleSku} bundle`,
       })
       if (creditErr) {
         console.error('credit_tokens failed:', creditErr)
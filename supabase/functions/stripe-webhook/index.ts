@@ -1,6 +1,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import Stripe from 'https://esm.sh/stripe@14.19.0'
+import { getBundle } from '../_shared/bundles.ts'
 
 const stripe = new Stripe(Deno.env.get('STRIPE_SECRET_KEY') || '', {
   apiVersion: '2023-10-16',
@@ -42,19 +43,13 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
 
     // Credit tokens for one-time bundles
     if (mode === 'payment' && supabaseUserId && bundleSku) {
-      // Map bundle SKU -> credits; prices set in Stripe dashboard
-      let light = 0, medium = 0, heavy = 0
-      if (bundleSku === 'LIGHT') {
-        light = 300
-      } else if (bundleSku === 'MEDIUM') {
-        // Includes light as well
-        light = 300
-        medium = 200
-      } else if (bundleSku === 'HEAVY') {
-        // Includes medium + light
-        light = 500
-        medium = 300
-        heavy = 150
+      // Credits per tier come from the bundles catalog
+      const bundle = await getBundle(supabaseClient, bundleSku)
+      const light = bundle?.light_credits ?? 0
+      const medium = bundle?.medium_credits ?? 0
+      const heavy = bundle?.heavy_credits ?? 0
+      if (!bundle) {
+        console.error('Unknown bundle SKU in checkout session:', bundleSku)
       }
 
       if (light + medium + heavy > 0) {
@@ -63,6 +58,9 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
           p_light: light,
           p_medium: medium,
           p_heavy: heavy,
+          p_kind: 'purchase',
+          p_reference: session.id,
+          p_note: `${bundleSku} bundle`,
         })
         if (creditErr) {
           console.error('Failed to credit tokens:', creditErr)
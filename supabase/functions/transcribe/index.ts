@@ -0,0 +1,137 @@
+/**
+ * Transcribe Edge Function
+ *
+ * Voice input: turns speech into text with Voxtral (see
+ * `_shared/transcription.ts`). Two request shapes:
+ *
+ *   multipart/form-data  file, language?          → { text, language, model }
+ *   { attachmentId, language? }                   → { text, language, model }
+ *
+ * The first is used for microphone recordings, which are transcribed and
+ * discarded. The second transcribes an uploaded audio attachment of the
+ * caller and stores the transcript as `metadata.extracted_text`, so semantic
+ * recall can find it like the text of documents.
+ *
+ * Only signed-in users can call it. Errors use the chat JSON error shape
+ * (`{ error, code }`).
+ */
+
+import { corsHeaders } from '../_shared/cors.ts';
+import { ChatError } from '../_shared/chat-types.ts';
+import { authenticateCaller, createAdminClient } from '../_shared/chat-auth.ts';
+import { isAudioType, transcribeAudio, type Transcription } from '../_shared/transcription.ts';
+import { jsonResponse } from '../_shared/sse.ts';
+
+interface TranscribeRequestBody {
+  attachmentId?: string;
+  language?: string;
+}
+
+function errorResponse(error: unknown): Response {
+  const chatError = error instanceof ChatError
+    ? error
+    : new ChatError('internal_error', error instanceof Error ? error.message : String(error), 500);
+  return jsonResponse({ error: chatError.message, code: chatError.code, ...chatError.details }, chatError.status);
+}
+
+/** ISO 639-1 code such as `en` or `nl`; anything else lets the model detect the language */
+function readLanguage(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || !/^[a-z]{2}$/.test(value)) {
+    throw new ChatError('bad_request', 'language must be a two-letter language code', 400);
+  }
+  return value;
+}
+
+async function transcribeRecording(req: Request): Promise<Transcription> {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    throw new ChatError('bad_request', 'Request body must be valid form data', 400);
+  }
+
+  const file = form.get('file');
+  if (!(file instanceof File)) {
+    throw new ChatError('bad_request', 'file is required', 400);
+  }
+  if (!isAudioType(file.type)) {
+    throw new ChatError('bad_request', `Audio type ${file.type || 'unknown'} is not supported`, 400);
+  }
+  return transcribeAudio(file, file.name || 'recording', readLanguage(form.get('language')));
+}
+
+async function transcribeAttachment(
+  req: Request,
+  supabaseAdmin: ReturnType<typeof createAdminClient>,
+  userId: string,
+): Promise<Transcription> {
+  let body: TranscribeRequestBody;
+  try {
+    body = await req.json();
+  } catch {
+    throw new ChatError('bad_request', 'Request body must be valid JSON', 400);
+  }
+  if (typeof body.attachmentId !== 'string' || !body.attachmentId) {
+    throw new ChatError('bad_request', 'attachmentId is required', 400);
+  }
+
+  const { data: attachment, error } = await supabaseAdmin
+    .from('attachments')
+    .select('id, user_id, filename, file_type, storage_path, metadata')
+    .eq('id', body.attachmentId)
+    .maybeSingle();
+  if (error) throw new ChatError('internal_error', `Failed to load attachment: ${error.message}`, 500);
+  if (!attachment || attachment.user_id !== userId) {
+    throw new ChatError('bad_request', `Attachment ${body.attachmentId} not found`, 400);
+  }
+  if (!isAudioType(attachment.file_type)) {
+    throw new ChatError('bad_request', `Attachment ${body.attachmentId} is not an audio file`, 400);
+  }
+
+  const { data: file, error: downloadError } = await supabaseAdmin.storage
+    .from('attachments')
+    .download(attachment.storage_path);
+  if (downloadError || !file) {
+    throw new ChatError('internal_error', `Could not read ${attachment.filename}: ${downloadError?.message ?? 'not found'}`, 500);
+  }
+
+  const transcription = await transcribeAudio(file, attachment.filename, readLanguage(body.language));
+  const metadata = {
+    ...(attachment.metadata ?? {}),
+    extracted_text: transcription.text,
+    transcription: { model: transcription.model, language: transcription.language, updated_at: new Date().toISOString() },
+  };
+  const { error: updateError } = await supabaseAdmin.from('attachments').update({ metadata }).eq('id', attachment.id);
+  if (updateError) console.warn('⚠️ Could not store transcript:', updateError.message);
+
+  return transcription;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return errorResponse(new ChatError('bad_request', 'Method not allowed', 405));
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient();
+    const caller = await authenticateCaller(req, supabaseAdmin);
+    if (!caller.user) {
+      throw new ChatError('unauthorized', 'Sign in to use voice input', 401);
+    }
+
+    const isForm = (req.headers.get('content-type') ?? '').includes('multipart/form-data');
+    const transcription = isForm
+      ? await transcribeRecording(req)
+      : await transcribeAttachment(req, supabaseAdmin, caller.user.id);
+
+    console.log(`🎙️ Transcribed ${transcription.text.length} chars (${transcription.language ?? 'auto'})`);
+    return jsonResponse(transcription);
+  } catch (error) {
+    console.error('❌ Transcription failed:', error);
+    return errorResponse(error);
+  }
+});
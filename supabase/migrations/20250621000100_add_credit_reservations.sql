@@ -0,0 +1,101 @@
+-- Server-side credit enforcement for chat.
+-- The chat Edge Functions reserve one credit before calling a provider and
+-- settle or refund the reservation once the response has finished. Clients
+-- can no longer debit or credit balances themselves.
+
+create table if not exists public.credit_reservations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  desired_tier text not null check (desired_tier in ('light', 'medium', 'heavy')),
+  tier text not null check (tier in ('light', 'medium', 'heavy')),
+  model text,
+  conversation_id text,
+  status text not null default 'reserved' check (status in ('reserved', 'settled', 'refunded')),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+create index if not exists idx_credit_reservations_user_created
+  on public.credit_reservations (user_id, created_at desc);
+
+alter table public.credit_reservations enable row level security;
+
+do $$ begin
+  create policy "Users can view own credit reservations" on public.credit_reservations
+    for select using (auth.uid() = user_id);
+exception when others then null; end $$;
+
+-- Reserve one credit (with tier fallback) for a chat request.
+-- Returns no row when the user has no credits left in any eligible tier.
+create or replace function public.reserve_credit(p_user_id uuid,
+                                                 p_desired_tier text,
+                                                 p_model text default null,
+                                                 p_conversation_id text default null)
+returns table (reservation_id uuid, reserved_tier text) as $$
+declare
+  v_tier text;
+  v_id uuid;
+begin
+  v_tier := public.debit_token_with_fallback(p_user_id, p_desired_tier);
+  if v_tier is null then
+    return;
+  end if;
+
+  insert into public.credit_reservations (user_id, desired_tier, tier, model, conversation_id)
+  values (p_user_id, p_desired_tier, v_tier, p_model, p_conversation_id)
+  returning id into v_id;
+
+  return query select v_id, v_tier;
+end;
+$$ language plpgsql security definer;
+
+-- Mark a reservation as consumed. Returns false if it was already resolved.
+create or replace function public.settle_credit_reservation(p_reservation_id uuid)
+returns boolean as $$
+declare
+  ok boolean := false;
+begin
+  update public.credit_reservations
+    set status = 'settled', resolved_at = now()
+    where id = p_reservation_id and status = 'reserved'
+    returning true into ok;
+  return coalesce(ok, false);
+end;
+$$ language plpgsql security definer;
+
+-- Return a reserved credit to the tier it was taken from.
+-- Returns false if the reservation was already resolved.
+create or replace function public.refund_credit_reservation(p_reservation_id uuid)
+returns boolean as $$
+declare
+  v_user_id uuid;
+  v_tier text;
+begin
+  update public.credit_reservations
+    set status = 'refunded', resolved_at = now()
+    where id = p_reservation_id and status = 'reserved'
+    returning user_id, tier into v_user_id, v_tier;
+
+  if v_user_id is null then
+    return false;
+  end if;
+
+  perform public.credit_tokens(
+    v_user_id,
+    case when v_tier = 'light' then 1 else 0 end,
+    case when v_tier = 'medium' then 1 else 0 end,
+    case when v_tier = 'heavy' then 1 else 0 end
+  );
+  return true;
+end;
+$$ language plpgsql security definer;
+
+-- Balances are only changed by the service role (Edge Functions, Stripe)
+drop policy if exists "Users can update own token balances" on public.user_token_balances;
+
+revoke all on function public.credit_tokens(uuid, integer, integer, integer) from public, anon, authenticated;
+revoke all on function public.debit_token_if_available(uuid, text) from public, anon, authenticated;
+revoke all on function public.debit_token_with_fallback(uuid, text) from public, anon, authenticated;
+revoke all on function public.reserve_credit(uuid, text, text, text) from public, anon, authenticated;
+revoke all on function public.settle_credit_reservation(uuid) from public, anon, authenticated;
+revoke all on function public.refund_credit_reservation(uuid) from public, anon, authenticated;
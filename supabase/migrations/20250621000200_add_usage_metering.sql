@@ -0,0 +1,73 @@
+-- Usage metering for chat credits.
+-- Reservations now record the provider's token counts and estimated cost, and
+-- settlement can charge more than the one reserved credit when usage-based
+-- metering is enabled in the Edge Functions.
+
+alter table public.credit_reservations
+  add column if not exists prompt_tokens integer,
+  add column if not exists completion_tokens integer,
+  add column if not exists cost_usd numeric(12, 6),
+  add column if not exists credits integer not null default 1;
+
+drop function if exists public.settle_credit_reservation(uuid);
+
+-- Settle a reservation with its measured usage. `p_credits` is the total
+-- charge; anything above the reserved credit is debited from the same tier,
+-- capped at the remaining balance. Returns the credits actually charged, or
+-- null if the reservation was already resolved.
+create or replace function public.settle_credit_reservation(p_reservation_id uuid,
+                                                            p_prompt_tokens integer default null,
+                                                            p_completion_tokens integer default null,
+                                                            p_cost_usd numeric default null,
+                                                            p_credits integer default 1)
+returns integer as $$
+declare
+  v_user_id uuid;
+  v_tier text;
+  v_extra integer := greatest(coalesce(p_credits, 1) - 1, 0);
+  v_taken integer := 0;
+begin
+  select user_id, tier into v_user_id, v_tier
+    from public.credit_reservations
+    where id = p_reservation_id and status = 'reserved'
+    for update;
+
+  if v_user_id is null then
+    return null;
+  end if;
+
+  if v_extra > 0 then
+    select case v_tier
+             when 'light' then light_credits
+             when 'medium' then medium_credits
+             when 'heavy' then heavy_credits
+           end
+      into v_taken
+      from public.user_token_balances
+      where user_id = v_user_id
+      for update;
+
+    v_taken := least(coalesce(v_taken, 0), v_extra);
+
+    update public.user_token_balances
+      set light_credits = light_credits - case when v_tier = 'light' then v_taken else 0 end,
+          medium_credits = medium_credits - case when v_tier = 'medium' then v_taken else 0 end,
+          heavy_credits = heavy_credits - case when v_tier = 'heavy' then v_taken else 0 end,
+          updated_at = now()
+      where user_id = v_user_id;
+  end if;
+
+  update public.credit_reservations
+    set status = 'settled',
+        resolved_at = now(),
+        prompt_tokens = p_prompt_tokens,
+        completion_tokens = p_completion_tokens,
+        cost_usd = p_cost_usd,
+        credits = 1 + v_taken
+    where id = p_reservation_id;
+
+  return 1 + v_taken;
+end;
+$$ language plpgsql security definer;
+
+revoke all on function public.settle_credit_reservation(uuid, integer, integer, numeric, integer) from public, anon, authenticated;
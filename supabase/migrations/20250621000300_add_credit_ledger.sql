@@ -0,0 +1,353 @@
+-- Append-only credit ledger.
+-- Every change to user_token_balances now also writes a credit_transactions
+-- row (signed amount per tier), so balances can be audited and rebuilt.
+-- credit_balances derives the per-tier totals from the ledger.
+
+create table if not exists public.credit_transactions (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  kind text not null check (kind in ('purchase', 'debit', 'fallback_debit', 'refund', 'adjustment', 'expiry')),
+  tier text not null check (tier in ('light', 'medium', 'heavy')),
+  -- Positive when credits are added, negative when they are taken
+  amount integer not null check (amount <> 0),
+  -- Tier the user asked for when a fallback debit took a higher tier
+  desired_tier text check (desired_tier in ('light', 'medium', 'heavy')),
+  model text,
+  conversation_id text,
+  reservation_id uuid,
+  -- External reference, e.g. the Stripe checkout session id
+  reference text,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_credit_transactions_user_created
+  on public.credit_transactions (user_id, created_at desc);
+
+alter table public.credit_transactions enable row level security;
+
+do $$ begin
+  create policy "Users can view own credit transactions" on public.credit_transactions
+    for select using (auth.uid() = user_id);
+exception when others then null; end $$;
+
+-- Rows are never changed once written
+create or replace function public.prevent_credit_transaction_changes()
+returns trigger as $$
+begin
+  raise exception 'credit_transactions is append-only';
+end;
+$$ language plpgsql;
+
+drop trigger if exists credit_transactions_append_only on public.credit_transactions;
+create trigger credit_transactions_append_only
+  before update or delete on public.credit_transactions
+  for each row execute function public.prevent_credit_transaction_changes();
+
+-- Opening balances for users who already hold credits
+insert into public.credit_transactions (user_id, kind, tier, amount, note)
+select user_id, 'adjustment', t.tier, t.amount, 'Opening balance'
+from public.user_token_balances b
+cross join lateral (values
+  ('light', b.light_credits),
+  ('medium', b.medium_credits),
+  ('heavy', b.heavy_credits)
+) as t(tier, amount)
+where t.amount <> 0
+  and not exists (select 1 from public.credit_transactions);
+
+create or replace view public.credit_balances
+with (security_invoker = true) as
+select
+  user_id,
+  coalesce(sum(amount) filter (where tier = 'light'), 0)::integer as light_credits,
+  coalesce(sum(amount) filter (where tier = 'medium'), 0)::integer as medium_credits,
+  coalesce(sum(amount) filter (where tier = 'heavy'), 0)::integer as heavy_credits,
+  max(created_at) as updated_at
+from public.credit_transactions
+group by user_id;
+
+-- Credit tokens (purchases, refunds). One ledger row per non-zero tier.
+drop function if exists public.credit_tokens(uuid, integer, integer, integer);
+
+create or replace function public.credit_tokens(p_user_id uuid,
+                                               p_light integer,
+                                               p_medium integer,
+                                               p_heavy integer,
+                                               p_kind text default 'purchase',
+                                               p_reference text default null,
+                                               p_reservation_id uuid default null,
+                                               p_note text default null)
+returns void as $$
+begin
+  insert into public.user_token_balances (user_id, light_credits, medium_credits, heavy_credits)
+  values (p_user_id, greatest(p_light,0), greatest(p_medium,0), greatest(p_heavy,0))
+  on conflict (user_id) do update set
+    light_credits = public.user_token_balances.light_credits + greatest(p_light,0),
+    medium_credits = public.user_token_balances.medium_credits + greatest(p_medium,0),
+    heavy_credits = public.user_token_balances.heavy_credits + greatest(p_heavy,0),
+    updated_at = now();
+
+  insert into public.credit_transactions (user_id, kind, tier, amount, reservation_id, reference, note)
+  select p_user_id, p_kind, t.tier, t.amount, p_reservation_id, p_reference, p_note
+  from (values ('light', greatest(p_light,0)),
+               ('medium', greatest(p_medium,0)),
+               ('heavy', greatest(p_heavy,0))) as t(tier, amount)
+  where t.amount > 0;
+end;
+$$ language plpgsql security definer;
+
+-- Single-tier debit without fallback
+create or replace function public.debit_token_if_available(p_user_id uuid, p_tier text)
+returns boolean as $$
+declare
+  ok boolean := false;
+begin
+  if p_tier = 'light' then
+    update public.user_token_balances
+      set light_credits = light_credits - 1, updated_at = now()
+      where user_id = p_user_id and light_credits > 0
+      returning true into ok;
+  elsif p_tier = 'medium' then
+    update public.user_token_balances
+      set medium_credits = medium_credits - 1, updated_at = now()
+      where user_id = p_user_id and medium_credits > 0
+      returning true into ok;
+  elsif p_tier = 'heavy' then
+    update public.user_token_balances
+      set heavy_credits = heavy_credits - 1, updated_at = now()
+      where user_id = p_user_id and heavy_credits > 0
+      returning true into ok;
+  else
+    return false;
+  end if;
+
+  if coalesce(ok, false) then
+    insert into public.credit_transactions (user_id, kind, tier, amount)
+    values (p_user_id, 'debit', p_tier, -1);
+  end if;
+  return coalesce(ok, false);
+end;
+$$ language plpgsql security definer;
+
+-- Debit with fallback; logs 'fallback_debit' when a higher tier was used
+drop function if exists public.debit_token_with_fallback(uuid, text);
+
+create or replace function public.debit_token_with_fallback(p_user_id uuid,
+                                                            p_desired_tier text,
+                                                            p_model text default null,
+                                                            p_conversation_id text default null,
+                                                            p_reservation_id uuid default null)
+returns text as $$
+declare
+  v_candidates text[];
+  v_tier text;
+  debited boolean;
+begin
+  v_candidates := case p_desired_tier
+    when 'light' then array['light', 'medium', 'heavy']
+    when 'medium' then array['medium', 'heavy']
+    when 'heavy' then array['heavy']
+    else array[]::text[]
+  end;
+
+  foreach v_tier in array v_candidates loop
+    debited := false;
+    update public.user_token_balances
+      set light_credits = light_credits - case when v_tier = 'light' then 1 else 0 end,
+          medium_credits = medium_credits - case when v_tier = 'medium' then 1 else 0 end,
+          heavy_credits = heavy_credits - case when v_tier = 'heavy' then 1 else 0 end,
+          updated_at = now()
+      where user_id = p_user_id
+        and case v_tier
+              when 'light' then light_credits
+              when 'medium' then medium_credits
+              else heavy_credits
+            end > 0
+      returning true into debited;
+
+    if debited then
+      insert into public.credit_transactions
+        (user_id, kind, tier, amount, desired_tier, model, conversation_id, reservation_id)
+      values
+        (p_user_id,
+         case when v_tier = p_desired_tier then 'debit' else 'fallback_debit' end,
+         v_tier, -1, p_desired_tier, p_model, p_conversation_id, p_reservation_id);
+      return v_tier;
+    end if;
+  end loop;
+
+  return null;
+end;
+$$ language plpgsql security definer;
+
+-- Reservations log their debit with model, conversation and reservation id
+create or replace function public.reserve_credit(p_user_id uuid,
+                                                 p_desired_tier text,
+                                                 p_model text default null,
+                                                 p_conversation_id text default null)
+returns table (reservation_id uuid, reserved_tier text) as $$
+declare
+  v_tier text;
+  v_id uuid := gen_random_uuid();
+begin
+  v_tier := public.debit_token_with_fallback(p_user_id, p_desired_tier, p_model, p_conversation_id, v_id);
+  if v_tier is null then
+    return;
+  end if;
+
+  insert into public.credit_reservations (id, user_id, desired_tier, tier, model, conversation_id)
+  values (v_id, p_user_id, p_desired_tier, v_tier, p_model, p_conversation_id);
+
+  return query select v_id, v_tier;
+end;
+$$ language plpgsql security definer;
+
+create or replace function public.settle_credit_reservation(p_reservation_id uuid,
+                                                            p_prompt_tokens integer default null,
+                                                            p_completion_tokens integer default null,
+                                                            p_cost_usd numeric default null,
+                                                            p_credits integer default 1)
+returns integer as $$
+declare
+  v_reservation public.credit_reservations%rowtype;
+  v_extra integer := greatest(coalesce(p_credits, 1) - 1, 0);
+  v_taken integer := 0;
+begin
+  select * into v_reservation
+    from public.credit_reservations
+    where id = p_reservation_id and status = 'reserved'
+    for update;
+
+  if v_reservation.id is null then
+    return null;
+  end if;
+
+  if v_extra > 0 then
+    select case v_reservation.tier
+             when 'light' then light_credits
+             when 'medium' then medium_credits
+             when 'heavy' then heavy_credits
+           end
+      into v_taken
+      from public.user_token_balances
+      where user_id = v_reservation.user_id
+      for update;
+
+    v_taken := least(coalesce(v_taken, 0), v_extra);
+
+    if v_taken > 0 then
+      update public.user_token_balances
+        set light_credits = light_credits - case when v_reservation.tier = 'light' then v_taken else 0 end,
+            medium_credits = medium_credits - case when v_reservation.tier = 'medium' then v_taken else 0 end,
+            heavy_credits = heavy_credits - case when v_reservation.tier = 'heavy' then v_taken else 0 end,
+            updated_at = now()
+        where user_id = v_reservation.user_id;
+
+      insert into public.credit_transactions
+        (user_id, kind, tier, amount, model, conversation_id, reservation_id, note)
+      values
+        (v_reservation.user_id, 'debit', v_reservation.tier, -v_taken, v_reservation.model,
+         v_reservation.conversation_id, v_reservation.id, 'Usage metering');
+    end if;
+  end if;
+
+  update public.credit_reservations
+    set status = 'settled',
+        resolved_at = now(),
+        prompt_tokens = p_prompt_tokens,
+        completion_tokens = p_completion_tokens,
+        cost_usd = p_cost_usd,
+        credits = 1 + v_taken
+    where id = p_reservation_id;
+
+  return 1 + v_taken;
+end;
+$$ language plpgsql security definer;
+
+create or replace function public.refund_credit_reservation(p_reservation_id uuid)
+returns boolean as $$
+declare
+  v_user_id uuid;
+  v_tier text;
+begin
+  update public.credit_reservations
+    set status = 'refunded', resolved_at = now()
+    where id = p_reservation_id and status = 'reserved'
+    returning user_id, tier into v_user_id, v_tier;
+
+  if v_user_id is null then
+    return false;
+  end if;
+
+  perform public.credit_tokens(
+    v_user_id,
+    case when v_tier = 'light' then 1 else 0 end,
+    case when v_tier = 'medium' then 1 else 0 end,
+    case when v_tier = 'heavy' then 1 else 0 end,
+    'refund',
+    null,
+    p_reservation_id
+  );
+  return true;
+end;
+$$ language plpgsql security definer;
+
+-- Manual corrections by support ('adjustment') or expired credits ('expiry').
+-- Negative amounts never take a balance below zero.
+create or replace function public.adjust_credits(p_user_id uuid,
+                                                 p_tier text,
+                                                 p_amount integer,
+                                                 p_kind text default 'adjustment',
+                                                 p_note text default null)
+returns integer as $$
+declare
+  v_current integer;
+  v_applied integer;
+begin
+  if p_kind not in ('adjustment', 'expiry') then
+    raise exception 'adjust_credits only records adjustment or expiry, got %', p_kind;
+  end if;
+  if p_tier not in ('light', 'medium', 'heavy') then
+    raise exception 'Unknown credit tier %', p_tier;
+  end if;
+
+  insert into public.user_token_balances (user_id) values (p_user_id)
+    on conflict (user_id) do nothing;
+
+  select case p_tier
+           when 'light' then light_credits
+           when 'medium' then medium_credits
+           else heavy_credits
+         end
+    into v_current
+    from public.user_token_balances
+    where user_id = p_user_id
+    for update;
+
+  v_applied := greatest(p_amount, -v_current);
+  if v_applied = 0 then
+    return 0;
+  end if;
+
+  update public.user_token_balances
+    set light_credits = light_credits + case when p_tier = 'light' then v_applied else 0 end,
+        medium_credits = medium_credits + case when p_tier = 'medium' then v_applied else 0 end,
+        heavy_credits = heavy_credits + case when p_tier = 'heavy' then v_applied else 0 end,
+        updated_at = now()
+    where user_id = p_user_id;
+
+  insert into public.credit_transactions (user_id, kind, tier, amount, note)
+  values (p_user_id, p_kind, p_tier, v_applied, p_note);
+
+  return v_applied;
+end;
+$$ language plpgsql security definer;
+
+revoke all on function public.credit_tokens(uuid, integer, integer, integer, text, text, uuid, text) from public, anon, authenticated;
+revoke all on function public.debit_token_if_available(uuid, text) from public, anon, authenticated;
+revoke all on function public.debit_token_with_fallback(uuid, text, text, text, uuid) from public, anon, authenticated;
+revoke all on function public.reserve_credit(uuid, text, text, text) from public, anon, authenticated;
+revoke all on function public.settle_credit_reservation(uuid, integer, integer, numeric, integer) from public, anon, authenticated;
+revoke all on function public.refund_credit_reservation(uuid) from public, anon, authenticated;
+revoke all on function public.adjust_credits(uuid, text, integer, text, text) from public, anon, authenticated;
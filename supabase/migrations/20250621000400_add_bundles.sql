@@ -0,0 +1,40 @@
+-- Credit bundle catalog.
+-- One-time bundles used to be hard-coded in the Stripe functions and the
+-- client; this table is now the single source for SKU, Stripe price,
+-- per-tier credits and display copy. Adding or retiring a bundle is a data
+-- change: insert a row, or set active = false.
+
+create table if not exists public.bundles (
+  sku text primary key,
+  name text not null,
+  description text,
+  -- Display price, e.g. '€4.99'; the charged amount comes from Stripe
+  price_label text,
+  -- Stripe Price for checkout; bundles without one cannot be purchased yet
+  stripe_price_id text,
+  light_credits integer not null default 0 check (light_credits >= 0),
+  medium_credits integer not null default 0 check (medium_credits >= 0),
+  heavy_credits integer not null default 0 check (heavy_credits >= 0),
+  features text[] not null default '{}',
+  active boolean not null default true,
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint bundles_has_credits check (light_credits + medium_credits + heavy_credits > 0)
+);
+
+alter table public.bundles enable row level security;
+
+-- Anyone may browse the active catalog; only the service role edits it
+do $$ begin
+  create policy "Anyone can view active bundles" on public.bundles
+    for select using (active);
+exception when others then null; end $$;
+
+-- Credit amounts previously hard-coded in stripe-webhook / stripe-fulfill-bundle
+insert into public.bundles (sku, name, description, light_credits, medium_credits, heavy_credits, sort_order)
+values
+  ('LIGHT', 'Light Pack', 'Everyday chat with fast, affordable models', 300, 0, 0, 10),
+  ('MEDIUM', 'Medium Pack', 'Adds Medium-tier models for harder questions', 300, 200, 0, 20),
+  ('HEAVY', 'Heavy Pack', 'Includes Heavy-tier reasoning and flagship models', 500, 300, 150, 30)
+on conflict (sku) do nothing;
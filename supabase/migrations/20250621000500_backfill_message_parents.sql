@@ -0,0 +1,25 @@
+-- Conversation branching.
+-- Messages now form a tree through parent_message_id: regenerating an answer
+-- or editing a prompt inserts a sibling, and the client follows one path from
+-- root to leaf. Conversations saved before this had no parent links and were
+-- read in chronological order; link each of their messages to the one saved
+-- before it so new replies can attach to the existing thread.
+
+with linear_conversations as (
+  select conversation_id
+  from public.messages
+  group by conversation_id
+  having count(parent_message_id) = 0
+),
+ordered as (
+  select
+    m.id,
+    lag(m.id) over (partition by m.conversation_id order by m.created_at, m.id) as previous_id
+  from public.messages m
+  join linear_conversations lc on lc.conversation_id = m.conversation_id
+)
+update public.messages m
+set parent_message_id = o.previous_id
+from ordered o
+where m.id = o.id
+  and o.previous_id is not null;
@@ -0,0 +1,13 @@
+-- Conversation metadata.
+-- Free-form JSON on conversations, starting with fork lineage: a conversation
+-- forked from a message of another one records
+--   {"forked_from": {"conversation_id": ..., "message_id": ..., "title": ...}}
+-- The source title is copied so the lineage still reads well after the
+-- source conversation is renamed or deleted.
+
+alter table public.conversations
+  add column if not exists metadata jsonb;
+
+create index if not exists conversations_forked_from_idx
+  on public.conversations ((metadata -> 'forked_from' ->> 'conversation_id'))
+  where metadata ? 'forked_from';
@@ -0,0 +1,57 @@
+-- Full-text search over message content.
+-- messages.content_tsv is kept up to date by Postgres and indexed with GIN.
+-- The 'simple' configuration (no stemming or stop words) is used because
+-- conversations mix Dutch, English and code.
+-- search_messages ranks matches across all of the caller's conversations and
+-- returns a snippet with the matched terms wrapped in <mark></mark>.
+
+alter table public.messages
+  add column if not exists content_tsv tsvector
+  generated always as (to_tsvector('simple', coalesce(content, ''))) stored;
+
+create index if not exists messages_content_tsv_idx
+  on public.messages using gin (content_tsv);
+
+create or replace function public.search_messages(p_query text,
+                                                  p_models text[] default null,
+                                                  p_from timestamptz default null,
+                                                  p_to timestamptz default null,
+                                                  p_role text default null,
+                                                  p_limit integer default 50)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  role text,
+  model text,
+  created_at timestamptz,
+  rank real,
+  snippet text
+) as $$
+  with q as (
+    select websearch_to_tsquery('simple', p_query) as query
+  )
+  select
+    m.id,
+    m.conversation_id,
+    c.title,
+    case when m.type = 'user' then 'user' else 'assistant' end,
+    m.model,
+    m.created_at,
+    ts_rank_cd(m.content_tsv, q.query),
+    ts_headline('simple', m.content, q.query,
+                'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "')
+  from q
+  join public.messages m on m.content_tsv @@ q.query
+  join public.conversations c on c.id = m.conversation_id
+  where c.user_id = auth.uid()
+    and (p_models is null or m.model = any(p_models))
+    and (p_from is null or m.created_at >= p_from)
+    and (p_to is null or m.created_at < p_to)
+    -- Older rows may still carry role 'ai', so the role is derived from type
+    and (p_role is null or p_role = case when m.type = 'user' then 'user' else 'assistant' end)
+  order by 7 desc, m.created_at desc
+  limit least(greatest(coalesce(p_limit, 50), 1), 200);
+$$ language sql stable security invoker;
+
+grant execute on function public.search_messages(text, text[], timestamptz, timestamptz, text, integer) to authenticated;
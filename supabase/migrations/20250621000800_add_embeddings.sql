@@ -0,0 +1,180 @@
+-- Semantic recall.
+-- The embeddings function stores one vector per message or attachment and
+-- embedding model. content_hash (md5 of the source text) tells it which rows
+-- are stale after an edit. Lookups are only ever made by the service role
+-- on behalf of the signed-in caller, so the RPCs take an explicit user id
+-- and are not callable by clients.
+
+create extension if not exists vector with schema extensions;
+
+create table if not exists public.embeddings (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- Null for attachments that are not referenced by any message yet
+  conversation_id uuid references public.conversations(id) on delete cascade,
+  source_type text not null check (source_type in ('message', 'attachment')),
+  source_id uuid not null,
+  model text not null,
+  content_hash text not null,
+  embedding extensions.vector(1024) not null,
+  created_at timestamptz not null default now(),
+  unique (source_type, source_id, model)
+);
+
+create index if not exists embeddings_user_model_idx
+  on public.embeddings (user_id, model);
+create index if not exists embeddings_conversation_idx
+  on public.embeddings (conversation_id);
+create index if not exists embeddings_vector_idx
+  on public.embeddings using hnsw (embedding extensions.vector_cosine_ops);
+
+alter table public.embeddings enable row level security;
+
+do $$ begin
+  create policy "Users can view own embeddings" on public.embeddings
+    for select using (auth.uid() = user_id);
+exception when others then null; end $$;
+
+-- Sources without an up-to-date vector for p_model, newest first.
+-- Attachments are embedded from metadata.extracted_text when present;
+-- otherwise the function reads text files from storage or falls back to
+-- the file name.
+create or replace function public.pending_embedding_sources(p_user_id uuid,
+                                                            p_model text,
+                                                            p_limit integer default 64)
+returns table (
+  source_type text,
+  source_id uuid,
+  conversation_id uuid,
+  content text,
+  content_hash text,
+  file_type text,
+  storage_path text,
+  filename text
+) as $$
+  select s.source_type, s.source_id, s.conversation_id, s.content, s.content_hash, s.file_type, s.storage_path, s.filename
+  from (
+    select 'message'::text as source_type, m.id as source_id, m.conversation_id, m.content,
+           md5(m.content) as content_hash, null::text as file_type, null::text as storage_path,
+           null::text as filename, m.created_at
+    from public.messages m
+    join public.conversations c on c.id = m.conversation_id
+    where c.user_id = p_user_id
+      and length(btrim(m.content)) > 0
+    union all
+    select 'attachment', a.id,
+           (select m.conversation_id from public.messages m where a.id::text = any(m.attachments) limit 1),
+           a.metadata ->> 'extracted_text',
+           md5(coalesce(a.metadata ->> 'extracted_text', '') || a.storage_path),
+           a.file_type, a.storage_path, a.filename, a.created_at
+    from public.attachments a
+    where a.user_id = p_user_id
+  ) s
+  where not exists (
+    select 1 from public.embeddings e
+    where e.source_type = s.source_type
+      and e.source_id = s.source_id
+      and e.model = p_model
+      and e.content_hash = s.content_hash
+  )
+  order by s.created_at desc
+  limit least(greatest(coalesce(p_limit, 64), 1), 500);
+$$ language sql stable security definer set search_path = public, extensions;
+
+create or replace function public.count_pending_embeddings(p_user_id uuid, p_model text)
+returns integer as $$
+  select count(*)::integer from public.pending_embedding_sources(p_user_id, p_model, 500);
+$$ language sql stable security definer set search_path = public, extensions;
+
+-- Messages closest in meaning to p_query. A matching attachment counts as a
+-- hit on the message it was sent with. Filters mirror search_messages.
+create or replace function public.match_messages(p_user_id uuid,
+                                                 p_query extensions.vector(1024),
+                                                 p_model text,
+                                                 p_models text[] default null,
+                                                 p_from timestamptz default null,
+                                                 p_to timestamptz default null,
+                                                 p_role text default null,
+                                                 p_limit integer default 20)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  conversation_title text,
+  role text,
+  model text,
+  created_at timestamptz,
+  similarity real,
+  snippet text
+) as $$
+  with nearest as (
+    select e.source_type, e.source_id, 1 - (e.embedding <=> p_query) as similarity
+    from public.embeddings e
+    where e.user_id = p_user_id and e.model = p_model
+    order by e.embedding <=> p_query
+    -- Over-fetch so filters and de-duplication still leave enough rows
+    limit least(greatest(coalesce(p_limit, 20), 1), 100) * 4
+  ),
+  hits as (
+    select distinct on (m.id) m.id, m.conversation_id, m.type, m.model, m.created_at, m.content, n.similarity
+    from nearest n
+    join public.messages m
+      on (n.source_type = 'message' and m.id = n.source_id)
+      or (n.source_type = 'attachment' and n.source_id::text = any(m.attachments))
+    order by m.id, n.similarity desc
+  )
+  select
+    h.id,
+    h.conversation_id,
+    c.title,
+    case when h.type = 'user' then 'user' else 'assistant' end,
+    h.model,
+    h.created_at,
+    h.similarity::real,
+    left(regexp_replace(h.content, '\s+', ' ', 'g'), 240)
+  from hits h
+  join public.conversations c on c.id = h.conversation_id
+  where c.user_id = p_user_id
+    and (p_models is null or h.model = any(p_models))
+    and (p_from is null or h.created_at >= p_from)
+    and (p_to is null or h.created_at < p_to)
+    and (p_role is null or p_role = case when h.type = 'user' then 'user' else 'assistant' end)
+  order by h.similarity desc
+  limit least(greatest(coalesce(p_limit, 20), 1), 100);
+$$ language sql stable security definer set search_path = public, extensions;
+
+-- Conversations whose average vector is closest to that of p_conversation_id
+create or replace function public.similar_conversations(p_user_id uuid,
+                                                        p_conversation_id uuid,
+                                                        p_model text,
+                                                        p_limit integer default 10)
+returns table (
+  conversation_id uuid,
+  title text,
+  updated_at timestamptz,
+  similarity real
+) as $$
+  with centroids as (
+    select e.conversation_id, avg(e.embedding) as centroid
+    from public.embeddings e
+    where e.user_id = p_user_id
+      and e.model = p_model
+      and e.conversation_id is not null
+    group by e.conversation_id
+  ),
+  origin as (
+    select centroid from centroids where conversation_id = p_conversation_id
+  )
+  select c.id, c.title, c.updated_at, (1 - (ct.centroid <=> s.centroid))::real
+  from centroids ct
+  cross join origin s
+  join public.conversations c on c.id = ct.conversation_id
+  where ct.conversation_id <> p_conversation_id
+    and c.user_id = p_user_id
+  order by ct.centroid <=> s.centroid
+  limit least(greatest(coalesce(p_limit, 10), 1), 50);
+$$ language sql stable security definer set search_path = public, extensions;
+
+revoke execute on function public.pending_embedding_sources(uuid, text, integer) from public, anon, authenticated;
+revoke execute on function public.count_pending_embeddings(uuid, text) from public, anon, authenticated;
+revoke execute on function public.match_messages(uuid, extensions.vector, text, text[], timestamptz, timestamptz, text, integer) from public, anon, authenticated;
+revoke execute on function public.similar_conversations(uuid, uuid, text, integer) from public, anon, authenticated;
@@ -0,0 +1,48 @@
+-- Personas.
+-- A persona bundles a system prompt with a default model and temperature.
+-- Users create their own and may share them (is_public), which makes them
+-- selectable by everyone. A conversation uses at most one persona; without
+-- one the chat function falls back to its default system prompt.
+
+create table if not exists public.personas (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (length(btrim(name)) between 1 and 60),
+  -- Emoji shown next to the name
+  icon text not null default '🤖',
+  system_prompt text not null check (length(system_prompt) <= 8000),
+  -- Registry model code; null keeps whatever model the user has selected
+  default_model text,
+  temperature numeric(3, 2) check (temperature between 0 and 2),
+  is_public boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists personas_user_id_idx on public.personas (user_id);
+create index if not exists personas_public_idx on public.personas (is_public) where is_public;
+
+alter table public.personas enable row level security;
+
+do $$ begin
+  create policy "Users can view own and shared personas" on public.personas
+    for select using (auth.uid() = user_id or is_public);
+exception when others then null; end $$;
+
+do $$ begin
+  create policy "Users can create own personas" on public.personas
+    for insert with check (auth.uid() = user_id);
+exception when others then null; end $$;
+
+do $$ begin
+  create policy "Users can update own personas" on public.personas
+    for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+exception when others then null; end $$;
+
+do $$ begin
+  create policy "Users can delete own personas" on public.personas
+    for delete using (auth.uid() = user_id);
+exception when others then null; end $$;
+
+alter table public.conversations
+  add column if not exists persona_id uuid references public.personas(id) on delete set null;
@@ -0,0 +1,59 @@
+-- Document understanding.
+-- The documents function extracts the text of PDF, Markdown, text and JSON
+-- attachments, splits it into overlapping chunks and stores one vector per
+-- chunk and embedding model. The chat function retrieves the chunks closest
+-- to the question and cites them by file and page. Extraction progress is
+-- kept on the attachment (metadata.extraction), next to the extracted text
+-- the semantic recall index already reads (metadata.extracted_text).
+
+create table if not exists public.document_chunks (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  attachment_id uuid not null references public.attachments(id) on delete cascade,
+  chunk_index integer not null,
+  -- 1-based PDF page; null for plain text files
+  page integer,
+  content text not null,
+  model text not null,
+  embedding extensions.vector(1024) not null,
+  created_at timestamptz not null default now(),
+  unique (attachment_id, model, chunk_index)
+);
+
+create index if not exists document_chunks_user_model_idx
+  on public.document_chunks (user_id, model);
+create index if not exists document_chunks_attachment_idx
+  on public.document_chunks (attachment_id, model);
+
+alter table public.document_chunks enable row level security;
+
+do $$ begin
+  create policy "Users can view own document chunks" on public.document_chunks
+    for select using (auth.uid() = user_id);
+exception when others then null; end $$;
+
+-- Chunks of the given attachments closest in meaning to p_query. Only a
+-- handful of documents are searched at a time, so an exact scan over their
+-- chunks is cheap and needs no vector index.
+create or replace function public.match_document_chunks(p_user_id uuid,
+                                                        p_attachment_ids uuid[],
+                                                        p_query extensions.vector(1024),
+                                                        p_model text,
+                                                        p_limit integer default 8)
+returns table (
+  attachment_id uuid,
+  chunk_index integer,
+  page integer,
+  content text,
+  similarity real
+) as $$
+  select d.attachment_id, d.chunk_index, d.page, d.content, (1 - (d.embedding <=> p_query))::real
+  from public.document_chunks d
+  where d.user_id = p_user_id
+    and d.model = p_model
+    and d.attachment_id = any(p_attachment_ids)
+  order by d.embedding <=> p_query
+  limit least(greatest(coalesce(p_limit, 8), 1), 50);
+$$ language sql stable security definer set search_path = public, extensions;
+
+revoke execute on function public.match_document_chunks(uuid, uuid[], extensions.vector, text, integer) from public, anon, authenticated;
@@ -0,0 +1,48 @@
+-- User-defined HTTP tools.
+-- Tool-calling models can call these next to the built-in tools (see
+-- supabase/functions/_shared/tools.ts). A tool is an https endpoint with a
+-- JSON schema for its arguments: GET requests receive them as query
+-- parameters, POST requests as a JSON body. Headers are sent as they are,
+-- e.g. for an API key. Names share the namespace of the built-in tools,
+-- which win on a clash.
+
+create table if not exists public.user_tools (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- Function name shown to the model
+  name text not null check (name ~ '^[a-z][a-z0-9_]{0,39}$'),
+  description text not null check (length(btrim(description)) between 1 and 1000),
+  -- JSON schema of the arguments object
+  parameters jsonb not null default '{"type": "object", "properties": {}}'::jsonb,
+  url text not null check (url ~ '^https://' and length(url) <= 2000),
+  method text not null default 'GET' check (method in ('GET', 'POST')),
+  headers jsonb not null default '{}'::jsonb,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create index if not exists user_tools_user_id_idx on public.user_tools (user_id);
+
+alter table public.user_tools enable row level security;
+
+do $$ begin
+  create policy "Users can view own tools" on public.user_tools
+    for select using (auth.uid() = user_id);
+exception when others then null; end $$;
+
+do $$ begin
+  create policy "Users can create own tools" on public.user_tools
+    for insert with check (auth.uid() = user_id);
+exception when others then null; end $$;
+
+do $$ begin
+  create policy "Users can update own tools" on public.user_tools
+    for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+exception when others then null; end $$;
+
+do $$ begin
+  create policy "Users can delete own tools" on public.user_tools
+    for delete using (auth.uid() = user_id);
+exception when others then null; end $$;
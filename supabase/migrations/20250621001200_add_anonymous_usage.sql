@@ -0,0 +1,36 @@
+-- Server-side daily limit for anonymous chat.
+-- Anonymous callers have no account to reserve credits from, so the chat
+-- Edge Functions count their messages per client IP and day. IPs are only
+-- stored as SHA-256 hashes.
+
+create table if not exists public.anonymous_usage (
+  ip_hash text not null,
+  day date not null default current_date,
+  message_count integer not null default 0,
+  primary key (ip_hash, day)
+);
+
+-- No policies: only the service role reads or writes it
+alter table public.anonymous_usage enable row level security;
+
+-- Count one message for an IP. Returns the new count for today, or null when
+-- the IP already reached p_daily_limit.
+create or replace function public.record_anonymous_message(p_ip_hash text, p_daily_limit integer)
+returns integer as $$
+declare
+  v_count integer;
+begin
+  delete from public.anonymous_usage where ip_hash = p_ip_hash and day < current_date;
+
+  insert into public.anonymous_usage (ip_hash, day, message_count)
+  values (p_ip_hash, current_date, 1)
+  on conflict (ip_hash, day) do update
+    set message_count = public.anonymous_usage.message_count + 1
+    where public.anonymous_usage.message_count < p_daily_limit
+  returning message_count into v_count;
+
+  return v_count;
+end;
+$$ language plpgsql security definer;
+
+revoke all on function public.record_anonymous_message(text, integer) from public, anon, authenticated;